@@ -0,0 +1,57 @@
+import zlib from 'zlib';
+import { crc32, createTarGz, createZip } from './archive.js';
+
+const entries = [
+  { name: 'export/manifest.json', data: Buffer.from('{"pages":[]}\n'), mtime: new Date('2024-06-01T12:00:00Z') },
+  { name: `export/議事録/${'a'.repeat(120)}.md`, data: Buffer.from('# 議事録\n') },
+];
+
+describe('createTarGz', () => {
+  it('writes ustar headers with checksums and PAX headers for long names', () => {
+    const tar = zlib.gunzipSync(createTarGz(entries));
+    const field = (offset: number, length: number) => tar.subarray(offset, offset + length).toString('utf8').replace(/\0.*$/s, '');
+
+    expect(field(0, 100)).toBe('export/manifest.json');
+    expect(parseInt(field(124, 12), 8)).toBe(entries[0].data.length);
+    expect(parseInt(field(136, 12), 8)).toBe(Date.parse('2024-06-01T12:00:00Z') / 1000);
+    expect(field(257, 6)).toBe('ustar');
+    const header = Buffer.from(tar.subarray(0, 512));
+    header.fill(' ', 148, 156);
+    expect(parseInt(field(148, 8), 8)).toBe(header.reduce((sum, byte) => sum + byte, 0));
+    expect(field(512, 13)).toBe('{"pages":[]}\n');
+
+    // 2 番目のエントリーは PAX ヘッダー（type x）で名前を渡す
+    expect(field(1024 + 156, 1)).toBe('x');
+    const record = field(1536, 512);
+    expect(record).toBe(`${Buffer.byteLength(record)} path=${entries[1].name}\n`);
+    // 2 + 4 blocks of entries, then 2 zero blocks
+    expect(tar.length).toBe(512 * 8);
+  });
+});
+
+describe('createZip', () => {
+  it('writes deflated entries with UTF-8 names and a central directory', () => {
+    const zip = createZip(entries);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.subarray(30, 30 + nameLength).toString('utf8')).toBe('export/manifest.json');
+    const compressedSize = zip.readUInt32LE(18);
+    const data = zlib.inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString()).toBe('{"pages":[]}\n');
+    expect(zip.readUInt32LE(14)).toBe(crc32(data));
+
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+    const centralOffset = end.readUInt32LE(16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(centralOffset + end.readUInt32LE(12)).toBe(zip.length - 22);
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Minimal writers of tar (gzip-compressed) and zip archives, built in memory
+ * Only regular files are written; extractors create the directories from the entry names.
+ */
+import zlib from 'zlib';
+
+export interface ArchiveEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  data: Buffer;
+  mtime?: Date;
+}
+
+const BLOCK = 512;
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+function tarHeader(name: string, size: number, mtime: Date, type: '0' | 'x'): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, 'utf8');
+  header.write(octal(0o644, 8), 100, 'ascii');
+  header.write(octal(0, 8), 108, 'ascii');
+  header.write(octal(0, 8), 116, 'ascii');
+  header.write(octal(size, 12), 124, 'ascii');
+  header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 'ascii');
+  // チェックサム計算中はフィールドを空白で埋める
+  header.write(' '.repeat(8), 148, 'ascii');
+  header.write(type, 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(octal(checksum, 7) + ' ', 148, 'ascii');
+  return header;
+}
+
+function padded(data: Buffer): Buffer[] {
+  const remainder = data.length % BLOCK;
+  return remainder === 0 ? [data] : [data, Buffer.alloc(BLOCK - remainder)];
+}
+
+/**
+ * PAX record `<length> path=<name>\n`, whose length counts its own digits
+ */
+function paxPathRecord(name: string): Buffer {
+  const body = ` path=${name}\n`;
+  const bodyBytes = Buffer.byteLength(body);
+  let length = bodyBytes + 1;
+  while (String(length).length + bodyBytes !== length) length++;
+  return Buffer.from(`${length}${body}`, 'utf8');
+}
+
+/**
+ * Build a gzip-compressed tar archive (ustar, with PAX headers for names over 100 bytes)
+ */
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const entry of entries) {
+    const mtime = entry.mtime ?? new Date();
+    let name = entry.name;
+    if (Buffer.byteLength(name) > 100) {
+      const record = paxPathRecord(name);
+      parts.push(tarHeader('PaxHeader', record.length, mtime, 'x'), ...padded(record));
+      // 長い名前は PAX ヘッダーで渡し、ustar の name には切り詰めた名前を入れる
+      name = Buffer.from(name).subarray(0, 100).toString('utf8').replace(/�+$/, '');
+    }
+    parts.push(tarHeader(name, entry.data.length, mtime, '0'), ...padded(entry.data));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2));
+  return zlib.gzipSync(Buffer.concat(parts));
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a zip archive with deflated entries and UTF-8 names
+ */
+export function createZip(entries: ArchiveEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+    const { time, date } = dosDateTime(entry.mtime ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    // bit 11: ファイル名は UTF-8
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    // made by: Unix（外部属性のパーミッションを有効にする）
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
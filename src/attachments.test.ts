@@ -0,0 +1,48 @@
+import zlib from 'zlib';
+import { classifyAttachment, csvToMarkdownTable, extractPdfText, parseCsv } from './attachments.js';
+
+describe('classifyAttachment', () => {
+  it('uses the MIME type and falls back to the extension', () => {
+    expect(classifyAttachment('text/csv', 'data.txt')).toBe('csv');
+    expect(classifyAttachment('application/octet-stream', 'export.csv')).toBe('csv');
+    expect(classifyAttachment('image/png', 'diagram.png')).toBe('image');
+    expect(classifyAttachment('application/pdf', 'spec.pdf')).toBe('pdf');
+    expect(classifyAttachment('application/octet-stream', 'notes.md')).toBe('text');
+    expect(classifyAttachment('application/zip', 'bundle.zip')).toBe('binary');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,"two\nlines",3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3'],
+    ]);
+  });
+});
+
+describe('csvToMarkdownTable', () => {
+  it('renders a header row and escapes pipes', () => {
+    expect(csvToMarkdownTable('name,value\nx|y,1\n')).toBe('| name | value |\n| --- | --- |\n| x\\|y | 1 |');
+  });
+
+  it('truncates rows beyond maxRows', () => {
+    const table = csvToMarkdownTable('n\n1\n2\n3', 2);
+    expect(table).toContain('| 2 |');
+    expect(table).not.toContain('| 3 |');
+    expect(table).toContain('(1 more rows not shown)');
+  });
+});
+
+describe('extractPdfText', () => {
+  it('extracts text from compressed and plain content streams', () => {
+    const compressed = zlib.deflateSync(Buffer.from('BT /F1 12 Tf (Hello) Tj T* [(Wor) -10 (ld)] TJ ET', 'latin1'));
+    const pdf = Buffer.concat([
+      Buffer.from('%PDF-1.4\n4 0 obj\n<< /Length 50 /Filter /FlateDecode >>\nstream\n', 'latin1'),
+      compressed,
+      Buffer.from('\nendstream\nendobj\n5 0 obj\n<< /Length 20 >>\nstream\nBT (Second \\(page\\)) Tj ET\nendstream\nendobj\n', 'latin1'),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe('Hello\nWorld\nSecond (page)');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Local content extraction for page attachments
+ * Everything runs in-process: text is decoded as UTF-8, CSV is rendered as a markdown table and
+ * PDF text is pulled from the content streams (best effort, no OCR and no CID font mapping).
+ */
+import zlib from 'zlib';
+
+export type AttachmentKind = 'text' | 'csv' | 'image' | 'pdf' | 'binary';
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'json', 'yaml', 'yml', 'xml', 'html', 'htm', 'log', 'ini', 'toml',
+  'sh', 'js', 'ts', 'py', 'sql', 'tsv',
+]);
+const TEXT_MIME_TYPES = new Set([
+  'application/json', 'application/xml', 'application/x-yaml', 'application/yaml', 'application/javascript',
+  'application/x-sh', 'application/sql',
+]);
+// MCP クライアントが表示できる画像形式
+const IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.substring(dot + 1).toLowerCase();
+}
+
+/**
+ * Decide how an attachment is returned, from its MIME type and file name
+ */
+export function classifyAttachment(mimeType: string, name: string): AttachmentKind {
+  const mime = mimeType.split(';')[0].trim().toLowerCase();
+  const extension = extensionOf(name);
+
+  if (mime === 'text/csv' || extension === 'csv') return 'csv';
+  if (IMAGE_MIME_TYPES.has(mime)) return 'image';
+  if (mime === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mime.startsWith('text/') || TEXT_MIME_TYPES.has(mime) || TEXT_EXTENSIONS.has(extension)) return 'text';
+  return 'binary';
+}
+
+/**
+ * Parse CSV (RFC 4180: quoted fields, escaped quotes, newlines inside quotes)
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+}
+
+/**
+ * Render CSV as a markdown table, using the first row as the header
+ * @param maxRows Maximum number of data rows to include
+ */
+export function csvToMarkdownTable(text: string, maxRows: number = 200, delimiter: string = ','): string {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''), delimiter).filter((row) => row.some((cell) => cell !== ''));
+  if (rows.length === 0) return '(empty CSV)';
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? ''));
+  const [header, ...data] = rows;
+
+  let table = `| ${pad(header).join(' | ')} |\n| ${Array(width).fill('---').join(' | ')} |\n`;
+  for (const row of data.slice(0, maxRows)) {
+    table += `| ${pad(row).join(' | ')} |\n`;
+  }
+  if (data.length > maxRows) {
+    table += `\n(${data.length - maxRows} more rows not shown)\n`;
+  }
+  return table.trimEnd();
+}
+
+function decodePdfString(raw: string): string {
+  return raw
+    .replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+      switch (escape[0]) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case 'b': return '\b';
+        case 'f': return '\f';
+        case '(': return '(';
+        case ')': return ')';
+        case '\\': return '\\';
+        case '\r':
+        case '\n': return '';
+        default: return String.fromCharCode(parseInt(escape, 8));
+      }
+    });
+}
+
+// テキストオブジェクト中の文字列と改行を伴う演算子
+const PDF_TEXT_TOKEN = /\((?:\\.|[^\\)])*\)|\[(?:\((?:\\.|[^\\)])*\)|[^\]])*\]\s*TJ|T\*|Td|TD|'|"|ET/g;
+
+function extractTextFromContent(content: string): string {
+  let text = '';
+  for (const block of content.match(/BT[\s\S]*?ET/g) ?? []) {
+    for (const token of block.match(PDF_TEXT_TOKEN) ?? []) {
+      if (token.startsWith('(')) {
+        text += decodePdfString(token.slice(1, -1));
+      } else if (token.startsWith('[')) {
+        for (const part of token.match(/\((?:\\.|[^\\)])*\)|-?\d+(?:\.\d+)?/g) ?? []) {
+          if (part.startsWith('(')) {
+            text += decodePdfString(part.slice(1, -1));
+          } else if (Number(part) < -200) {
+            // 大きな字送りは単語間のスペースとして扱う
+            text += ' ';
+          }
+        }
+      } else if (!text.endsWith('\n')) {
+        text += '\n';
+      }
+    }
+  }
+  return text;
+}
+
+/**
+ * Extract the text of a PDF from its (optionally Flate-compressed) content streams
+ * Text drawn with embedded CID fonts or as images cannot be recovered and is skipped.
+ */
+export function extractPdfText(data: Buffer): string {
+  const source = data.toString('latin1');
+  const streamPattern = /(?<!end)stream\r?\n/g;
+  let text = '';
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    // ストリームの辞書はオブジェクト開始 (`n 0 obj`) から stream キーワードまで
+    const dictionary = source.slice(Math.max(0, source.lastIndexOf(' obj', match.index)), match.index);
+    // 画像やフォントなどのストリームは対象外
+    if (/\/Subtype\s*\/(Image|Form)|\/Type\s*\/(XObject|XRef|ObjStm)|\/Length1/.test(dictionary)) continue;
+
+    let stream = data.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        stream = zlib.inflateSync(stream, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+      } catch (error) {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+    text += extractTextFromContent(stream.toString('latin1'));
+  }
+
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ResponseCache, parseCacheTtls } from './cache.js';
+
+describe('ResponseCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('builds the same key regardless of parameter order', () => {
+    expect(ResponseCache.key('/_api/v3/pages/list', { path: '/a', limit: 10, page: undefined }))
+      .toBe(ResponseCache.key('/_api/v3/pages/list', { limit: 10, path: '/a' }));
+  });
+
+  it('returns copies and reports expired entries as stale', () => {
+    const cache = new ResponseCache({ ttlMs: { page: 1000 } }, 'test', clock);
+    cache.set('k', 'page', { page: { path: '/a' } });
+
+    const first = cache.lookup<any>('k')!;
+    first.value.page.path = '/changed';
+    expect(cache.lookup<any>('k')).toEqual({ value: { page: { path: '/a' } }, fresh: true });
+
+    now += 1000;
+    expect(cache.lookup('k')?.fresh).toBe(false);
+    cache.revalidated('k');
+    expect(cache.lookup('k')?.fresh).toBe(true);
+    expect(cache.stats().revalidated).toBe(1);
+  });
+
+  it('evicts the least recently used entries beyond the size budget', () => {
+    const cache = new ResponseCache({ maxBytes: 40 }, 'test', clock);
+    cache.set('a', 'pages', { body: 'aaaaaaaa' });
+    cache.set('b', 'pages', { body: 'bbbbbbbb' });
+    cache.lookup('a');
+    cache.set('c', 'pages', { body: 'cccccccc' });
+
+    expect(cache.lookup('b')).toBeUndefined();
+    expect(cache.lookup('a')).toBeDefined();
+    expect(cache.lookup('c')).toBeDefined();
+    expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it('invalidates a page, listing groups and subtrees', () => {
+    const cache = new ResponseCache({}, 'test', clock);
+    cache.set('page', 'page', {}, { path: '/docs/a', pageId: 'p1' });
+    cache.set('comments', 'comments', {}, { pageId: 'p1' });
+    cache.set('list', 'pages', {}, { path: '/docs' });
+    cache.set('other', 'page', {}, { path: '/docsets', pageId: 'p2' });
+
+    expect(cache.invalidate({ pageId: 'p1' }, ['pages'])).toBe(3);
+    expect(cache.stats().entries).toBe(1);
+
+    cache.set('child', 'page', {}, { path: '/docs/a/b' });
+    expect(cache.invalidateSubtree('/docs')).toBe(1);
+    expect(cache.lookup('other')).toBeDefined();
+  });
+
+  it('persists entries to disk and loads them again', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-cache-'));
+    try {
+      const cache = new ResponseCache({ dir }, 'instance', clock);
+      cache.set('k', 'revision', { revision: { _id: 'r1' } }, { pageId: 'p1' });
+      await cache.save();
+
+      const reloaded = new ResponseCache({ dir }, 'instance', clock);
+      expect(reloaded.lookup('k')).toEqual({ value: { revision: { _id: 'r1' } }, fresh: true });
+      expect(reloaded.stats().persistPath).toBe(path.join(dir, 'instance.json'));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseCacheTtls', () => {
+  it('reads group=ms pairs and ignores unknown groups', () => {
+    expect(parseCacheTtls('page=1000, search=0,bogus=5,tags=x')).toEqual({ page: 1000, search: 0 });
+    expect(parseCacheTtls(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,310 @@
+import fs from 'fs';
+import path from 'path';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+/**
+ * Endpoint groups with their own time-to-live
+ * page: /_api/v3/page, pages: /_api/v3/pages/list, recent: /_api/v3/pages/recent, search: /_api/v3/search,
+ * revisions: /_api/v3/revisions/list, revision: a single revision (immutable), tags: tag list and page tags,
+ * comments, attachments: attachment list, exist: /_api/v3/page/exist
+ */
+export type CacheGroup =
+  | 'page'
+  | 'pages'
+  | 'recent'
+  | 'search'
+  | 'revisions'
+  | 'revision'
+  | 'tags'
+  | 'comments'
+  | 'attachments'
+  | 'exist';
+
+export const CACHE_GROUPS: CacheGroup[] = [
+  'page', 'pages', 'recent', 'search', 'revisions', 'revision', 'tags', 'comments', 'attachments', 'exist',
+];
+
+export const DEFAULT_CACHE_TTLS: Record<CacheGroup, number> = {
+  // 期限切れ後もリビジョン比較で再検証できるため短めでよい
+  page: 30_000,
+  pages: 60_000,
+  recent: 15_000,
+  search: 30_000,
+  revisions: 60_000,
+  revision: 24 * 60 * 60_000,
+  tags: 300_000,
+  comments: 30_000,
+  attachments: 60_000,
+  exist: 30_000,
+};
+
+export const DEFAULT_CACHE_MAX_BYTES = 20 * 1024 * 1024;
+
+export interface CacheOptions {
+  // Size budget of all cached response bodies (serialized JSON)
+  maxBytes?: number;
+  // Per-group TTL overrides in milliseconds
+  ttlMs?: Partial<Record<CacheGroup, number>>;
+  // Directory to persist the cache in between runs (in-memory only when unset)
+  dir?: string;
+}
+
+// Page an entry belongs to, used for invalidation after writes and for flushing a subtree
+export interface CacheEntryMeta {
+  path?: string;
+  pageId?: string;
+}
+
+interface CacheEntry extends CacheEntryMeta {
+  group: CacheGroup;
+  json: string;
+  size: number;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  evictions: number;
+  groups: Partial<Record<CacheGroup, { entries: number; bytes: number; ttlMs: number }>>;
+  persistPath?: string;
+}
+
+/**
+ * Parse per-group TTL overrides written as `group=milliseconds` pairs, e.g. `page=10000,search=0`
+ * Unknown groups and invalid values are ignored.
+ */
+export function parseCacheTtls(value: string | undefined): Partial<Record<CacheGroup, number>> {
+  const ttls: Partial<Record<CacheGroup, number>> = {};
+  for (const pair of (value || '').split(',')) {
+    const [group, ms] = pair.split('=').map((part) => part.trim());
+    const ttl = Number(ms);
+    if (CACHE_GROUPS.includes(group as CacheGroup) && ms !== '' && !isNaN(ttl) && ttl >= 0) {
+      ttls[group as CacheGroup] = ttl;
+    }
+  }
+  return ttls;
+}
+
+const PERSIST_VERSION = 1;
+// ディスクへの書き込みをまとめる間隔
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * LRU cache of GROWI API responses
+ * Entries are stored as serialized JSON, so callers always get their own copy and the size budget
+ * counts real bytes. Expired entries are kept until evicted: the client can revalidate them cheaply
+ * (see GrowiClient) instead of fetching the full response again.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, revalidated: 0, evictions: 0 };
+  private saveTimer?: NodeJS.Timeout;
+  readonly maxBytes: number;
+  readonly ttlMs: Record<CacheGroup, number>;
+  readonly persistPath?: string;
+
+  /**
+   * @param options Cache options
+   * @param id File name of the persisted cache (one file per GROWI instance and token)
+   * @param now Clock, replaceable in tests
+   */
+  constructor(options: CacheOptions = {}, id: string = 'cache', private readonly now: () => number = Date.now) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+    this.ttlMs = { ...DEFAULT_CACHE_TTLS };
+    for (const [group, ttl] of Object.entries(options.ttlMs ?? {})) {
+      if (ttl !== undefined) this.ttlMs[group as CacheGroup] = ttl;
+    }
+    if (options.dir) {
+      this.persistPath = path.join(options.dir, `${id}.json`);
+      this.load();
+    }
+  }
+
+  /**
+   * Cache key of a GET request; parameters are sorted so that their order does not matter
+   */
+  static key(endpoint: string, params: Record<string, any> = {}): string {
+    const query = Object.keys(params)
+      .filter((name) => params[name] !== undefined && params[name] !== null)
+      .sort()
+      .map((name) => `${name}=${String(params[name])}`)
+      .join('&');
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  /**
+   * Look up an entry and mark it as most recently used
+   * @returns The cached value and whether it is still within its TTL, or undefined
+   */
+  lookup<T>(key: string): { value: T; fresh: boolean } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Map の挿入順を LRU として使うため、末尾に移動する
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: JSON.parse(entry.json) as T, fresh: this.now() < entry.expiresAt };
+  }
+
+  record(event: 'hit' | 'miss'): void {
+    if (event === 'hit') {
+      this.counters.hits++;
+    } else {
+      this.counters.misses++;
+    }
+  }
+
+  set(key: string, group: CacheGroup, value: unknown, meta: CacheEntryMeta = {}): void {
+    const json = JSON.stringify(value);
+    const size = Buffer.byteLength(json);
+    this.remove(key);
+    // 予算より大きいレスポンスはキャッシュしない
+    if (size > this.maxBytes) return;
+
+    const storedAt = this.now();
+    this.entries.set(key, { ...meta, group, json, size, storedAt, expiresAt: storedAt + this.ttlMs[group] });
+    this.bytes += size;
+    this.evict();
+    this.scheduleSave();
+  }
+
+  /**
+   * Restart the TTL of an entry that was confirmed to be unchanged
+   */
+  revalidated(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.expiresAt = this.now() + this.ttlMs[entry.group];
+    this.counters.revalidated++;
+    this.scheduleSave();
+  }
+
+  /**
+   * Remove the entries of a page (by path or page id) and of the given groups
+   * @returns Number of removed entries
+   */
+  invalidate(page: CacheEntryMeta, groups: CacheGroup[] = []): number {
+    return this.removeWhere((entry) =>
+      (page.pageId !== undefined && entry.pageId === page.pageId)
+      || (page.path !== undefined && entry.path === page.path)
+      || groups.includes(entry.group));
+  }
+
+  /**
+   * Remove the entries of a path and of every page below it
+   * @returns Number of removed entries
+   */
+  invalidateSubtree(rootPath: string): number {
+    const prefix = rootPath === '/' ? '/' : rootPath + '/';
+    return this.removeWhere((entry) => entry.path !== undefined && (entry.path === rootPath || entry.path.startsWith(prefix)));
+  }
+
+  /**
+   * Remove every entry
+   * @returns Number of removed entries
+   */
+  clear(): number {
+    return this.removeWhere(() => true);
+  }
+
+  stats(): CacheStats {
+    const groups: CacheStats['groups'] = {};
+    for (const entry of this.entries.values()) {
+      const group = groups[entry.group] ?? { entries: 0, bytes: 0, ttlMs: this.ttlMs[entry.group] };
+      group.entries++;
+      group.bytes += entry.size;
+      groups[entry.group] = group;
+    }
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      ...this.counters,
+      groups,
+      ...(this.persistPath ? { persistPath: this.persistPath } : {}),
+    };
+  }
+
+  /**
+   * Write the cache to disk now (no-op without a cache directory)
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.persistPath) return;
+
+    const data = JSON.stringify({ version: PERSIST_VERSION, entries: [...this.entries.entries()] });
+    const tmpPath = `${this.persistPath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.persistPath), { recursive: true });
+      // ページ本文を含むため所有者のみ読み書き可能にする
+      await fs.promises.writeFile(tmpPath, data, { mode: 0o600 });
+      await fs.promises.rename(tmpPath, this.persistPath);
+    } catch (error) {
+      logToStderr(`Failed to save cache to ${this.persistPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): void {
+    if (!this.persistPath || !fs.existsSync(this.persistPath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.persistPath, 'utf8'));
+      if (data?.version !== PERSIST_VERSION || !Array.isArray(data.entries)) return;
+      for (const [key, entry] of data.entries as [string, CacheEntry][]) {
+        if (typeof entry?.json !== 'string' || !CACHE_GROUPS.includes(entry.group)) continue;
+        this.entries.set(key, entry);
+        this.bytes += entry.size;
+      }
+      this.evict();
+      logToStderr(`Loaded ${this.entries.size} cached responses from ${this.persistPath}`);
+    } catch (error) {
+      logToStderr(`Ignoring unreadable cache file ${this.persistPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.persistPath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.save();
+    }, SAVE_DELAY_MS);
+    // 保存待ちのためにプロセスを終了させないようにする
+    this.saveTimer.unref();
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+    return true;
+  }
+
+  private removeWhere(predicate: (entry: CacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of [...this.entries.entries()]) {
+      if (predicate(entry) && this.remove(key)) removed++;
+    }
+    if (removed > 0) this.scheduleSave();
+    return removed;
+  }
+
+  private evict(): void {
+    while (this.bytes > this.maxBytes && this.entries.size > 0) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.remove(oldestKey);
+      this.counters.evictions++;
+    }
+  }
+}
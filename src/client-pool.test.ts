@@ -0,0 +1,30 @@
+import { GrowiClientPool } from './client-pool.js';
+
+describe('GrowiClientPool', () => {
+  it('reuses clients for the same URL and token', () => {
+    const pool = new GrowiClientPool(2);
+
+    const first = pool.get('http://growi.test', 'token-a');
+    const second = pool.get('http://growi.test/', 'token-a');
+
+    expect(second).toBe(first);
+    expect(pool.size).toBe(1);
+  });
+
+  it('keeps separate clients per token and evicts the least recently used', () => {
+    const pool = new GrowiClientPool(2);
+
+    const a = pool.get('http://growi.test', 'token-a');
+    const b = pool.get('http://growi.test', 'token-b');
+    pool.get('http://growi.test', 'token-a');
+    pool.get('http://growi.test', 'token-c');
+
+    expect(pool.size).toBe(2);
+    expect(pool.get('http://growi.test', 'token-a')).toBe(a);
+    expect(pool.get('http://growi.test', 'token-b')).not.toBe(b);
+  });
+
+  it('does not expose raw tokens in pool keys', () => {
+    expect(GrowiClientPool.key('http://growi.test', 'secret-token')).not.toContain('secret-token');
+  });
+});
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { GrowiClient, GrowiClientOptions } from './growi-client.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+/**
+ * Bounded pool of GrowiClient instances keyed by API URL and token hash
+ * Least recently used clients are evicted once the pool is full.
+ * Tokens are never kept as map keys, only their SHA-256 hash.
+ */
+export class GrowiClientPool {
+  private clients = new Map<string, GrowiClient>();
+
+  constructor(
+    private readonly maxSize: number = 50,
+    private readonly clientOptions: GrowiClientOptions = {},
+  ) {
+    if (maxSize < 1) throw new Error('Client pool size must be at least 1');
+  }
+
+  static tokenHash(apiToken: string): string {
+    return createHash('sha256').update(apiToken).digest('hex');
+  }
+
+  static key(apiUrl: string, apiToken: string): string {
+    return `${apiUrl.replace(/\/+$/, '')}#${GrowiClientPool.tokenHash(apiToken)}`;
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Return the pooled client for the credentials, creating it when needed
+   */
+  get(apiUrl: string, apiToken: string): GrowiClient {
+    const key = GrowiClientPool.key(apiUrl, apiToken);
+
+    const existing = this.clients.get(key);
+    if (existing) {
+      // Map の挿入順を LRU として使うため、末尾に移動する
+      this.clients.delete(key);
+      this.clients.set(key, existing);
+      return existing;
+    }
+
+    const client = new GrowiClient(apiUrl, apiToken, this.clientOptions);
+    this.clients.set(key, client);
+
+    while (this.clients.size > this.maxSize) {
+      const oldestKey = this.clients.keys().next().value as string;
+      this.clients.delete(oldestKey);
+      logToStderr(`Evicted GROWI client from pool (size limit ${this.maxSize})`);
+    }
+
+    return client;
+  }
+}
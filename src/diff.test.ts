@@ -0,0 +1,80 @@
+import { diffSequences, unifiedDiff, wordDiff } from './diff.js';
+
+describe('diffSequences', () => {
+  it('finds the minimal edit between sequences', () => {
+    const ops = diffSequences('ABCABBA'.split(''), 'CBABAC'.split(''));
+    const deleted = ops.filter((op) => op.type === 'delete').flatMap((op) => op.items).length;
+    const inserted = ops.filter((op) => op.type === 'insert').flatMap((op) => op.items).length;
+
+    expect(deleted + inserted).toBe(5);
+    expect(ops.filter((op) => op.type !== 'insert').flatMap((op) => op.items).join('')).toBe('ABCABBA');
+    expect(ops.filter((op) => op.type !== 'delete').flatMap((op) => op.items).join('')).toBe('CBABAC');
+  });
+
+  it('always reconstructs both inputs', () => {
+    for (let run = 0; run < 50; run++) {
+      const random = () => Array.from({ length: Math.floor(Math.random() * 30) }, () => 'abcd'[Math.floor(Math.random() * 4)]);
+      const a = random();
+      const b = random();
+      const ops = diffSequences(a, b);
+
+      expect(ops.filter((op) => op.type !== 'insert').flatMap((op) => op.items)).toEqual(a);
+      expect(ops.filter((op) => op.type !== 'delete').flatMap((op) => op.items)).toEqual(b);
+    }
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('produces diff -u style hunks', () => {
+    const oldText = 'abcdefghijkl'.split('').join('\n');
+    const newText = 'abcDefghijklm'.split('').join('\n');
+
+    expect(unifiedDiff(oldText, newText, { fromLabel: 'rev1', toLabel: 'rev2' })).toBe([
+      '--- rev1',
+      '+++ rev2',
+      '@@ -1,7 +1,7 @@',
+      ' a',
+      ' b',
+      ' c',
+      '-d',
+      '+D',
+      ' e',
+      ' f',
+      ' g',
+      '@@ -10,3 +10,4 @@',
+      ' j',
+      ' k',
+      ' l',
+      '+m',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges changes separated by less than twice the context', () => {
+    const oldText = 'abcdefghij'.split('').join('\n');
+    const newText = 'abcDefghijk'.split('').join('\n');
+
+    expect(unifiedDiff(oldText, newText).split('\n')[2]).toBe('@@ -1,10 +1,11 @@');
+  });
+
+  it('builds hunks of a long page changed at both ends in linear time', () => {
+    const oldLines = Array.from({ length: 50000 }, (_, i) => `line ${i}`);
+    const newLines = oldLines.map((line, i) => (i === 10 || i === 49990 ? `${line} changed` : line));
+
+    const headers = unifiedDiff(oldLines.join('\n'), newLines.join('\n')).split('\n').filter((line) => line.startsWith('@@'));
+
+    expect(headers).toEqual(['@@ -8,7 +8,7 @@', '@@ -49988,7 +49988,7 @@']);
+  });
+
+  it('returns an empty string for identical texts', () => {
+    expect(unifiedDiff('same\n', 'same\n')).toBe('');
+  });
+});
+
+describe('wordDiff', () => {
+  it('marks removed and added words in markdown', () => {
+    const result = wordDiff('# Runbook\nRestart the web server\n', '# Runbook\nRestart the api server\n');
+
+    expect(result).toContain('Restart the ~~web~~**api** server');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Text diff helpers used by the revision tools
+ * Line and word diffs are computed with Myers' O(ND) algorithm after trimming the common
+ * prefix and suffix, which keeps typical wiki edits (a few changed lines in a long page) cheap.
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+// これを超える編集距離の場合は残りを「全削除＋全追加」として扱う
+const MAX_EDIT_DISTANCE = 2000;
+
+function pushOp<T>(ops: DiffOp<T>[], type: DiffOpType, item: T): void {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.items.push(item);
+  } else {
+    ops.push({ type, items: [item] });
+  }
+}
+
+function myers<T>(a: T[], b: T[]): DiffOp<T>[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // 編集経路を末尾から辿る
+  const reversed: { type: DiffOpType; item: T }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', item: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', item: b[--y] });
+      } else {
+        reversed.push({ type: 'delete', item: a[--x] });
+      }
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushOp(ops, reversed[i].type, reversed[i].item);
+  }
+  return ops;
+}
+
+/**
+ * Diff two token sequences
+ */
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    { type: 'delete' as const, items: middleA },
+    { type: 'insert' as const, items: middleB },
+  ];
+
+  const ops: DiffOp<T>[] = [];
+  const append = (type: DiffOpType, items: T[]) => items.forEach((item) => pushOp(ops, type, item));
+  append('equal', a.slice(0, prefix));
+  middle.forEach((op) => append(op.type, op.items));
+  append('equal', a.slice(a.length - suffix));
+  return ops;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+interface LineEntry {
+  type: DiffOpType;
+  line: string;
+}
+
+interface Hunk {
+  oldStart: number;
+  newStart: number;
+  entries: LineEntry[];
+}
+
+function buildHunks(oldText: string, newText: string, context: number): Hunk[] {
+  const entries: LineEntry[] = diffSequences(splitLines(oldText), splitLines(newText))
+    .flatMap((op) => op.items.map((line) => ({ type: op.type, line })));
+
+  const hunks: Hunk[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let current: Hunk | null = null;
+  // 直近の変更行の位置（コンテキストの終わりを判定するため）
+  let lastChange = -Infinity;
+  // 次の変更行の位置。前にだけ進めるので全体で O(n)（見つからなければ entries.length）
+  let nextChange = 0;
+
+  entries.forEach((entry, index) => {
+    if (entry.type !== 'equal') {
+      if (!current) {
+        const start = Math.max(0, index - context);
+        const leading = entries.slice(start, index);
+        current = {
+          oldStart: oldLine - leading.length,
+          newStart: newLine - leading.length,
+          entries: [...leading],
+        };
+        hunks.push(current);
+      }
+      current.entries.push(entry);
+      lastChange = index;
+    } else if (current) {
+      if (index - lastChange <= context) {
+        current.entries.push(entry);
+      } else {
+        // 次の変更までの距離が 2 * context 以内なら同じハンクに含める
+        if (nextChange <= index) {
+          nextChange = index + 1;
+          while (nextChange < entries.length && entries[nextChange].type === 'equal') nextChange++;
+        }
+        if (nextChange < entries.length && nextChange - lastChange <= context * 2 + 1) {
+          current.entries.push(entry);
+        } else {
+          current = null;
+        }
+      }
+    }
+
+    if (entry.type !== 'insert') oldLine++;
+    if (entry.type !== 'delete') newLine++;
+  });
+
+  return hunks;
+}
+
+function hunkRange(start: number, count: number): string {
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Unified diff of two texts, in the same format as `diff -u`
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {},
+): string {
+  const hunks = buildHunks(oldText, newText, options.context ?? 3);
+  if (hunks.length === 0) return '';
+
+  let text = `--- ${options.fromLabel ?? 'a'}\n+++ ${options.toLabel ?? 'b'}\n`;
+  for (const hunk of hunks) {
+    const oldCount = hunk.entries.filter((entry) => entry.type !== 'insert').length;
+    const newCount = hunk.entries.filter((entry) => entry.type !== 'delete').length;
+    text += `@@ -${hunkRange(hunk.oldStart, oldCount)} +${hunkRange(hunk.newStart, newCount)} @@\n`;
+    for (const entry of hunk.entries) {
+      const marker = entry.type === 'insert' ? '+' : entry.type === 'delete' ? '-' : ' ';
+      text += `${marker}${entry.line}\n`;
+    }
+  }
+  return text;
+}
+
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+function markWords(type: DiffOpType, text: string): string {
+  if (type === 'equal') return text;
+  const marker = type === 'delete' ? '~~' : '**';
+  // 前後の空白や改行をマーカーの内側に含めるとmarkdownとして解釈されないため外に出す
+  return text.split('\n').map((segment) => {
+    const match = segment.match(/^(\s*)(.*?)(\s*)$/s);
+    return match && match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : segment;
+  }).join('\n');
+}
+
+/**
+ * Word-level markdown diff of two texts
+ * Only changed regions are shown (with line context); removed words are rendered as ~~strikethrough~~
+ * and added words in **bold**.
+ */
+export function wordDiff(oldText: string, newText: string, options: { context?: number } = {}): string {
+  const hunks = buildHunks(oldText, newText, options.context ?? 1);
+
+  return hunks.map((hunk) => {
+    let text = `@@ line ${hunk.newStart} @@\n`;
+    let i = 0;
+    while (i < hunk.entries.length) {
+      if (hunk.entries[i].type === 'equal') {
+        text += hunk.entries[i].line + '\n';
+        i++;
+        continue;
+      }
+
+      // 連続する変更行をまとめて単語単位で比較する
+      const removed: string[] = [];
+      const added: string[] = [];
+      while (i < hunk.entries.length && hunk.entries[i].type !== 'equal') {
+        (hunk.entries[i].type === 'delete' ? removed : added).push(hunk.entries[i].line);
+        i++;
+      }
+      const ops = diffSequences(tokenizeWords(removed.join('\n')), tokenizeWords(added.join('\n')));
+      text += ops.map((op) => markWords(op.type, op.items.join(''))).join('') + '\n';
+    }
+    return text;
+  }).join('\n');
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import {
+  errorFromInfo,
+  errorInfoOf,
+  errorResult,
+  NotFoundError,
+  parseGrowiErrorBody,
+  RateLimitedError,
+  toGrowiError,
+  UnauthorizedError,
+} from './errors.js';
+
+const httpError = (status: number, body: string, extra: Record<string, any> = {}) =>
+  Object.assign(new Error(`HTTP Error: ${status}`), { status, body, ...extra });
+
+describe('toGrowiError', () => {
+  it('maps HTTP statuses and keeps the GROWI error code', () => {
+    const error = toGrowiError(httpError(404, '{"errors":[{"message":"Page is not found","code":"page-not-found"}]}'));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.info).toEqual({ code: 'NOT_FOUND', status: 404, growiCode: 'page-not-found' });
+    expect(error.message).toBe('Not found (HTTP 404): Page is not found');
+  });
+
+  it('tells an expired token apart from a missing page', () => {
+    expect(toGrowiError(httpError(401, '{"ok":false,"error":"access token is invalid"}'))).toBeInstanceOf(UnauthorizedError);
+    expect(toGrowiError(httpError(403, '')).code).toBe('FORBIDDEN');
+  });
+
+  it('keeps the Retry-After delay of rate limited requests', () => {
+    const error = toGrowiError(httpError(429, '', { retryAfterMs: 2000 }));
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it('maps transport failures without a status', () => {
+    expect(toGrowiError(Object.assign(new Error('timed out'), { code: 'ETIMEDOUT' })).code).toBe('TIMEOUT');
+    expect(toGrowiError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' })).code).toBe('NETWORK');
+    expect(toGrowiError(Object.assign(new Error('cancelled'), { code: 'ABORT_ERR' })).code).toBe('CANCELLED');
+    expect(toGrowiError(new SyntaxError('Unexpected token <')).code).toBe('INVALID_RESPONSE');
+    expect(toGrowiError(httpError(502, '<html><body>Bad Gateway</body></html>')).info).toEqual({ code: 'API_ERROR', status: 502 });
+  });
+});
+
+describe('parseGrowiErrorBody', () => {
+  it('reads apiv3 and legacy error bodies', () => {
+    expect(parseGrowiErrorBody('{"errors":[{"message":"m","code":"c"}]}')).toEqual({ message: 'm', growiCode: 'c' });
+    expect(parseGrowiErrorBody('{"ok":false,"error":"legacy"}')).toEqual({ message: 'legacy', growiCode: undefined });
+  });
+});
+
+describe('errorResult', () => {
+  it('returns an MCP error result with a machine-readable code', () => {
+    expect(errorResult('Error getting page: gone', { code: 'NOT_FOUND', status: 404 })).toEqual({
+      isError: true,
+      content: [{ type: 'text', text: 'Error getting page: gone' }],
+      structuredContent: { error: { code: 'NOT_FOUND', status: 404, message: 'Error getting page: gone' } },
+    });
+  });
+
+  it('classifies exceptions caught by tools', () => {
+    let zodError: unknown;
+    try {
+      z.object({ path: z.string() }).parse({});
+    } catch (error) {
+      zodError = error;
+    }
+
+    expect(errorInfoOf(zodError)).toEqual({ code: 'INVALID_ARGUMENT' });
+    expect(errorInfoOf(new Error('boom'))).toEqual({ code: 'INTERNAL_ERROR' });
+    expect(errorFromInfo('gone', { code: 'NOT_FOUND', status: 404 })).toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,224 @@
+import { ZodError } from 'zod';
+import { GrowiErrorCode, GrowiErrorInfo } from './types/growi.js';
+
+/**
+ * Base class of the errors raised for failed GROWI requests
+ * `code` is a stable machine-readable category; `status` and `growiCode` are passed through from GROWI.
+ */
+export class GrowiError extends Error {
+  readonly code: GrowiErrorCode = 'API_ERROR';
+  readonly status?: number;
+  readonly growiCode?: string;
+  readonly retryAfterMs?: number;
+  // Original error thrown by the transport
+  readonly cause?: unknown;
+
+  constructor(message: string, details: { status?: number; growiCode?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = details.cause;
+    this.status = details.status;
+    this.growiCode = details.growiCode;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get info(): GrowiErrorInfo {
+    return {
+      code: this.code,
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.growiCode !== undefined ? { growiCode: this.growiCode } : {}),
+      ...(this.retryAfterMs !== undefined ? { retryAfterMs: this.retryAfterMs } : {}),
+    };
+  }
+}
+
+export class NotFoundError extends GrowiError {
+  readonly code = 'NOT_FOUND';
+}
+
+export class UnauthorizedError extends GrowiError {
+  readonly code = 'UNAUTHORIZED';
+}
+
+export class ForbiddenError extends GrowiError {
+  readonly code = 'FORBIDDEN';
+}
+
+export class ConflictError extends GrowiError {
+  readonly code = 'CONFLICT';
+}
+
+export class RateLimitedError extends GrowiError {
+  readonly code = 'RATE_LIMITED';
+}
+
+export class TimeoutError extends GrowiError {
+  readonly code = 'TIMEOUT';
+}
+
+export class CancelledError extends GrowiError {
+  readonly code = 'CANCELLED';
+}
+
+export class InvalidResponseError extends GrowiError {
+  readonly code = 'INVALID_RESPONSE';
+}
+
+export class NetworkError extends GrowiError {
+  readonly code = 'NETWORK';
+}
+
+// Raised when a download exceeds the configured size cap
+export class TooLargeError extends GrowiError {
+  readonly code = 'TOO_LARGE';
+}
+
+// Raised by tools for arguments that are well-formed but cannot be used
+export class InvalidArgumentError extends GrowiError {
+  readonly code = 'INVALID_ARGUMENT';
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'ECONNABORTED',
+]);
+
+/**
+ * Extract the message and error code from a GROWI error body
+ * apiv3: `{"errors":[{"message":"...","code":"..."}]}`, legacy API: `{"ok":false,"error":"..."}`
+ */
+export function parseGrowiErrorBody(body: string | undefined): { message?: string; growiCode?: string } {
+  if (!body) return {};
+  try {
+    const data = JSON.parse(body);
+    const first = Array.isArray(data?.errors) ? data.errors[0] : data?.errors;
+    if (first) {
+      return {
+        message: typeof first.message === 'string' ? first.message : undefined,
+        growiCode: typeof first.code === 'string' ? first.code : undefined,
+      };
+    }
+    if (typeof data?.error === 'string') {
+      return { message: data.error, growiCode: typeof data.code === 'string' ? data.code : undefined };
+    }
+    if (typeof data?.message === 'string') {
+      return { message: data.message };
+    }
+  } catch (error) {
+    // JSON でない本文（HTMLのエラーページなど）は先頭だけを使う
+    const text = body.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    return text ? { message: text.substring(0, 200) } : {};
+  }
+  return {};
+}
+
+/**
+ * Convert an error thrown by the transport (or anything else) into a typed GrowiError
+ */
+export function toGrowiError(error: unknown): GrowiError {
+  if (error instanceof GrowiError) return error;
+
+  const raw = error as any;
+  const status: number | undefined = typeof raw?.status === 'number' ? raw.status : undefined;
+  const rawMessage = error instanceof Error ? error.message : String(error);
+
+  if (raw?.code === 'ABORT_ERR') {
+    return new CancelledError('Request was cancelled', { cause: error });
+  }
+  if (raw?.code === 'ETIMEDOUT') {
+    return new TimeoutError(rawMessage, { cause: error });
+  }
+  if (raw?.code === 'TOO_LARGE') {
+    return new TooLargeError(rawMessage, { cause: error });
+  }
+  if (status === undefined) {
+    if (raw?.code && NETWORK_ERROR_CODES.has(raw.code)) {
+      return new NetworkError(`Network error: ${rawMessage}`, { cause: error });
+    }
+    if (error instanceof SyntaxError || raw?.code === 'INVALID_RESPONSE') {
+      return new InvalidResponseError(rawMessage, { cause: error });
+    }
+    return new GrowiError(rawMessage, { cause: error });
+  }
+
+  const { message, growiCode } = parseGrowiErrorBody(raw?.body);
+  const details = { status, growiCode, retryAfterMs: raw?.retryAfterMs, cause: error };
+  const suffix = message ? `: ${message}` : '';
+
+  switch (status) {
+    case 401:
+      return new UnauthorizedError(`Unauthorized (HTTP 401)${suffix}; check the GROWI API token`, details);
+    case 403:
+      return new ForbiddenError(`Forbidden (HTTP 403)${suffix}`, details);
+    case 404:
+      return new NotFoundError(`Not found (HTTP 404)${suffix}`, details);
+    case 409:
+      return new ConflictError(`Conflict (HTTP 409)${suffix}`, details);
+    case 429:
+      return new RateLimitedError(`Rate limited by GROWI (HTTP 429)${suffix}`, details);
+    default:
+      return new GrowiError(`GROWI returned HTTP ${status}${suffix}`, details);
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<GrowiErrorCode, new (message: string, details?: ConstructorParameters<typeof GrowiError>[1]) => GrowiError>> = {
+  NOT_FOUND: NotFoundError,
+  UNAUTHORIZED: UnauthorizedError,
+  FORBIDDEN: ForbiddenError,
+  CONFLICT: ConflictError,
+  RATE_LIMITED: RateLimitedError,
+  TIMEOUT: TimeoutError,
+  CANCELLED: CancelledError,
+  INVALID_RESPONSE: InvalidResponseError,
+  NETWORK: NetworkError,
+  TOO_LARGE: TooLargeError,
+  INVALID_ARGUMENT: InvalidArgumentError,
+};
+
+/**
+ * Rebuild a typed error from a failed client response, to rethrow it from a helper
+ * @param message Error message
+ * @param info errorInfo of the response
+ */
+export function errorFromInfo(message: string, info?: GrowiErrorInfo): GrowiError {
+  const ErrorClass = (info && ERROR_CLASSES[info.code]) || GrowiError;
+  return new ErrorClass(message, info);
+}
+
+/**
+ * Machine-readable details of any error caught by a tool
+ */
+export function errorInfoOf(error: unknown): GrowiErrorInfo {
+  if (error instanceof ZodError) return { code: 'INVALID_ARGUMENT' };
+  if (error instanceof GrowiError) return error.info;
+  return { code: 'INTERNAL_ERROR' };
+}
+
+/**
+ * Build the MCP result of a failed tool call
+ * The text is for the model; structuredContent.error lets callers branch on the code.
+ * @param text Human-readable error message
+ * @param info Error details (from a client response's errorInfo or errorInfoOf)
+ */
+export function errorResult(text: string, info: GrowiErrorInfo = { code: 'INTERNAL_ERROR' }) {
+  return {
+    isError: true as const,
+    content: [{ type: 'text' as const, text }],
+    structuredContent: {
+      error: { ...info, message: text },
+    },
+  };
+}
+
+/**
+ * Build the MCP result of a call whose arguments failed validation
+ * Every issue is listed with the argument it refers to, e.g. `- limit: Expected number, received boolean`.
+ * @param tool Name of the called tool
+ * @param error Validation error of the arguments
+ */
+export function validationErrorResult(tool: string, error: ZodError) {
+  const issues = error.issues.map((issue) => {
+    const where = issue.path.length > 0 ? issue.path.join('.') : 'arguments';
+    return `- ${where}: ${issue.message}`;
+  });
+  return errorResult(`Invalid arguments for ${tool}:\n${issues.join('\n')}`, { code: 'INVALID_ARGUMENT' });
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jest } from '@jest/globals';
+import {
+  decodePathSegment,
+  encodePathSegment,
+  exportSubtree,
+  frontMatter,
+  pageFilePath,
+  pagePathOfFile,
+} from './export.js';
+
+const page = (id: string, pagePath: string, body: string) => ({
+  _id: id,
+  path: pagePath,
+  revision: { _id: `rev-${id}`, body, author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-02T00:00:00.000Z' },
+  creator: { _id: 'u2', name: 'bob' },
+  createdAt: '2024-06-01T00:00:00.000Z',
+  updatedAt: '2024-06-02T00:00:00.000Z',
+});
+
+const mockClient = (pages: ReturnType<typeof page>[]) => ({
+  baseURL: 'https://wiki.example.com',
+  listPages: jest.fn(async (pagePath: string) => {
+    const listed = pages.filter((candidate) => candidate.path === pagePath || candidate.path.startsWith(pagePath + '/'));
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, offset: 0 } };
+  }),
+  getPage: jest.fn(async (pagePath: string) => {
+    const found = pages.find((candidate) => candidate.path === pagePath);
+    return found ? { ok: true, page: found } : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } };
+  }),
+}) as any;
+
+describe('path encoding', () => {
+  it('escapes characters and names that are unsafe in file names, reversibly', () => {
+    const segments = ['a:b', 'what?', '50%', '.hidden', 'end.', 'CON', 'nul.txt', 'tab\there', '議事録', 'plain'];
+    const encoded = segments.map(encodePathSegment);
+
+    expect(encoded).toEqual(['a%3Ab', 'what%3F', '50%25', '%2Ehidden', 'end%2E', '%43ON', '%6Eul.txt', 'tab%09here', '議事録', 'plain']);
+    expect(encoded.map(decodePathSegment)).toEqual(segments);
+  });
+
+  it('maps page paths to files and back', () => {
+    for (const pagePath of ['/', '/team', '/team/2024/06:01 議事録', '/%2F', '/a/b.md']) {
+      expect(pagePathOfFile(pageFilePath(pagePath))).toBe(pagePath);
+    }
+    expect(pageFilePath('/team/a:b')).toBe('team/a%3Ab.md');
+    expect(pageFilePath('/')).toBe('%2F.md');
+  });
+});
+
+describe('frontMatter', () => {
+  it('writes the page metadata as quoted YAML', () => {
+    expect(frontMatter({ ...page('p1', '/team/"quoted"', ''), tags: ['a'] } as any)).toBe([
+      '---',
+      'path: "/team/\\"quoted\\""',
+      'pageId: "p1"',
+      'revisionId: "rev-p1"',
+      'author: "alice"',
+      'creator: "bob"',
+      'createdAt: "2024-06-01T00:00:00.000Z"',
+      'updatedAt: "2024-06-02T00:00:00.000Z"',
+      'tags: ["a"]',
+      '---',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('exportSubtree', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes a markdown file per page and a manifest', async () => {
+    const client = mockClient([
+      page('p1', '/team', '# Team'),
+      page('p2', '/team/a:b', 'body'),
+      page('x', '/other', 'outside'),
+    ]);
+    const outDir = path.join(dir, 'team');
+
+    const summary = await exportSubtree(client, { path: '/team/', outDir, archive: 'zip' });
+
+    expect(summary).toEqual({ path: '/team', outDir, pages: 2, total: 2, complete: true, removed: 0, archive: `${outDir}.zip` });
+    expect(fs.readFileSync(path.join(outDir, 'team.md'), 'utf8')).toMatch(/^---\npath: "\/team"\n[\s\S]*---\n\n# Team\n$/);
+    expect(fs.existsSync(path.join(outDir, 'team', 'a%3Ab.md'))).toBe(true);
+    const manifest = JSON.parse(fs.readFileSync(path.join(outDir, 'manifest.json'), 'utf8'));
+    expect(manifest).toMatchObject({ version: 1, source: 'https://wiki.example.com', path: '/team', complete: true });
+    expect(manifest.pages.map((exported: any) => [exported.path, exported.file, exported.revisionId])).toEqual([
+      ['/team', 'team.md', 'rev-p1'],
+      ['/team/a:b', 'team/a%3Ab.md', 'rev-p2'],
+    ]);
+    expect(fs.readFileSync(`${outDir}.zip`).readUInt32LE(0)).toBe(0x04034b50);
+  });
+
+  it('updates a previous export and removes the files of pages that are gone', async () => {
+    const outDir = path.join(dir, 'team');
+    await exportSubtree(mockClient([page('p1', '/team', 'v1'), page('p2', '/team/old', 'old')]), { path: '/team', outDir });
+
+    const summary = await exportSubtree(mockClient([page('p1', '/team', 'v2')]), { path: '/team', outDir, archive: 'tar' });
+
+    expect(summary).toMatchObject({ pages: 1, removed: 1, archive: `${outDir}.tar.gz` });
+    expect(fs.existsSync(path.join(outDir, 'team', 'old.md'))).toBe(false);
+    expect(fs.readFileSync(path.join(outDir, 'team.md'), 'utf8')).toContain('\nv2\n');
+  });
+
+  it('keeps the files it did not rewrite when max_pages cuts the export short', async () => {
+    const outDir = path.join(dir, 'team');
+    const pages = [page('p1', '/team', 'v1'), page('p2', '/team/a', 'a'), page('p3', '/team/b', 'b')];
+    await exportSubtree(mockClient(pages), { path: '/team', outDir });
+
+    const summary = await exportSubtree(mockClient(pages), { path: '/team', outDir, maxPages: 1, archive: 'zip' });
+
+    expect(summary).toMatchObject({ pages: 1, total: 3, complete: false, removed: 0 });
+    expect(fs.existsSync(path.join(outDir, 'team', 'a.md'))).toBe(true);
+    expect(fs.existsSync(path.join(outDir, 'team', 'b.md'))).toBe(true);
+    const manifest = JSON.parse(fs.readFileSync(path.join(outDir, 'manifest.json'), 'utf8'));
+    expect(manifest.pages.map((exported: any) => exported.file)).toEqual(['team.md', 'team/a.md', 'team/b.md']);
+  });
+
+  it('fails without removing anything when a page cannot be read', async () => {
+    const outDir = path.join(dir, 'team');
+    const pages = [page('p1', '/team', 'v1'), page('p2', '/team/a', 'a')];
+    await exportSubtree(mockClient(pages), { path: '/team', outDir });
+    const client = mockClient(pages);
+    client.getPage.mockImplementation(async (pagePath: string) => pagePath === '/team/a'
+      ? { ok: false, error: 'Request failed with status code 500', errorInfo: { code: 'API_ERROR' } }
+      : { ok: true, page: pages[0] });
+
+    await expect(exportSubtree(client, { path: '/team', outDir })).rejects.toThrow('Error getting page /team/a');
+    expect(fs.existsSync(path.join(outDir, 'team', 'a.md'))).toBe(true);
+  });
+
+  it('drops pages deleted while the export runs', async () => {
+    const client = mockClient([page('p1', '/team', 'v1'), page('p2', '/team/gone', 'gone')]);
+    client.getPage.mockImplementation(async (pagePath: string) => pagePath === '/team/gone'
+      ? { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } }
+      : { ok: true, page: page('p1', '/team', 'v1') });
+
+    const summary = await exportSubtree(client, { path: '/team', outDir: path.join(dir, 'team') });
+
+    expect(summary).toMatchObject({ pages: 1, complete: true });
+  });
+
+  it('refuses a non-empty directory that is not an export', async () => {
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'keep me');
+
+    await expect(exportSubtree(mockClient([page('p1', '/team', 'v1')]), { path: '/team', outDir: dir }))
+      .rejects.toThrow('holds no previous export');
+    expect(fs.readdirSync(dir)).toEqual(['notes.txt']);
+  });
+});
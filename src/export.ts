@@ -0,0 +1,233 @@
+/**
+ * Export of a page subtree to local markdown files
+ * Each page becomes `<page path>.md` with YAML front matter, under a directory that mirrors the wiki paths,
+ * next to a manifest.json. The directory can also be bundled into a .tar.gz or .zip archive.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { GrowiClient } from './growi-client.js';
+import { InvalidArgumentError } from './errors.js';
+import { GrowiPage } from './types/growi.js';
+import { createTarGz, createZip, ArchiveEntry } from './archive.js';
+import { lastEditor } from './tools/changes-since.js';
+import { scanSubtree } from './tools/page-links.js';
+import { normalizePagePath } from './tools/move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+// 形式を変えたら上げる
+const MANIFEST_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+// File of the root page '/', which has no name of its own
+const ROOT_PAGE_FILE = '%2F.md';
+
+export type ExportArchiveFormat = 'tar' | 'zip';
+
+export interface ExportedPage {
+  path: string;
+  // File relative to the export directory, with forward slashes
+  file: string;
+  pageId: string;
+  revisionId: string;
+  author: string;
+  updatedAt: string;
+  sha256: string;
+}
+
+export interface ExportManifest {
+  version: number;
+  exportedAt: string;
+  source: string;
+  path: string;
+  complete: boolean;
+  pages: ExportedPage[];
+}
+
+export interface ExportSummary {
+  path: string;
+  outDir: string;
+  pages: number;
+  total: number;
+  // False if maxPages was reached before every page was exported
+  complete: boolean;
+  // Files of a previous export into the same directory whose pages no longer exist
+  removed: number;
+  archive?: string;
+}
+
+/**
+ * Make a path segment safe as a file name on Windows, macOS and Linux
+ * Unsafe characters become %XX (always ASCII, and % itself is escaped), so decodePathSegment restores the segment.
+ */
+export function encodePathSegment(segment: string): string {
+  const escape = (char: string) => '%' + char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0');
+  let encoded = segment.replace(/[\x00-\x1f\x7f"*:<>?\\|%]/g, escape);
+  // 先頭のドット（隠しファイル、. と ..）と末尾のドット・空白（Windows で削られる）
+  encoded = encoded.replace(/^\./, escape).replace(/[. ]$/, escape);
+  // Windows の予約名（CON, NUL, COM1 など）
+  if (/^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i.test(encoded)) {
+    encoded = escape(encoded[0]) + encoded.slice(1);
+  }
+  return encoded;
+}
+
+export function decodePathSegment(encoded: string): string {
+  return encoded.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * File of a page, relative to the export directory (e.g. /team/a:b → team/a%3Ab.md)
+ */
+export function pageFilePath(pagePath: string): string {
+  const segments = normalizePagePath(pagePath).split('/').filter((segment) => segment !== '');
+  if (segments.length === 0) return ROOT_PAGE_FILE;
+  return segments.map(encodePathSegment).join('/') + '.md';
+}
+
+/**
+ * Page path of an exported file (the inverse of pageFilePath)
+ */
+export function pagePathOfFile(file: string): string {
+  if (file === ROOT_PAGE_FILE) return '/';
+  return '/' + file.replace(/\.md$/, '').split('/').map(decodePathSegment).join('/');
+}
+
+/**
+ * YAML front matter of a page; string values are double-quoted (JSON strings are valid YAML)
+ */
+export function frontMatter(page: GrowiPage): string {
+  const fields: [string, unknown][] = [
+    ['path', page.path],
+    ['pageId', page._id],
+    ['revisionId', page.revision?._id ?? ''],
+    ['author', lastEditor(page)],
+    ['creator', page.creator?.name ?? 'unknown'],
+    ['createdAt', page.createdAt],
+    ['updatedAt', page.updatedAt],
+    ...(page.tags && page.tags.length > 0 ? [['tags', page.tags] as [string, unknown]] : []),
+  ];
+  return ['---', ...fields.map(([key, value]) => `${key}: ${JSON.stringify(value ?? '')}`), '---', ''].join('\n');
+}
+
+export function pageMarkdown(page: GrowiPage): string {
+  const body = page.revision?.body ?? '';
+  return `${frontMatter(page)}\n${body}${body.endsWith('\n') || body === '' ? '' : '\n'}`;
+}
+
+function readManifest(outDir: string): ExportManifest | undefined {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(outDir, MANIFEST_FILE), 'utf8'));
+    return Array.isArray(manifest?.pages) ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a file of the manifest inside the export directory, refusing paths that leave it
+ */
+function resolveInside(outDir: string, file: string): string | undefined {
+  const resolved = path.resolve(outDir, file);
+  return resolved.startsWith(path.resolve(outDir) + path.sep) ? resolved : undefined;
+}
+
+/**
+ * Export the pages at or below a path into a directory, optionally bundled into an archive
+ * The directory must be new, empty or a previous export. A complete export removes the files of pages that
+ * are gone; a partial one (maxPages reached) keeps the files it did not rewrite.
+ * The archive is written next to the directory as <dir>.tar.gz or <dir>.zip.
+ */
+export async function exportSubtree(
+  client: GrowiClient,
+  options: { path: string; outDir: string; archive?: ExportArchiveFormat; maxPages?: number }
+): Promise<ExportSummary> {
+  const rootPath = normalizePagePath(options.path);
+  const outDir = path.resolve(options.outDir);
+
+  const previous = readManifest(outDir);
+  if (!previous && fs.existsSync(outDir) && fs.readdirSync(outDir).length > 0) {
+    throw new InvalidArgumentError(`${outDir} is not empty and holds no previous export; choose a new or empty directory`);
+  }
+
+  const { pages, total, complete } = await scanSubtree(client, rootPath, options.maxPages ?? 1000);
+  pages.sort((a, b) => a.path.localeCompare(b.path));
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const exported: ExportedPage[] = [];
+  const entries: ArchiveEntry[] = [];
+  for (const page of pages) {
+    const file = pageFilePath(page.path);
+    const data = Buffer.from(pageMarkdown(page), 'utf8');
+    const filePath = path.join(outDir, ...file.split('/'));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, data);
+
+    const updatedAt = page.updatedAt || page.revision?.createdAt || '';
+    exported.push({
+      path: page.path,
+      file,
+      pageId: page._id,
+      revisionId: page.revision?._id ?? '',
+      author: lastEditor(page),
+      updatedAt,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    });
+    entries.push({ name: file, data, mtime: updatedAt && !isNaN(Date.parse(updatedAt)) ? new Date(updatedAt) : undefined });
+  }
+
+  // 前回のエクスポートにあって今回ないページ（削除・移動済み）のファイルを消す
+  // max_pages で途中までしか書いていない場合は残りのページがあるかわからないので、消さずにマニフェストに残す
+  const written = exported.length;
+  let removed = 0;
+  if (previous) {
+    const current = new Set(exported.map((page) => page.file));
+    for (const previousPage of previous.pages) {
+      const { file } = previousPage;
+      const existing = typeof file === 'string' && !current.has(file) ? resolveInside(outDir, file) : undefined;
+      if (!existing || !fs.existsSync(existing)) continue;
+      if (complete) {
+        fs.rmSync(existing);
+        removed++;
+      } else {
+        exported.push(previousPage);
+        entries.push({ name: file, data: fs.readFileSync(existing) });
+      }
+    }
+    exported.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  const manifest: ExportManifest = {
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: client.baseURL,
+    path: rootPath,
+    complete,
+    pages: exported,
+  };
+  const manifestData = Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+  fs.writeFileSync(path.join(outDir, MANIFEST_FILE), manifestData);
+  logToStderr(`Exported ${written} of ${total} pages under ${rootPath} to ${outDir}`);
+
+  let archive: string | undefined;
+  if (options.archive) {
+    const name = path.basename(outDir);
+    const archiveEntries = [{ name: MANIFEST_FILE, data: manifestData }, ...entries]
+      .map((entry) => ({ ...entry, name: `${name}/${entry.name}` }));
+    archive = options.archive === 'zip' ? `${outDir}.zip` : `${outDir}.tar.gz`;
+    fs.writeFileSync(archive, options.archive === 'zip' ? createZip(archiveEntries) : createTarGz(archiveEntries));
+    logToStderr(`Wrote ${archive}`);
+  }
+
+  return {
+    path: rootPath,
+    outDir,
+    pages: written,
+    total,
+    complete,
+    removed,
+    ...(archive ? { archive } : {}),
+  };
+}
@@ -0,0 +1,224 @@
+import { jest } from '@jest/globals';
+import { GrowiClient } from './growi-client.js';
+
+const pageData = (revisionId: string, body: string) => ({
+  page: {
+    _id: 'page1',
+    path: '/runbook',
+    revision: { _id: revisionId, body, author: { _id: 'u2', name: 'alice' }, createdAt: '' },
+    creator: { _id: 'u1', name: 'bob' },
+    createdAt: '',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+  },
+});
+
+describe('GrowiClient page writes', () => {
+  let client: GrowiClient;
+  let request: jest.Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    client = new GrowiClient('http://growi.test', 'token');
+    request = jest.fn<(...args: any[]) => Promise<any>>();
+    (client as any).request = request;
+  });
+
+  it('refuses to update when the page moved past the base revision', async () => {
+    request.mockResolvedValueOnce(pageData('rev2', 'edited'));
+
+    const response = await client.updatePage('/runbook', 'mine', 'rev1');
+
+    expect(response.ok).toBe(false);
+    expect(response.conflict).toEqual(expect.objectContaining({ baseRevisionId: 'rev1', currentRevisionId: 'rev2', author: 'alice' }));
+    expect(response.error).toContain('Conflict');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a conflict when GROWI rejects the update with 409', async () => {
+    request
+      .mockResolvedValueOnce(pageData('rev1', 'old'))
+      .mockRejectedValueOnce(Object.assign(new Error('HTTP Error: 409'), { status: 409 }));
+
+    const response = await client.updatePage('/runbook', 'mine', 'rev1');
+
+    expect(response.ok).toBe(false);
+    expect(response.conflict).toBeDefined();
+  });
+
+  it('appends to the current body with the current revision', async () => {
+    request
+      .mockResolvedValueOnce(pageData('rev1', 'old'))
+      .mockResolvedValueOnce({ ...pageData('rev2', 'old\nnew'), revision: { _id: 'rev2', body: 'old\nnew' } });
+
+    const response = await client.appendToPage('/runbook', 'new');
+
+    expect(response.ok).toBe(true);
+    expect(request).toHaveBeenLastCalledWith('put', '/_api/v3/page', {}, { pageId: 'page1', revisionId: 'rev1', body: 'old\nnew' });
+    expect(response.revision._id).toBe('rev2');
+  });
+
+  it('renames a page with its descendants and a redirect', async () => {
+    request.mockResolvedValueOnce({ page: { ...pageData('rev1', '').page, path: '/archive/runbook' } });
+
+    const response = await client.renamePage(pageData('rev1', 'old').page, '/archive/runbook', { recursive: true, redirect: true });
+
+    expect(response.ok && response.page.path).toBe('/archive/runbook');
+    expect(request).toHaveBeenCalledWith('put', '/_api/v3/pages/rename', {}, expect.objectContaining({
+      pageId: 'page1', revisionId: 'rev1', path: '/runbook', newPagePath: '/archive/runbook',
+      isRecursively: true, isRenameRedirect: true,
+    }));
+  });
+});
+
+describe('GrowiClient attachments', () => {
+  it('refuses to download files above the size cap without a request', async () => {
+    const client = new GrowiClient('http://growi.test', 'token');
+    const binaryRequest = jest.fn();
+    (client as any).makeNativeBinaryRequest = binaryRequest;
+
+    const response = await client.downloadAttachment({
+      _id: 'a1',
+      pageId: 'page1',
+      originalName: 'dump.sql',
+      mimeType: 'application/sql',
+      size: 5000,
+      creator: { _id: '', name: '' },
+      createdAt: '',
+      downloadPath: '/attachment/a1',
+    }, 1000);
+
+    expect(response.ok).toBe(false);
+    expect(response.error).toContain('larger than the 1000 byte limit');
+    expect(binaryRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('GrowiClient transport', () => {
+  it('sends requests of a signal-scoped view with the signal and the token in the body', async () => {
+    const client = new GrowiClient('http://growi.test', 'token');
+    const send = jest.fn(async (_request: any) => ({ status: 200, headers: {}, body: Buffer.from(JSON.stringify(pageData('rev1', 'body'))) }));
+    (client as any).transport = { send };
+    const controller = new AbortController();
+
+    const response = await client.withSignal(controller.signal).getPage('/runbook');
+
+    expect(response.ok).toBe(true);
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'get',
+      url: 'http://growi.test/_api/v3/page?path=%2Frunbook',
+      payload: 'access_token=token',
+      signal: controller.signal,
+    }));
+  });
+});
+
+describe('GrowiClient pageExists', () => {
+  it('reads isExist from the response of /_api/v3/page/exist', async () => {
+    const client = new GrowiClient('http://growi.test', 'token');
+    const send = jest.fn(async (request: any) => ({
+      status: 200,
+      headers: {},
+      body: Buffer.from(JSON.stringify({ isExist: request.url.includes('%2Frunbook') })),
+    }));
+    (client as any).transport = { send };
+
+    expect(await client.pageExists('/runbook')).toEqual({ ok: true, exists: true });
+    expect(await client.pageExists('/missing')).toEqual({ ok: true, exists: false });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ url: 'http://growi.test/_api/v3/page/exist?path=%2Frunbook' }));
+  });
+});
+
+describe('GrowiClient errors', () => {
+  it('reports a missing page with a NOT_FOUND error code', async () => {
+    const client = new GrowiClient('http://growi.test', 'token');
+    (client as any).transport = {
+      send: jest.fn(async () => {
+        throw Object.assign(new Error('HTTP Error: 404'), {
+          status: 404,
+          body: '{"errors":[{"message":"Page is not found","code":"page-not-found"}]}',
+        });
+      }),
+    };
+
+    const response = await client.getPage('/missing');
+
+    expect(response.ok).toBe(false);
+    expect(response.errorInfo).toEqual({ code: 'NOT_FOUND', status: 404, growiCode: 'page-not-found' });
+  });
+
+  it('treats ok:false from the legacy API as an error', async () => {
+    const client = new GrowiClient('http://growi.test', 'token');
+    (client as any).transport = {
+      send: jest.fn(async () => ({ status: 200, headers: {}, body: Buffer.from('{"ok":false,"error":"Page is not found"}') })),
+    };
+
+    const response = await client.listComments('page1');
+
+    expect(response.ok).toBe(false);
+    expect(response.error).toBe('Page is not found');
+    expect(response.errorInfo?.code).toBe('API_ERROR');
+  });
+});
+
+describe('GrowiClient cache', () => {
+  let client: GrowiClient;
+  let request: jest.Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    client = new GrowiClient('http://growi.test', 'token', { cache: { ttlMs: { page: 0 } } });
+    request = jest.fn<(...args: any[]) => Promise<any>>();
+    (client as any).request = request;
+  });
+
+  it('revalidates a stale page with a one-item revision list', async () => {
+    request
+      .mockResolvedValueOnce(pageData('rev1', 'old'))
+      .mockResolvedValueOnce({ docs: [{ _id: 'rev1', createdAt: '2024-01-02T00:00:00.000Z' }] });
+
+    await client.getPage('/runbook');
+    const response = await client.getPage('/runbook');
+
+    expect(response.ok && response.page.revision.body).toBe('old');
+    expect(request).toHaveBeenLastCalledWith('get', '/_api/v3/revisions/list', { pageId: 'page1', limit: 1, page: 1 });
+    expect(client.cacheStats()).toMatchObject({ misses: 1, revalidated: 1 });
+  });
+
+  it('fetches the page again when a newer revision exists', async () => {
+    request
+      .mockResolvedValueOnce(pageData('rev1', 'old'))
+      .mockResolvedValueOnce({ docs: [{ _id: 'rev2' }] })
+      .mockResolvedValueOnce(pageData('rev2', 'new'));
+
+    await client.getPage('/runbook');
+    const response = await client.getPage('/runbook');
+
+    expect(response.ok && response.page.revision.body).toBe('new');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('serves fresh entries without a request and drops them after a write', async () => {
+    client = new GrowiClient('http://growi.test', 'token', { cache: {} });
+    (client as any).request = request;
+    request
+      .mockResolvedValueOnce({ pages: [{ _id: 'page1', path: '/runbook' }], totalCount: 1 })
+      .mockResolvedValueOnce(pageData('rev1', 'old'))
+      .mockResolvedValueOnce(pageData('rev2', 'old\nnew'))
+      .mockResolvedValueOnce({ pages: [], totalCount: 0 });
+
+    await client.listPages('/');
+    await client.listPages('/');
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await client.appendToPage('/runbook', 'new');
+    await client.listPages('/');
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('flushes the entries of a subtree', async () => {
+    request.mockResolvedValue(pageData('rev1', 'old'));
+
+    await client.getPage('/runbook');
+
+    expect(await client.flushCache('/runbook')).toBe(1);
+    expect(client.cacheStats()?.entries).toBe(0);
+  });
+});
@@ -1,25 +1,57 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
 import {
+  GrowiPage,
   GrowiPagesResponse,
   GrowiPageResponse,
   GrowiSearchResponse,
+  GrowiSearchHit,
+  GrowiSearchSort,
   GrowiPageExistResponse,
+  GrowiPageUpdateResponse,
+  GrowiPageMoveResponse,
+  GrowiPageDeleteResponse,
+  GrowiRevision,
+  GrowiRevisionsResponse,
+  GrowiRevisionResponse,
+  GrowiTagsResponse,
+  GrowiPageTagsResponse,
+  GrowiComment,
+  GrowiCommentsResponse,
+  GrowiCommentResponse,
+  GrowiAttachment,
+  GrowiAttachmentsResponse,
+  GrowiAttachmentDownloadResponse,
 } from './types/growi.js';
-import https from 'https';
-import http from 'http';
 import { URL } from 'url';
+import { createHash } from 'crypto';
+import { HttpTransport, TransportOptions } from './transport.js';
+import { CacheEntryMeta, CacheGroup, CacheOptions, CacheStats, ResponseCache } from './cache.js';
+import { CancelledError, GrowiError, InvalidResponseError, NotFoundError, TooLargeError, toGrowiError } from './errors.js';
 
 // Ensure console methods are redirected to stderr
 const logToStderr = (...args: any[]) => {
   console.error(...args);
 };
 
+export interface GrowiClientOptions extends TransportOptions {
+  // Cache GET responses (disabled when unset)
+  cache?: CacheOptions;
+}
+
+// Cached groups that list or search pages and are stale after any page write
+const PAGE_LISTING_GROUPS: CacheGroup[] = ['pages', 'recent', 'search', 'exist'];
+
 export class GrowiClient {
-  private client: AxiosInstance;
+  private transport: HttpTransport;
+  // Shared by the signal-scoped views of this client
+  private cache?: ResponseCache;
+  // Signal of the MCP request this client is scoped to (see withSignal)
+  private signal?: AbortSignal;
   readonly apiToken: string;
   readonly baseURL: string;
+  // File name for data stored per GROWI instance and token (persisted cache, local search index)
+  readonly storageId: string;
   
-  constructor(apiUrl: string, apiToken: string) {
+  constructor(apiUrl: string, apiToken: string, options: GrowiClientOptions = {}) {
     if (!apiUrl) throw new Error('GROWI API URL is required');
     if (!apiToken) throw new Error('GROWI API token is required');
     
@@ -27,39 +59,24 @@ export class GrowiClient {
     
     this.apiToken = apiToken;
     this.baseURL = apiUrl;
-    
-    // シンプルなHTTPクライアントとして初期化
-    this.client = axios.create({
-      baseURL: apiUrl,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // レスポンスのエラーログ用インターセプタ追加
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        this.logAxiosError(error);
-        throw error;
-      }
-    );
+    this.transport = new HttpTransport(options);
+    // 永続化ファイル名にはトークンそのものではなくハッシュを使う
+    this.storageId = createHash('sha256').update(`${apiUrl}\n${apiToken}`).digest('hex').substring(0, 16);
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache, this.storageId);
+    }
   }
 
-  // エラーログ用ヘルパーメソッド
-  private logAxiosError(error: AxiosError): void {
-    console.error('Axios Error:', error.message);
-    
-    if (error.response) {
-      console.error('Response Status:', error.response.status);
-      if (error.response.data) {
-        console.error('Response Data:', typeof error.response.data === 'object' 
-          ? JSON.stringify(error.response.data) 
-          : String(error.response.data));
-      }
-    } else if (error.request) {
-      console.error('No response received from server');
-    }
+  /**
+   * Return a view of this client whose requests are cancelled when the signal aborts
+   * プールされたクライアント自体は変更せず、トランスポートを共有する
+   * @param signal Abort signal of the MCP request
+   */
+  withSignal(signal?: AbortSignal): GrowiClient {
+    if (!signal) return this;
+    const scoped = Object.create(this) as GrowiClient;
+    scoped.signal = signal;
+    return scoped;
   }
 
   /**
@@ -79,110 +96,191 @@ export class GrowiClient {
     return url.toString();
   }
 
-  /**
-   * curlと同様のHTTPリクエストを実行する
-   */
-  private makeNativeCurlRequest<T>(url: string, method: string = 'GET'): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const parsedUrl = new URL(url);
-      
-      // トークンデータをx-www-form-urlencodedデータとして準備
-      const postData = `access_token=${encodeURIComponent(this.apiToken)}`;
-
-      // curlと同じリクエストオプションを使用
-      const options = {
-        hostname: parsedUrl.hostname,
-        port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-        path: `${parsedUrl.pathname}${parsedUrl.search}`,
-        method: method.toUpperCase(),
-        headers: {
-          'User-Agent': 'curl/8.7.1',
-          'Accept': '*/*',
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Content-Length': Buffer.byteLength(postData)
-        }
-      };
-
-      const safeToken = this.apiToken.substring(0, 5) + '...';
-      logToStderr(`Making native curl-like request to URL: ${parsedUrl.protocol}//${parsedUrl.hostname}${options.path}`);
-      logToStderr(`Sending access_token in request body: ${safeToken}`);
-      
-      const requestModule = parsedUrl.protocol === 'https:' ? https : http;
-      const req = requestModule.request(options, (res) => {
-        logToStderr(`Response status: ${res.statusCode}`);
-        
-        let data = '';
-        res.on('data', (chunk) => {
-          data += chunk.toString();
-        });
-        
-        res.on('end', () => {
-          logToStderr(`Response completed. Data length: ${data.length}`);
-          
-          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-            try {
-              const jsonData = JSON.parse(data);
-              if (jsonData.pages) {
-                logToStderr(`Got ${jsonData.pages.length} pages out of ${jsonData.totalCount} total`);
-              }
-              resolve(jsonData as T);
-            } catch (error) {
-              reject(new Error(`Failed to parse JSON response: ${error instanceof Error ? error.message : String(error)}`));
-            }
-          } else {
-            reject(new Error(`HTTP Error: ${res.statusCode} - ${data}`));
-          }
-        });
-      });
-      
-      req.on('error', (error) => {
-        logToStderr(`Native HTTP request failed: ${error.message}`);
-        reject(error);
-      });
-      
-      // Send the request with the access token in the body
-      req.write(postData);
-      req.end();
-    });
-  }
-
   /**
    * APIリクエストを実行するヘルパーメソッド
-   * 常にcurl互換のnativeリクエストを使用
+   * アクセストークンは常にリクエストボディで送信する（GETでも curl と同様にボディを付ける）
+   * body を渡した場合は access_token を含めた JSON として送信する
    */
   private async request<T>(
     method: string,
     endpoint: string,
-    params: Record<string, any> = {}
+    params: Record<string, any> = {},
+    body?: Record<string, any>
   ): Promise<T> {
     try {
-      // Build URL with query parameters and access_token
       const url = this.buildUrl(endpoint, params);
-      
-      // Use the curl-like native HTTP request 
-      return await this.makeNativeCurlRequest<T>(url, method);
+      const response = await this.transport.send({
+        method,
+        url,
+        payload: body
+          ? JSON.stringify({ ...body, access_token: this.apiToken })
+          : `access_token=${encodeURIComponent(this.apiToken)}`,
+        contentType: body ? 'application/json' : 'application/x-www-form-urlencoded',
+        signal: this.signal,
+      });
+
+      let data: any;
+      try {
+        data = JSON.parse(response.body.toString('utf8'));
+      } catch (error) {
+        throw new InvalidResponseError(
+          `Failed to parse JSON response: ${error instanceof Error ? error.message : String(error)}`,
+          { status: response.status, cause: error },
+        );
+      }
+
+      // 旧API (/_api/*.xxx) はエラーでも 200 で {"ok":false,"error":"..."} を返す
+      if (!endpoint.startsWith('/_api/v3/') && data?.ok === false) {
+        throw new GrowiError(String(data.error || 'GROWI reported an error'), {
+          status: response.status,
+          growiCode: typeof data.code === 'string' ? data.code : undefined,
+        });
+      }
+      return data as T;
     } catch (error: any) {
-      logToStderr(`Request failed for ${endpoint}: ${error.message}`);
-      throw error;
+      const growiError = toGrowiError(error);
+      logToStderr(`Request failed for ${endpoint}: [${growiError.code}] ${growiError.message}`);
+      throw growiError;
     }
   }
 
+  /**
+   * GETリクエストをキャッシュ経由で実行する
+   * TTL切れのエントリは revalidate が true を返せば再取得せずに使う
+   * @param group Endpoint group, which decides the TTL
+   * @param meta Page the response belongs to, for invalidation
+   * @param revalidate Cheap check whether a stale response is still current
+   */
+  private async cachedGet<T>(
+    group: CacheGroup,
+    endpoint: string,
+    params: Record<string, any>,
+    meta: (data: T) => CacheEntryMeta = () => ({}),
+    revalidate?: (stale: T) => Promise<boolean>
+  ): Promise<T> {
+    const cache = this.cache;
+    if (!cache) return this.request<T>('get', endpoint, params);
+
+    const key = ResponseCache.key(endpoint, params);
+    const cached = cache.lookup<T>(key);
+    if (cached?.fresh) {
+      cache.record('hit');
+      return cached.value;
+    }
+    if (cached && revalidate) {
+      try {
+        if (await revalidate(cached.value)) {
+          cache.revalidated(key);
+          return cached.value;
+        }
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        logToStderr(`Revalidation of ${endpoint} failed, fetching again: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    cache.record('miss');
+    const data = await this.request<T>('get', endpoint, params);
+    cache.set(key, group, data, meta(data));
+    return data;
+  }
+
+  /**
+   * Statistics of the response cache, or undefined when caching is disabled
+   */
+  cacheStats(): CacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  /**
+   * Drop cached responses
+   * @param path Only drop the entries of this page and the pages below it
+   * @returns Number of dropped entries
+   */
+  async flushCache(path?: string): Promise<number> {
+    if (!this.cache) return 0;
+    const removed = path ? this.cache.invalidateSubtree(path) : this.cache.clear();
+    await this.cache.save();
+    return removed;
+  }
+
+  /**
+   * Drop the cached responses a page write has made stale
+   */
+  private invalidatePage(page: CacheEntryMeta, groups: CacheGroup[] = PAGE_LISTING_GROUPS): void {
+    this.cache?.invalidate(page, groups);
+  }
+
+  /**
+   * Drop the cached responses of every page at or below a path, and the listings
+   */
+  private invalidateSubtree(path: string): void {
+    this.cache?.invalidateSubtree(path);
+    this.cache?.invalidate({}, PAGE_LISTING_GROUPS);
+  }
+
   /**
    * エラーレスポンスの整形
    */
   private formatErrorResponse<T>(error: any): T & { ok: false, error: string } {
-    const errorMessage = axios.isAxiosError(error)
-      ? error.response 
-        ? `API Error (${error.response.status}): ${JSON.stringify(error.response.data)}` 
-        : error.request 
-          ? `No response from server: ${error.message}` 
-          : `Request setup error: ${error.message}`
-      : `Error: ${error instanceof Error ? error.message : String(error)}`;
-          
+    const growiError = toGrowiError(error);
     return {
       ok: false,
-      error: errorMessage,
-    } as T & { ok: false, error: string };
+      error: growiError.message,
+      errorInfo: growiError.info,
+    } as unknown as T & { ok: false, error: string };
+  }
+
+  /**
+   * APIから返されたページオブジェクトを GrowiPage の形に整形
+   */
+  private normalizePage(page: any): GrowiPage {
+    return {
+      ...page,
+      _id: String(page?._id || ''),
+      path: String(page?.path || ''),
+      creator: {
+        _id: String(page?.creator?._id || ''),
+        name: String(page?.creator?.name || '')
+      },
+      revision: this.normalizeRevision(page?.revision),
+      createdAt: String(page?.createdAt || ''),
+      updatedAt: String(page?.updatedAt || ''),
+      tags: this.normalizeTags(page?.tags)
+    };
+  }
+
+  /**
+   * タグ名の配列に整形（タグはオブジェクトの場合と文字列の場合がある）
+   */
+  private normalizeTags(tags: any): string[] | undefined {
+    if (!Array.isArray(tags)) return undefined;
+    return tags
+      .map((tag: any) => String(typeof tag === 'object' && tag !== null ? tag.name ?? '' : tag))
+      .filter(Boolean);
+  }
+
+  /**
+   * APIから返されたリビジョンを GrowiRevision の形に整形
+   * author は展開済みオブジェクトの場合とIDのみの場合がある
+   */
+  private normalizeRevision(revision: any): GrowiRevision {
+    // 一覧系のAPIではリビジョンがIDのみで返る
+    if (typeof revision === 'string') {
+      return { _id: revision, body: '', author: { _id: '', name: '' }, createdAt: '' };
+    }
+    const author = revision?.author;
+    return {
+      _id: String(revision?._id || ''),
+      body: String(revision?.body || ''),
+      author: typeof author === 'object' && author !== null
+        ? {
+            _id: String(author._id || ''),
+            name: String(author.name || author.username || '')
+          }
+        : { _id: String(author || ''), name: '' },
+      createdAt: String(revision?.createdAt || '')
+    };
   }
 
   /**
@@ -193,37 +291,18 @@ export class GrowiClient {
    */
   async listPages(path: string = '/', limit: number = 100, page: number = 1): Promise<GrowiPagesResponse> {
     try {
-      const data = await this.request<any>('get', '/_api/v3/pages/list', {
+      const data = await this.cachedGet<any>('pages', '/_api/v3/pages/list', {
         path,
         limit,
         page,
-      });
+      }, () => ({ path }));
       
       // レスポンスデータを整形
       const pagesCount = data.pages?.length || 0;
       
       return {
         ok: true,
-        pages: Array.isArray(data.pages) ? data.pages.map((page: any) => ({
-          ...page,
-          _id: String(page._id),
-          path: String(page.path),
-          creator: {
-            _id: String(page.creator?._id || ''),
-            name: String(page.creator?.name || '')
-          },
-          revision: {
-            _id: String(page.revision?._id || ''),
-            body: String(page.revision?.body || ''),
-            author: {
-              _id: String(page.revision?.author?._id || ''),
-              name: String(page.revision?.author?.name || '')
-            },
-            createdAt: String(page.revision?.createdAt || '')
-          },
-          createdAt: String(page.createdAt || ''),
-          updatedAt: String(page.updatedAt || '')
-        })) : [],
+        pages: Array.isArray(data.pages) ? data.pages.map((page: any) => this.normalizePage(page)) : [],
         meta: {
           total: Number(data.totalCount || 0),
           limit: Number(limit),
@@ -242,33 +321,14 @@ export class GrowiClient {
    */
   async getRecentlyUpdatedPages(limit: number = 20, offset: number = 0): Promise<GrowiPagesResponse> {
     try {
-      const data = await this.request<any>('get', '/_api/v3/pages/recent', {
+      const data = await this.cachedGet<any>('recent', '/_api/v3/pages/recent', {
         limit,
         offset,
       });
 
       return {
         ok: true,
-        pages: Array.isArray(data.pages) ? data.pages.map((page: any) => ({
-          ...page,
-          _id: String(page._id),
-          path: String(page.path),
-          creator: {
-            _id: String(page.creator?._id || ''),
-            name: String(page.creator?.name || '')
-          },
-          revision: {
-            _id: String(page.revision?._id || ''),
-            body: String(page.revision?.body || ''),
-            author: {
-              _id: String(page.revision?.author?._id || ''),
-              name: String(page.revision?.author?.name || '')
-            },
-            createdAt: String(page.revision?.createdAt || '')
-          },
-          createdAt: String(page.createdAt || ''),
-          updatedAt: String(page.updatedAt || '')
-        })) : [],
+        pages: Array.isArray(data.pages) ? data.pages.map((page: any) => this.normalizePage(page)) : [],
         meta: {
           total: Number(data.totalCount || 0),
           limit: Number(limit),
@@ -285,63 +345,144 @@ export class GrowiClient {
    * @param path Page path
    */
   async getPage(path: string): Promise<GrowiPageResponse> {
+    return this.fetchPage({ path }, path, true);
+  }
+
+  /**
+   * Get a single page by its page id
+   * @param pageId Page id (GrowiPage._id)
+   */
+  async getPageById(pageId: string): Promise<GrowiPageResponse> {
+    return this.fetchPage({ pageId }, pageId, true);
+  }
+
+  /**
+   * /_api/v3/page からページを取得する
+   * 書き込み前の競合チェックではキャッシュを使わない (useCache = false)
+   */
+  private async fetchPage(params: { path?: string; pageId?: string }, label: string, useCache: boolean): Promise<GrowiPageResponse> {
     try {
-      const data = await this.request<any>('get', '/_api/v3/page', { path });
+      const data = useCache
+        ? await this.cachedGet<any>(
+            'page',
+            '/_api/v3/page',
+            params,
+            (data) => ({ path: data?.page?.path, pageId: data?.page?._id }),
+            (stale) => this.isPageCurrent(stale),
+          )
+        : await this.request<any>('get', '/_api/v3/page', params);
+      if (!data?.page) {
+        throw new NotFoundError(`Page not found: ${label}`, { status: 404 });
+      }
 
       return {
         ok: true,
-        page: {
-          ...data.page,
-          _id: String(data.page?._id || ''),
-          path: String(data.page?.path || ''),
-          creator: {
-            _id: String(data.page?.creator?._id || ''),
-            name: String(data.page?.creator?.name || '')
-          },
-          revision: {
-            _id: String(data.page?.revision?._id || ''),
-            body: String(data.page?.revision?.body || ''),
-            author: {
-              _id: String(data.page?.revision?.author?._id || ''),
-              name: String(data.page?.revision?.author?.name || '')
-            },
-            createdAt: String(data.page?.revision?.createdAt || '')
-          },
-          createdAt: String(data.page?.createdAt || ''),
-          updatedAt: String(data.page?.updatedAt || '')
-        }
+        page: this.normalizePage(data.page)
       };
     } catch (error: any) {
       return this.formatErrorResponse<GrowiPageResponse>(error);
     }
   }
 
+  /**
+   * Whether a cached page response still holds the latest revision
+   * Compares its revision id with the newest entry of a one-item revision list instead of
+   * fetching the page with its populated relations again.
+   */
+  private async isPageCurrent(stale: any): Promise<boolean> {
+    const pageId = stale?.page?._id;
+    const revisionId = stale?.page?.revision?._id ?? stale?.page?.revision;
+    if (!pageId || !revisionId) return false;
+
+    const data = await this.request<any>('get', '/_api/v3/revisions/list', { pageId, limit: 1, page: 1 });
+    const docs = Array.isArray(data.docs) ? data.docs : Array.isArray(data.revisions) ? data.revisions : [];
+    const latest = docs[0];
+    if (!latest?._id) return false;
+    if (String(latest._id) !== String(revisionId)) return false;
+    // リビジョンが同じでもページ自体の更新日時が新しい場合は取り直す
+    return !latest.createdAt || !stale.page.updatedAt || String(latest.createdAt) <= String(stale.page.updatedAt);
+  }
+
+  /**
+   * List the revisions of a page, newest first
+   * @param pageId Page id (GrowiPage._id)
+   * @param limit Number of revisions per page
+   * @param page Page number (1-based)
+   */
+  async listRevisions(pageId: string, limit: number = 20, page: number = 1): Promise<GrowiRevisionsResponse> {
+    try {
+      const data = await this.cachedGet<any>('revisions', '/_api/v3/revisions/list', {
+        pageId,
+        limit,
+        page,
+      }, () => ({ pageId }));
+
+      const docs = Array.isArray(data.docs) ? data.docs : Array.isArray(data.revisions) ? data.revisions : [];
+      return {
+        ok: true,
+        revisions: docs.map((revision: any) => this.normalizeRevision(revision)),
+        meta: {
+          total: Number(data.totalDocs ?? data.totalCount ?? docs.length),
+          limit: Number(limit),
+          page: Number(page),
+        },
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiRevisionsResponse>(error);
+    }
+  }
+
+  /**
+   * Get a single revision of a page
+   * @param pageId Page id (GrowiPage._id)
+   * @param revisionId Revision id
+   */
+  async getRevision(pageId: string, revisionId: string): Promise<GrowiRevisionResponse> {
+    try {
+      const data = await this.cachedGet<any>('revision', `/_api/v3/revisions/${encodeURIComponent(revisionId)}`, {
+        pageId,
+      });
+
+      return {
+        ok: true,
+        revision: this.normalizeRevision(data.revision),
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiRevisionResponse>(error);
+    }
+  }
+
   /**
    * Search pages by keyword
    * @param query Search query string
    * @param limit Number of results to return
    * @param offset Pagination offset
+   * @param options Optional path prefix scoping and sort order
    */
   async searchPages(
     query: string,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    options: { path?: string; sort?: GrowiSearchSort; order?: 'asc' | 'desc' } = {}
   ): Promise<GrowiSearchResponse> {
     try {
-      const data = await this.request<any>('get', '/_api/v3/search', {
-        q: query,
+      // GROWIの検索構文 `prefix:` でパス配下に絞り込む
+      const q = options.path && options.path !== '/'
+        ? `${query} prefix:${options.path}`
+        : query;
+
+      const data = await this.cachedGet<any>('search', '/_api/v3/search', {
+        q,
         limit,
         offset,
+        sort: options.sort,
+        order: options.order,
       });
 
       return {
         ok: true,
         data: Array.isArray(data.data)
-          ? data.data.map((p: any) => ({
-              ...p,
-              _id: String(p._id),
-              path: String(p.path),
-            }))
+          ? data.data.map((hit: any) => this.normalizeSearchHit(hit))
           : [],
         meta: {
           total: Number(data.meta?.total || 0),
@@ -354,22 +495,508 @@ export class GrowiClient {
     }
   }
 
+  /**
+   * 検索結果の1件を整形
+   * GROWIのバージョンによってページ本体が `data` の下にネストされ、
+   * ハイライト情報が `meta.elasticSearchResult` に入る形式にも対応する
+   */
+  private normalizeSearchHit(hit: any): GrowiSearchHit {
+    const isNested = hit?.data && typeof hit.data === 'object' && 'path' in hit.data;
+    const page = isNested ? hit.data : hit;
+    const meta = isNested ? hit.meta || {} : hit;
+    const esResult = meta.elasticSearchResult || {};
+
+    return {
+      ...this.normalizePage(page),
+      snippet: esResult.snippet ?? meta.snippet ?? undefined,
+      highlightedPath: esResult.highlightedPath ?? undefined,
+      tags: this.normalizeTags(meta.tags ?? page.tags),
+    };
+  }
+
+  /**
+   * List all tags with the number of pages using each
+   * @param limit Number of tags to return
+   * @param offset Pagination offset
+   */
+  async listTags(limit: number = 50, offset: number = 0): Promise<GrowiTagsResponse> {
+    try {
+      const data = await this.cachedGet<any>('tags', '/_api/tags.list', {
+        limit,
+        offset,
+      });
+
+      return {
+        ok: true,
+        tags: Array.isArray(data.data)
+          ? data.data.map((tag: any) => ({
+              name: String(tag.name || ''),
+              count: Number(tag.count || 0),
+            }))
+          : [],
+        meta: {
+          total: Number(data.totalCount || 0),
+          limit: Number(limit),
+          offset: Number(offset),
+        },
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiTagsResponse>(error);
+    }
+  }
+
+  /**
+   * Get the tags of a page
+   * @param pageId Page id (GrowiPage._id)
+   */
+  async getPageTags(pageId: string): Promise<GrowiPageTagsResponse> {
+    try {
+      const data = await this.cachedGet<any>('tags', '/_api/pages.getPageTag', { pageId }, () => ({ pageId }));
+
+      return {
+        ok: true,
+        tags: this.normalizeTags(data.tags) ?? [],
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageTagsResponse>(error);
+    }
+  }
+
+  /**
+   * Replace the tags of a page
+   * @param pageId Page id (GrowiPage._id)
+   * @param revisionId Current revision id of the page
+   * @param tags Complete list of tags the page should have
+   */
+  async updatePageTags(pageId: string, revisionId: string, tags: string[]): Promise<GrowiPageTagsResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/tags.update', {}, {
+        pageId,
+        revisionId,
+        tags,
+      });
+      this.invalidatePage({ pageId }, [...PAGE_LISTING_GROUPS, 'tags']);
+
+      return {
+        ok: true,
+        tags: this.normalizeTags(data.tags) ?? tags,
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageTagsResponse>(error);
+    }
+  }
+
+  /**
+   * Find pages with a given tag
+   * GROWIの検索構文 `tag:` を使用する
+   * @param tag Tag name
+   * @param limit Number of results to return
+   * @param offset Pagination offset
+   */
+  async findPagesByTag(tag: string, limit: number = 20, offset: number = 0): Promise<GrowiSearchResponse> {
+    const query = /\s/.test(tag) ? `tag:"${tag.replace(/"/g, '')}"` : `tag:${tag}`;
+    return this.searchPages(query, limit, offset);
+  }
+
+  /**
+   * APIから返されたコメントを GrowiComment の形に整形
+   */
+  private normalizeComment(comment: any): GrowiComment {
+    const creator = comment?.creator;
+    return {
+      _id: String(comment?._id || ''),
+      pageId: String(comment?.page?._id || comment?.page || ''),
+      revisionId: String(comment?.revision?._id || comment?.revision || ''),
+      author: typeof creator === 'object' && creator !== null
+        ? {
+            _id: String(creator._id || ''),
+            name: String(creator.name || creator.username || '')
+          }
+        : { _id: String(creator || ''), name: '' },
+      body: String(comment?.comment ?? ''),
+      replyTo: comment?.replyTo ? String(comment.replyTo?._id || comment.replyTo) : undefined,
+      createdAt: String(comment?.createdAt || ''),
+      updatedAt: String(comment?.updatedAt || comment?.createdAt || '')
+    };
+  }
+
+  /**
+   * Get all comments on a page, oldest first
+   * @param pageId Page id (GrowiPage._id)
+   */
+  async listComments(pageId: string): Promise<GrowiCommentsResponse> {
+    try {
+      const data = await this.cachedGet<any>('comments', '/_api/comments.get', { page_id: pageId }, () => ({ pageId }));
+
+      const comments = Array.isArray(data.comments)
+        ? data.comments.map((comment: any) => this.normalizeComment(comment))
+        : [];
+      comments.sort((a: GrowiComment, b: GrowiComment) => a.createdAt.localeCompare(b.createdAt));
+
+      return {
+        ok: true,
+        comments,
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiCommentsResponse>(error);
+    }
+  }
+
+  /**
+   * Post a comment, or a reply to an existing comment
+   * @param pageId Page id (GrowiPage._id)
+   * @param revisionId Current revision id of the page
+   * @param body Markdown body of the comment
+   * @param replyTo Id of the comment to reply to
+   */
+  async postComment(pageId: string, revisionId: string, body: string, replyTo?: string): Promise<GrowiCommentResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/comments.add', {}, {
+        commentForm: {
+          page_id: pageId,
+          revision_id: revisionId,
+          comment: body,
+          is_markdown: true,
+          ...(replyTo ? { replyTo } : {}),
+        },
+      });
+      this.invalidatePage({ pageId }, []);
+
+      return {
+        ok: true,
+        comment: this.normalizeComment(data.comment),
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiCommentResponse>(error);
+    }
+  }
+
+  /**
+   * APIから返された添付ファイルを GrowiAttachment の形に整形
+   */
+  private normalizeAttachment(attachment: any): GrowiAttachment {
+    const creator = attachment?.creator;
+    const id = String(attachment?._id || '');
+    return {
+      _id: id,
+      pageId: String(attachment?.page?._id || attachment?.page || ''),
+      originalName: String(attachment?.originalName || attachment?.fileName || ''),
+      mimeType: String(attachment?.fileFormat || 'application/octet-stream'),
+      size: Number(attachment?.fileSize || 0),
+      creator: typeof creator === 'object' && creator !== null
+        ? {
+            _id: String(creator._id || ''),
+            name: String(creator.name || creator.username || '')
+          }
+        : { _id: String(creator || ''), name: '' },
+      createdAt: String(attachment?.createdAt || ''),
+      downloadPath: String(attachment?.filePathProxied || `/attachment/${id}`)
+    };
+  }
+
+  /**
+   * List the attachments of a page
+   * @param pageId Page id (GrowiPage._id)
+   * @param limit Number of attachments per page
+   * @param page Page number (1-based)
+   */
+  async listAttachments(pageId: string, limit: number = 50, page: number = 1): Promise<GrowiAttachmentsResponse> {
+    try {
+      const data = await this.cachedGet<any>('attachments', '/_api/v3/attachment/list', {
+        pageId,
+        pageNumber: page,
+        limit,
+      }, () => ({ pageId }));
+
+      const result = data.paginateResult ?? data;
+      return {
+        ok: true,
+        attachments: Array.isArray(result.docs)
+          ? result.docs.map((attachment: any) => this.normalizeAttachment(attachment))
+          : [],
+        meta: {
+          total: Number(result.totalDocs || 0),
+          limit: Number(limit),
+          page: Number(page),
+        },
+      };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiAttachmentsResponse>(error);
+    }
+  }
+
+  /**
+   * Download the contents of an attachment
+   * @param attachment Attachment returned by listAttachments
+   * @param maxBytes Refuse files larger than this many bytes
+   */
+  async downloadAttachment(attachment: GrowiAttachment, maxBytes: number): Promise<GrowiAttachmentDownloadResponse> {
+    if (attachment.size > maxBytes) {
+      return {
+        ...this.formatErrorResponse<GrowiAttachmentDownloadResponse>(new TooLargeError(
+          `${attachment.originalName} is ${attachment.size} bytes, larger than the ${maxBytes} byte limit`,
+        )),
+        data: Buffer.alloc(0),
+        contentType: attachment.mimeType,
+      };
+    }
+
+    try {
+      const url = /^https?:\/\//.test(attachment.downloadPath)
+        ? attachment.downloadPath
+        : this.baseURL.replace(/\/+$/, '') + attachment.downloadPath;
+      const sameOrigin = new URL(url).origin === new URL(this.baseURL).origin;
+      const response = await this.transport.send({
+        method: 'GET',
+        url,
+        payload: sameOrigin ? `access_token=${encodeURIComponent(this.apiToken)}` : undefined,
+        signal: this.signal,
+        maxBytes,
+        // ストレージによっては署名付きURLへリダイレクトされる
+        maxRedirects: 3,
+      });
+      return {
+        ok: true,
+        data: response.body,
+        contentType: String(response.headers['content-type'] || '') || attachment.mimeType,
+      };
+    } catch (error: any) {
+      return {
+        ...this.formatErrorResponse<GrowiAttachmentDownloadResponse>(error),
+        data: Buffer.alloc(0),
+        contentType: attachment.mimeType,
+      };
+    }
+  }
+
   /**
    * Check if a page exists by path
    * @param path Page path
    */
   async pageExists(path: string): Promise<GrowiPageExistResponse> {
     try {
-      const data = await this.request<any>('get', '/_api/v3/page/exist', {
+      const data = await this.cachedGet<any>('exist', '/_api/v3/page/exist', {
         path,
-      });
+      }, () => ({ path }));
 
       return {
         ok: true,
-        exists: Boolean(data.ok),
+        exists: Boolean(data.isExist),
       };
     } catch (error: any) {
       return this.formatErrorResponse<GrowiPageExistResponse>(error);
     }
   }
+
+  /**
+   * Create a new page
+   * @param path Path of the new page
+   * @param body Markdown body of the new page
+   */
+  async createPage(path: string, body: string): Promise<GrowiPageUpdateResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/v3/page', {}, { path, body });
+      this.invalidatePage({ path });
+      return this.toUpdateResponse(data);
+    } catch (error: any) {
+      if (error?.status === 409) {
+        return {
+          ...this.formatErrorResponse<GrowiPageUpdateResponse>(error),
+          error: `Page already exists: ${path}`,
+        };
+      }
+      return this.formatErrorResponse<GrowiPageUpdateResponse>(error);
+    }
+  }
+
+  /**
+   * Replace the whole body of an existing page
+   * 現在のリビジョンが baseRevisionId と異なる場合は更新せずに conflict を返す
+   * @param path Page path
+   * @param body New markdown body
+   * @param baseRevisionId Revision id the new body was based on (GrowiPage.revision._id)
+   */
+  async updatePage(path: string, body: string, baseRevisionId: string): Promise<GrowiPageUpdateResponse> {
+    const current = await this.fetchPage({ path }, path, false);
+    if (!current.ok) {
+      return { ...current, revision: { _id: '', body: '' } };
+    }
+    return this.putRevision(current.page, body, baseRevisionId);
+  }
+
+  /**
+   * Append markdown to the end of an existing page
+   * @param path Page path
+   * @param text Markdown to append
+   * @param baseRevisionId Optional revision id to guard against concurrent edits
+   */
+  async appendToPage(path: string, text: string, baseRevisionId?: string): Promise<GrowiPageUpdateResponse> {
+    const current = await this.fetchPage({ path }, path, false);
+    if (!current.ok) {
+      return { ...current, revision: { _id: '', body: '' } };
+    }
+
+    const currentBody = current.page.revision.body;
+    const separator = currentBody === '' || currentBody.endsWith('\n') ? '' : '\n';
+    return this.putRevision(
+      current.page,
+      currentBody + separator + text,
+      baseRevisionId ?? current.page.revision._id,
+    );
+  }
+
+  /**
+   * Rename (move) a page
+   * @param page Current page (GrowiPage from getPage)
+   * @param newPath New path of the page
+   * @param options recursive: move the pages below it too; redirect: leave a redirect at the old path
+   */
+  async renamePage(
+    page: GrowiPage,
+    newPath: string,
+    options: { recursive?: boolean; redirect?: boolean } = {}
+  ): Promise<GrowiPageMoveResponse> {
+    try {
+      const data = await this.request<any>('put', '/_api/v3/pages/rename', {}, {
+        pageId: page._id,
+        revisionId: page.revision._id,
+        path: page.path,
+        newPagePath: newPath,
+        isRecursively: Boolean(options.recursive),
+        isRenameRedirect: Boolean(options.redirect),
+        updateMetadata: false,
+      });
+      return { ok: true, page: this.normalizePage(data.page) };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageMoveResponse>(error);
+    } finally {
+      // 移動したページのキャッシュは元のパスでも新しいパスでも古い
+      this.invalidateSubtree(page.path);
+      this.invalidateSubtree(newPath);
+    }
+  }
+
+  /**
+   * Duplicate a page to a new path
+   * @param page Page to copy (GrowiPage from getPage)
+   * @param newPath Path of the copy
+   * @param options recursive: copy the pages below it too
+   */
+  async duplicatePage(page: GrowiPage, newPath: string, options: { recursive?: boolean } = {}): Promise<GrowiPageMoveResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/v3/pages/duplicate', {}, {
+        pageId: page._id,
+        pageNameInput: newPath,
+        isRecursively: Boolean(options.recursive),
+      });
+      return { ok: true, page: this.normalizePage(data.page) };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageMoveResponse>(error);
+    } finally {
+      this.invalidateSubtree(newPath);
+    }
+  }
+
+  /**
+   * Move a page to the trash, or delete it completely
+   * @param page Page to delete (GrowiPage from getPage)
+   * @param options recursive: the pages below it too; completely: delete instead of moving to the trash
+   */
+  async deletePage(
+    page: GrowiPage,
+    options: { recursive?: boolean; completely?: boolean } = {}
+  ): Promise<GrowiPageDeleteResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/v3/pages/delete', {}, {
+        pageIdToRevisionIdMap: { [page._id]: page.revision._id },
+        isRecursively: Boolean(options.recursive),
+        isCompletely: Boolean(options.completely),
+      });
+      return { ok: true, paths: Array.isArray(data.paths) ? data.paths.map(String) : [page.path] };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageDeleteResponse>(error);
+    } finally {
+      this.invalidateSubtree(page.path);
+      if (!options.completely) this.invalidateSubtree('/trash' + page.path);
+    }
+  }
+
+  /**
+   * Restore a page from the trash to its original path
+   * @param page Page in the trash (its path starts with /trash)
+   * @param recursive Also restore the pages below it
+   */
+  async restorePage(page: GrowiPage, recursive: boolean = false): Promise<GrowiPageMoveResponse> {
+    try {
+      const data = await this.request<any>('post', '/_api/pages.revertRemove', {}, {
+        page_id: page._id,
+        recursively: recursive,
+      });
+      return { ok: true, page: this.normalizePage(data.page) };
+    } catch (error: any) {
+      return this.formatErrorResponse<GrowiPageMoveResponse>(error);
+    } finally {
+      this.invalidateSubtree(page.path);
+      this.invalidateSubtree(page.path.replace(/^\/trash(?=\/)/, ''));
+    }
+  }
+
+  /**
+   * 取得済みの現在ページに対して新しいリビジョンを送信する
+   */
+  private async putRevision(current: GrowiPage, body: string, baseRevisionId: string): Promise<GrowiPageUpdateResponse> {
+    if (current.revision._id !== baseRevisionId) {
+      this.invalidatePage({ path: current.path, pageId: current._id });
+      return this.conflictResponse(current, baseRevisionId);
+    }
+
+    try {
+      const data = await this.request<any>('put', '/_api/v3/page', {}, {
+        pageId: current._id,
+        revisionId: baseRevisionId,
+        body,
+      });
+      return this.toUpdateResponse(data);
+    } catch (error: any) {
+      // チェック後からPUTまでの間に他のユーザーが更新した場合
+      if (error?.status === 409) {
+        return this.conflictResponse(current, baseRevisionId);
+      }
+      return this.formatErrorResponse<GrowiPageUpdateResponse>(error);
+    } finally {
+      // 成功しても競合しても、キャッシュ済みのこのページは古い
+      this.invalidatePage({ path: current.path, pageId: current._id });
+    }
+  }
+
+  private conflictResponse(current: GrowiPage, baseRevisionId: string): GrowiPageUpdateResponse {
+    const editor = current.revision.author.name || 'another user';
+    return {
+      ok: false,
+      error: `Conflict: ${current.path} was edited by ${editor} at ${current.updatedAt || 'an unknown time'} `
+        + `(current revision ${current.revision._id || 'unknown'}, your base revision ${baseRevisionId}). `
+        + 'Fetch the page again and reapply your changes.',
+      errorInfo: { code: 'CONFLICT', status: 409 },
+      conflict: {
+        baseRevisionId,
+        currentRevisionId: current.revision._id,
+        updatedAt: current.updatedAt,
+        author: current.revision.author.name,
+      },
+      page: current,
+      revision: { _id: current.revision._id, body: current.revision.body },
+    };
+  }
+
+  private toUpdateResponse(data: any): GrowiPageUpdateResponse {
+    const page = this.normalizePage(data.page);
+    return {
+      ok: true,
+      page,
+      revision: {
+        _id: String(data.revision?._id || page.revision._id),
+        body: String(data.revision?.body ?? page.revision.body),
+      },
+    };
+  }
 }
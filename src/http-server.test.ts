@@ -0,0 +1,193 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AddressInfo } from 'net';
+import { HttpServerHandle, startHttpServer } from './http-server.js';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+function createTestServer(): Server {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    handle = await startHttpServer({ port: 0, host: '127.0.0.1', createServer: createTestServer });
+    const { port } = handle.httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('serves a health endpoint', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('keeps separate Streamable HTTP sessions', async () => {
+    const initialize = () => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    const first = await initialize();
+    const second = await initialize();
+    await first.text();
+    await second.text();
+
+    const firstId = first.headers.get('mcp-session-id');
+    const secondId = second.headers.get('mcp-session-id');
+    expect(firstId).toBeTruthy();
+    expect(secondId).toBeTruthy();
+    expect(firstId).not.toBe(secondId);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it('forgets a session once the client deletes it', async () => {
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id') as string;
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+
+    expect(response.status).toBe(200);
+    expect(handle.sessionCount()).toBe(0);
+  });
+
+  it('binds a session to the GROWI token it was opened with', async () => {
+    await handle.close();
+    const tokens: (string | undefined)[] = [];
+    handle = await startHttpServer({
+      port: 0,
+      host: '127.0.0.1',
+      createServer: (sessionToken) => {
+        tokens.push(sessionToken);
+        return createTestServer();
+      },
+    });
+    baseUrl = `http://127.0.0.1:${(handle.httpServer.address() as AddressInfo).port}`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'X-Growi-Api-Token': 'token-a' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id') as string;
+
+    const hijack = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId, 'X-Growi-Api-Token': 'token-b' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(tokens).toEqual(['token-a']);
+    expect(hijack.status).toBe(403);
+  });
+
+  it('passes the per-instance tokens to the session and binds it to them', async () => {
+    await handle.close();
+    const received: [string | undefined, Record<string, string> | undefined][] = [];
+    handle = await startHttpServer({
+      port: 0,
+      host: '127.0.0.1',
+      createServer: (sessionToken, instanceTokens) => {
+        received.push([sessionToken, instanceTokens]);
+        return createTestServer();
+      },
+    });
+    baseUrl = `http://127.0.0.1:${(handle.httpServer.address() as AddressInfo).port}`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'X-Growi-Api-Token': 'token-a', 'X-Growi-Api-Token-HR': 'hr-token' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id') as string;
+
+    const withoutInstanceToken = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId, 'X-Growi-Api-Token': 'token-a' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(received).toEqual([['token-a', { hr: 'hr-token' }]]);
+    expect(withoutInstanceToken.status).toBe(403);
+  });
+
+  it('closes Streamable HTTP sessions that stay idle', async () => {
+    await handle.close();
+    handle = await startHttpServer({ port: 0, host: '127.0.0.1', createServer: createTestServer, sessionIdleTimeoutMs: 50 });
+    baseUrl = `http://127.0.0.1:${(handle.httpServer.address() as AddressInfo).port}`;
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const init = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: JSON.stringify(initializeRequest) });
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id') as string;
+    expect(handle.sessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(handle.sessionCount()).toBe(0);
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects new sessions beyond the maximum', async () => {
+    await handle.close();
+    handle = await startHttpServer({ port: 0, host: '127.0.0.1', createServer: createTestServer, maxSessions: 1 });
+    baseUrl = `http://127.0.0.1:${(handle.httpServer.address() as AddressInfo).port}`;
+    const initialize = () => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    const first = await initialize();
+    await first.text();
+    const second = await initialize();
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(503);
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it('rejects requests for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,284 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { GrowiClientPool } from './client-pool.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+// Upper bound for JSON-RPC request bodies
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+export const DEFAULT_MAX_SESSIONS = 100;
+// 期限切れセッションを探す間隔の上限
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Header carrying the caller's own GROWI API token
+export const GROWI_TOKEN_HEADER = 'x-growi-api-token';
+// Prefix of the headers carrying the caller's token for one named instance (X-Growi-Api-Token-<instance>)
+export const GROWI_INSTANCE_TOKEN_HEADER_PREFIX = 'x-growi-api-token-';
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  // Called once per session; every session gets its own MCP Server instance.
+  // sessionToken is the GROWI token sent in the X-Growi-Api-Token header, if any, and instanceTokens
+  // the tokens sent in X-Growi-Api-Token-<instance> headers, keyed by lower-cased instance name.
+  // Throw an error with `status` set to reject the session (e.g. 401).
+  createServer: (sessionToken?: string, instanceTokens?: Record<string, string>) => Server;
+  // Streamable HTTP sessions without a request for this long are closed (default: 30 minutes)
+  sessionIdleTimeoutMs?: number;
+  // New sessions beyond this many open ones are rejected with 503 (default: 100)
+  maxSessions?: number;
+}
+
+export interface HttpServerHandle {
+  readonly httpServer: http.Server;
+  // Number of currently open MCP sessions (both transports)
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  // Hash of the tokens the session was opened with; later requests must present the same ones
+  tokenHash?: string;
+  // Time of the last request (Date.now())
+  lastActivity: number;
+}
+
+function getSessionToken(req: http.IncomingMessage): string | undefined {
+  const value = req.headers[GROWI_TOKEN_HEADER];
+  const token = Array.isArray(value) ? value[0] : value;
+  return token ? token.trim() || undefined : undefined;
+}
+
+/**
+ * インスタンスごとのトークン（ヘッダー名は小文字になるため、キーは小文字のインスタンス名）
+ */
+function getInstanceTokens(req: http.IncomingMessage): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (!name.startsWith(GROWI_INSTANCE_TOKEN_HEADER_PREFIX)) continue;
+    const token = (Array.isArray(value) ? value[0] : value)?.trim();
+    if (token) tokens[name.slice(GROWI_INSTANCE_TOKEN_HEADER_PREFIX.length)] = token;
+  }
+  return tokens;
+}
+
+function hashCredentials(req: http.IncomingMessage): string | undefined {
+  const token = getSessionToken(req);
+  const instanceTokens = Object.entries(getInstanceTokens(req)).sort(([a], [b]) => a.localeCompare(b));
+  if (!token && instanceTokens.length === 0) return undefined;
+  return GrowiClientPool.tokenHash(JSON.stringify([token ?? null, instanceTokens]));
+}
+
+/**
+ * セッションを開いたときと同じトークンかを確認する
+ */
+function assertSameCredentials(session: Session, req: http.IncomingMessage): void {
+  if (session.tokenHash !== hashCredentials(req)) {
+    throw Object.assign(new Error('GROWI token does not match the one this session was opened with'), { status: 403 });
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch (error) {
+        reject(Object.assign(new Error('Invalid JSON body'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Serve MCP over HTTP
+ *   /mcp               Streamable HTTP transport (POST/GET/DELETE, session via Mcp-Session-Id header)
+ *   /sse, /messages    Legacy HTTP+SSE transport for older clients
+ *   /health            Liveness endpoint
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logToStderr(`Failed to close session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // DELETE を送らずにいなくなったクライアントのセッションを閉じる
+  // SSE セッションは接続が切れた時点で閉じるので対象外
+  const closeIdleSessions = () => {
+    const expiry = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastActivity < expiry) {
+        logToStderr(`Streamable HTTP session expired: ${id}`);
+        void closeSession(id);
+      }
+    }
+  };
+
+  const assertSessionAvailable = () => {
+    if (sessions.size >= maxSessions) {
+      throw Object.assign(new Error(`Too many open sessions (${maxSessions}); try again later`), { status: 503 });
+    }
+  };
+
+  const handleStreamableHttp = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      assertSameCredentials(session, req);
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: missing Mcp-Session-Id header or initialize request');
+      return;
+    }
+
+    assertSessionAvailable();
+    const server = options.createServer(getSessionToken(req), getInstanceTokens(req));
+    const tokenHash = hashCredentials(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        logToStderr(`Streamable HTTP session initialized: ${id}`);
+        sessions.set(id, { transport, server, tokenHash, lastActivity: Date.now() });
+      },
+    });
+    // Server.connect() replaces transport.onclose, so hook the server's close instead
+    server.onclose = () => {
+      if (transport.sessionId) {
+        logToStderr(`Streamable HTTP session closed: ${transport.sessionId}`);
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    assertSessionAvailable();
+    const server = options.createServer(getSessionToken(req), getInstanceTokens(req));
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, server, tokenHash: hashCredentials(req), lastActivity: Date.now() });
+    logToStderr(`SSE session opened: ${transport.sessionId}`);
+
+    res.on('close', () => {
+      logToStderr(`SSE session closed: ${transport.sessionId}`);
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    assertSameCredentials(session, req);
+    session.lastActivity = Date.now();
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else if (url.pathname === '/mcp') {
+        await handleStreamableHttp(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not Found');
+      }
+    } catch (error: any) {
+      logToStderr(`HTTP request failed (${req.method} ${url.pathname}): ${error?.message ?? String(error)}`);
+      sendJsonRpcError(res, typeof error?.status === 'number' ? error.status : 500, error?.message ?? 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweepTimer = setInterval(closeIdleSessions, Math.min(idleTimeoutMs, SESSION_SWEEP_INTERVAL_MS));
+  sweepTimer.unref();
+
+  return {
+    httpServer,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweepTimer);
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id)));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // SSE/streaming接続が残っているとcloseが完了しないため強制的に切断する
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
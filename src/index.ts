@@ -1,20 +1,37 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
-import { z } from 'zod';
-import https from 'https';
-import http from 'http';
-import { URL } from 'url';
 import fs from 'fs';
 import path from 'path';
 
-import { GrowiClient } from './growi-client.js';
+import { GrowiClient, GrowiClientOptions } from './growi-client.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { startHttpServer } from './http-server.js';
+import { GrowiClientPool } from './client-pool.js';
+import {
+  GrowiInstanceClients,
+  GrowiInstancesConfig,
+  loadInstancesConfig,
+  sessionInstanceTokens,
+} from './instances.js';
+import { errorInfoOf, errorResult } from './errors.js';
+import { DEFAULT_CACHE_MAX_BYTES, parseCacheTtls } from './cache.js';
+import { exportSubtree } from './export.js';
 
-// Import tool schemas and implementations
-import { listPages, listPagesSchema } from './tools/list-pages.js';
-import { recentlyUpdatedPages, recentlyUpdatedPagesSchema } from './tools/recently-updated-pages.js';
-import { getPage, getPageSchema } from './tools/get-page.js';
+// Tool definitions
+import { tools } from './tools/index.js';
+import { ToolRegistry, ToolSettings } from './tools/registry.js';
+import { DEFAULT_ATTACHMENT_MAX_BYTES } from './tools/fetch-attachment.js';
 
 // ログファイルの設定
 const logDir = path.join(process.cwd(), 'logs');
@@ -57,348 +74,281 @@ logger.info(`MCP Server logs will be written to logs directory`);
 dotenv.config();
 
 // Initialize the Growi client
-const apiUrl = process.env.GROWI_API_URL;
-const apiToken = process.env.GROWI_API_TOKEN;
+// HTTPトランスポートで各セッションに自分のトークンを必須とする
+const requireSessionToken = process.env.GROWI_REQUIRE_SESSION_TOKEN === 'true';
 
-if (!apiUrl || !apiToken) {
-  logger.error('Error: GROWI_API_URL and GROWI_API_TOKEN must be set in your environment or .env file');
+let instancesConfig: GrowiInstancesConfig;
+try {
+  instancesConfig = loadInstancesConfig(process.env);
+} catch (error) {
+  logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
   process.exit(1);
 }
 
-const growiClient = new GrowiClient(apiUrl, apiToken);
-
-// Initialize the MCP server
-const server = new Server(
-  {
-    name: 'growi-mcp-server',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+// 各セッションがトークンを持ち込む場合、設定のトークンは使わない
+const missingToken = !requireSessionToken && instancesConfig.instances.find((instance) => !instance.token);
+if (missingToken) {
+  logger.error(`Error: no API token configured for GROWI instance "${missingToken.name}" (set GROWI_API_TOKEN or the instance token)`);
+  process.exit(1);
+}
+
+// 添付ファイルのダウンロードサイズ上限
+const attachmentMaxBytes = parseInt(process.env.GROWI_ATTACHMENT_MAX_BYTES || '', 10) || DEFAULT_ATTACHMENT_MAX_BYTES;
+
+// ページの完全削除（delete_page）は明示的に有効にした場合のみ許可する
+const allowHardDelete = process.env.GROWI_ALLOW_HARD_DELETE === 'true';
+
+// ローカル検索インデックスの保存先（未設定なら local_search は提供しない）
+const indexDir = process.env.GROWI_INDEX_DIR || undefined;
 
-// Helper function to convert Zod schema to JSON schema
-function zodToJsonSchema(schema: z.ZodType<any, any, any>) {
-  // Convert Zod schema to raw JSON Schema
-  const jsonSchema = schema.safeParse({});
-  const outputSchema: Record<string, any> = {
-    type: 'object',
-    properties: {},
-    required: [],
+// export_subtree の出力先（未設定なら export_subtree は提供しない）
+const exportDir = process.env.GROWI_EXPORT_DIR || undefined;
+
+// GROWI へのリクエストのタイムアウトとリトライ
+const clientOptions: GrowiClientOptions = {
+  timeoutMs: parseInt(process.env.GROWI_REQUEST_TIMEOUT_MS || '', 10) || undefined,
+  maxRetries: process.env.GROWI_MAX_RETRIES !== undefined && !isNaN(parseInt(process.env.GROWI_MAX_RETRIES, 10))
+    ? parseInt(process.env.GROWI_MAX_RETRIES, 10)
+    : undefined,
+};
+
+// レスポンスキャッシュ（GROWI_CACHE_MAX_BYTES=0 で無効）
+const cacheMaxBytes = process.env.GROWI_CACHE_MAX_BYTES !== undefined && !isNaN(parseInt(process.env.GROWI_CACHE_MAX_BYTES, 10))
+  ? parseInt(process.env.GROWI_CACHE_MAX_BYTES, 10)
+  : DEFAULT_CACHE_MAX_BYTES;
+if (cacheMaxBytes > 0) {
+  clientOptions.cache = {
+    maxBytes: cacheMaxBytes,
+    ttlMs: parseCacheTtls(process.env.GROWI_CACHE_TTLS),
+    dir: process.env.GROWI_CACHE_DIR || undefined,
   };
+  logger.info(`Response cache enabled (${cacheMaxBytes} bytes${clientOptions.cache.dir ? `, persisted in ${clientOptions.cache.dir}` : ''})`);
+}
+
+// 組み込みのプロンプトに追加するプロンプト定義（*.json）のディレクトリ
+const promptsDir = process.env.GROWI_PROMPTS_DIR || undefined;
 
-  // For each property in the schema
-  Object.entries(schema._def.shape()).forEach(([key, value]: [string, any]) => {
-    const isOptional = value._def.typeName === 'ZodOptional';
-    const valueSchema = isOptional ? value._def.innerType : value;
-    const description = valueSchema._def.description;
-    
-    let type: string;
-    switch (valueSchema._def.typeName) {
-      case 'ZodString':
-        type = 'string';
-        break;
-      case 'ZodNumber':
-        type = 'number';
-        break;
-      case 'ZodBoolean':
-        type = 'boolean';
-        break;
-      default:
-        type = 'string';
+// ツールの一覧と呼び出しはこの登録内容から生成する
+const toolRegistry = new ToolRegistry(tools);
+const toolSettings: ToolSettings = { attachmentMaxBytes, allowHardDelete, indexDir, exportDir };
+
+const clientPool = new GrowiClientPool(
+  parseInt(process.env.GROWI_CLIENT_POOL_SIZE || '50', 10) || 50,
+  clientOptions,
+);
+
+/**
+ * セッションで使う各インスタンスのGrowiClientを取得
+ * GROWI_REQUIRE_SESSION_TOKEN=true の場合、セッションがトークンを持たないインスタンスは使えない
+ * @param sessionToken Token supplied by the session for the default instance (X-Growi-Api-Token header)
+ * @param instanceTokens Tokens supplied per instance (X-Growi-Api-Token-<instance> headers)
+ */
+function clientsForSession(sessionToken?: string, instanceTokens?: Record<string, string>): GrowiInstanceClients {
+  const tokens = sessionInstanceTokens(instancesConfig, { token: sessionToken, instanceTokens }, requireSessionToken);
+  const clients = new Map<string, GrowiClient>();
+  for (const instance of instancesConfig.instances) {
+    const token = tokens.get(instance.name);
+    if (token) clients.set(instance.name, clientPool.get(instance.url, token));
+  }
+  return new GrowiInstanceClients(clients, instancesConfig.defaultInstance);
+}
+
+/**
+ * Create an MCP server with all GROWI handlers registered
+ * Each transport session needs its own Server instance
+ * @param clients GROWI clients of every instance available to this session
+ */
+function createServer(clients: GrowiInstanceClients): Server {
+  // Initialize the MCP server
+  const server = new Server(
+    {
+      name: 'growi-mcp-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
     }
-    
-    outputSchema.properties[key] = {
-      type,
-      description: description || `The ${key} parameter`,
-    };
-    
-    if (!isOptional) {
-      outputSchema.required.push(key);
+  );
+
+  // Register tools - this is for the MCP 'tools/list' method
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    try {
+      logger.info('Handling tools/list request');
+      const tools = toolRegistry.list(clients, toolSettings);
+      logger.info(`Listing ${tools.length} tools`);
+      return { tools };
+    } catch (error) {
+      logger.error('Error handling tools/list request:', error);
+      throw error;
     }
   });
-  
-  return outputSchema;
+
+  // Tool call handler - this is for the MCP 'tools/call' method
+  server.setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
+    try {
+      const { name, arguments: args } = request.params;
+      logger.info(`Handling tools/call request for tool: ${name}`);
+      logger.info(`Tool arguments:`, JSON.stringify(args, null, 2));
+      logger.info(`Request details:`, JSON.stringify({
+        id: request.id,
+        jsonrpc: request.jsonrpc,
+        method: request.method,
+        params: {
+          name: request.params.name,
+          arguments: request.params.arguments
+        }
+      }, null, 2));
+
+      // クライアントが中断したリクエストでは GROWI への通信も打ち切る
+      const result = await toolRegistry.call(name, args, clients.withSignal(extra?.signal), toolSettings);
+      if (result.isError) {
+        logger.error(`Tool '${name}' returned an error: ${result.content[0]?.text}`);
+      } else {
+        logger.info(`Tool execution completed successfully for '${name}'`);
+        logger.info(`Response summary:`, JSON.stringify({
+          contentTypes: result.content.map((item) => item.type),
+          hasContent: !!result.content.length
+        }, null, 2));
+      }
+      return result;
+    } catch (error) {
+      logger.error('Error handling tools/call request:', error);
+      logger.error('Stack trace:', error instanceof Error ? error.stack : 'No stack trace available');
+      return errorResult(`Error executing tool: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+    }
+  });
+
+  // Resource handlers - GROWI pages exposed as growi://page/<path> and growi://page-id/<id>
+  server.setRequestHandler(ListResourcesRequestSchema, async (request: any, extra: any) => {
+    logger.info('Handling resources/list request', request.params?.cursor ?? '');
+    return listResources(clients.withSignal(extra?.signal).resolve(), request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.info('Handling resources/templates/list request');
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request: any, extra: any) => {
+    logger.info(`Handling resources/read request for: ${request.params.uri}`);
+    try {
+      return await readResource(clients.withSignal(extra?.signal).resolve(), request.params.uri);
+    } catch (error) {
+      logger.error('Error handling resources/read request:', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  });
+
+  // Prompt handlers - wiki-aware prompt templates that pull in page content
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.info('Handling prompts/list request');
+    return listPrompts(promptsDir);
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request: any, extra: any) => {
+    logger.info(`Handling prompts/get request for: ${request.params.name}`);
+    try {
+      return await getPrompt(clients.withSignal(extra?.signal).resolve(), request.params.name, request.params.arguments, promptsDir);
+    } catch (error) {
+      logger.error('Error handling prompts/get request:', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  });
+
+  return server;
 }
 
 /**
- * 直接curlのようなHTTPリクエストを実行する関数
- * @param path ページのパス
- * @param limit 一度に取得するページ数
- * @param page ページ番号
+ * コマンドライン引数 `--name value` / `--name=value` を取得
  */
-async function directGrowiRequest(path: string = '/', limit: number = 5, page: number = 1) {
-  return new Promise<any>((resolve, reject) => {
-    // URLの構築
-    if (!apiUrl || !apiToken) {
-      reject(new Error('Missing API URL or token'));
-      return;
-    }
-    
-    const url = new URL(`${apiUrl}/_api/v3/pages/list`);
-    url.searchParams.append('path', path);
-    url.searchParams.append('limit', String(limit));
-    url.searchParams.append('page', String(page));
-    
-    // アクセストークンはリクエストボディで送信
-    const urlString = url.toString();
-    const postData = `access_token=${encodeURIComponent(apiToken)}`;
-    
-    const parsedUrl = new URL(urlString);
-    
-    // curlと同じリクエストオプション
-    const options = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-      path: `${parsedUrl.pathname}${parsedUrl.search}`,
-      method: 'GET',
-      headers: {
-        'User-Agent': 'curl/8.7.1',
-        'Accept': '*/*',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Content-Length': Buffer.byteLength(postData)
-      }
-    };
-    
-    // トークンを隠した形でログ出力
-    const safeToken = apiToken.substring(0, 5) + '...';
-    logger.info(`Direct curl request: ${parsedUrl.protocol}//${parsedUrl.hostname}${options.path}`);
-    logger.info(`Sending access_token in request body: ${safeToken}`);
-    
-    // HTTPリクエスト実行
-    const protocol = parsedUrl.protocol === 'https:' ? https : http;
-    const req = protocol.request(options, (res) => {
-      logger.info(`Response status: ${res.statusCode}`);
-      
-      let data = '';
-      res.on('data', (chunk) => {
-        data += chunk.toString();
-      });
-      
-      res.on('end', () => {
-        logger.info(`Response completed. Data length: ${data.length}`);
-        
-        if (res.statusCode === 200) {
-          try {
-            const jsonData = JSON.parse(data);
-            logger.info(`Got ${jsonData.pages?.length || 0} pages out of ${jsonData.totalCount} total`);
-            
-            // 結果をMCPツール用に整形
-            const pagesCount = jsonData.pages?.length || 0;
-            const totalCount = jsonData.totalCount || 0;
-            const startIndex = (page - 1) * limit + 1;
-            const endIndex = Math.min(startIndex + pagesCount - 1, totalCount);
-            
-            let resultText = '';
-            if (pagesCount === 0) {
-              resultText = `No pages found under path: ${path}`;
-            } else {
-              resultText = `Found ${pagesCount} pages under path: ${path}\n\n`;
-              jsonData.pages.forEach((page: any, index: number) => {
-                resultText += `- ${page.path}\n`;
-              });
-              
-              resultText += `\nShowing ${startIndex}-${endIndex} of ${totalCount} total pages`;
-            }
-            
-            resolve({
-              content: [
-                {
-                  type: 'text',
-                  text: resultText,
-                },
-              ],
-            });
-          } catch (error) {
-            logger.error('Failed to parse JSON response:', error instanceof Error ? error.message : String(error));
-            reject(error);
-          }
-        } else {
-          logger.error(`HTTP Error: ${res.statusCode} - ${data}`);
-          resolve({
-            content: [
-              {
-                type: 'text',
-                text: `Error listing pages (path: ${path}, offset: ${(page-1) * limit}): HTTP Error (${res.statusCode}) - ${data}`,
-              },
-            ],
-          });
-        }
-      });
-    });
-    
-    req.on('error', (error) => {
-      logger.error(`Request error: ${error.message}`);
-      reject(error);
-    });
-    
-    // Send the request with the access token in the body
-    req.write(postData);
-    req.end();
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1 && index + 1 < args.length) {
+    return args[index + 1];
+  }
+  const inline = args.find((arg) => arg.startsWith(`--${name}=`));
+  return inline ? inline.substring(name.length + 3) : undefined;
+}
+
+/**
+ * `export` サブコマンド: サーバーを起動せずにページのサブツリーをエクスポートする
+ * export --path <page path> --out <directory> [--archive tar|zip] [--max-pages N] [--instance name]
+ */
+async function runExportCommand() {
+  const pagePath = getCliOption('path');
+  const outDir = getCliOption('out');
+  const archive = getCliOption('archive');
+  if (!pagePath || !outDir) {
+    throw new Error('Usage: export --path <page path> --out <directory> [--archive tar|zip] [--max-pages N] [--instance name]');
+  }
+  if (archive !== undefined && archive !== 'tar' && archive !== 'zip') {
+    throw new Error(`Unknown archive format: ${archive} (expected tar or zip)`);
+  }
+
+  const client = clientsForSession().resolve(getCliOption('instance'));
+  const summary = await exportSubtree(client, {
+    path: pagePath,
+    outDir,
+    archive,
+    maxPages: parseInt(getCliOption('max-pages') || '', 10) || undefined,
   });
+  console.log(JSON.stringify(summary, null, 2));
 }
 
-// Register tools - this is for the MCP 'tools/list' method
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  try {
-    logger.info('Handling tools/list request');
-    return {
-      tools: [
-        {
-          name: 'mcp_growi_growi_list_pages',
-          description: 'List GROWI pages under a specific path',
-          inputSchema: zodToJsonSchema(listPagesSchema),
-        },
-        {
-          name: 'mcp_growi_growi_recently_updated_pages',
-          description: 'Get recently updated GROWI pages',
-          inputSchema: zodToJsonSchema(recentlyUpdatedPagesSchema),
-        },
-        {
-          name: 'mcp_growi_growi_get_page',
-          description: 'Get the contents of a single GROWI page',
-          inputSchema: zodToJsonSchema(getPageSchema),
-        },
-      ],
-    };
-  } catch (error) {
-    logger.error('Error handling tools/list request:', error);
-    throw error;
+// Start the server
+async function main() {
+  if (process.argv[2] === 'export') {
+    try {
+      await runExportCommand();
+    } catch (error) {
+      console.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    return;
   }
-});
 
-// Tool call handler - this is for the MCP 'tools/call' method
-server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+  const transportType = getCliOption('transport') || process.env.MCP_TRANSPORT || 'stdio';
+
   try {
-    const { name, arguments: args } = request.params;
-    logger.info(`Handling tools/call request for tool: ${name}`);
-    logger.info(`Tool arguments:`, JSON.stringify(args, null, 2));
-    logger.info(`Request details:`, JSON.stringify({
-      id: request.id,
-      jsonrpc: request.jsonrpc,
-      method: request.method,
-      params: {
-        name: request.params.name,
-        arguments: request.params.arguments
+    if (transportType === 'http') {
+      const port = parseInt(getCliOption('port') || process.env.MCP_PORT || '3000', 10);
+      const host = getCliOption('host') || process.env.MCP_HOST || '0.0.0.0';
+      if (isNaN(port)) {
+        throw new Error('Invalid port for HTTP transport');
       }
-    }, null, 2));
-
-    let result;
-    switch (name) {
-      case 'mcp_growi_growi_list_pages':
-        // 直接HTTP実装を使用
-        try {
-          logger.info(`Executing tool '${name}' with args:`, JSON.stringify(args, null, 2));
-          const path = args.path || '/';
-          const limit = parseInt(args.limit || '5', 10);
-          const page = parseInt(args.page || '1', 10);
-          
-          logger.info(`Preparing to call GROWI API with: path=${path}, limit=${limit}, page=${page}`);
-          // curlのような直接HTTPリクエストで結果を返す
-          result = await directGrowiRequest(path, limit, page);
-          logger.info(`Tool execution completed successfully for '${name}'`);
-          logger.info(`Response summary:`, JSON.stringify({
-            contentLength: result.content?.[0]?.text?.length || 0,
-            hasContent: !!result.content?.length
-          }, null, 2));
-          return result;
-        } catch (directError) {
-          logger.error(`Direct HTTP request failed: ${directError instanceof Error ? directError.message : String(directError)}`);
-          logger.error(`Falling back to GrowiClient implementation`);
-          
-          // エラーが発生した場合は元の実装にフォールバック
-          result = await listPages(growiClient, args as any);
-          logger.info(`Fallback execution completed for '${name}'`);
-          logger.info(`Fallback response summary:`, JSON.stringify({
-            contentLength: result.content?.[0]?.text?.length || 0,
-            hasContent: !!result.content?.length
-          }, null, 2));
-          return result;
-        }
 
-      case 'mcp_growi_growi_recently_updated_pages':
-        try {
-          logger.info(`Executing tool '${name}' with args:`, JSON.stringify(args, null, 2));
-          const limit = parseInt(args.limit || '20', 10);
-          const offset = parseInt(args.offset || '0', 10);
-
-          logger.info(`Preparing to call GROWI API with: limit=${limit}, offset=${offset}`);
-          result = await recentlyUpdatedPages(growiClient, { limit, offset });
-          logger.info(`Tool execution completed successfully for '${name}'`);
-          logger.info(`Response summary:`, JSON.stringify({
-            contentLength: result.content?.[0]?.text?.length || 0,
-            hasContent: !!result.content?.length
-          }, null, 2));
-          return result;
-        } catch (error) {
-          logger.error(`Error executing '${name}': ${error instanceof Error ? error.message : String(error)}`);
-          return {
-            isError: true,
-            content: [
-              { type: 'text', text: `Error executing tool: ${error instanceof Error ? error.message : String(error)}` }
-            ]
-          };
-        }
+      const handle = await startHttpServer({
+        port,
+        host,
+        createServer: (sessionToken, instanceTokens) => createServer(clientsForSession(sessionToken, instanceTokens)),
+        sessionIdleTimeoutMs: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS || '', 10) || undefined,
+        maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '', 10) || undefined,
+      });
+      logger.info(`GROWI MCP server is listening on http://${host}:${port} (Streamable HTTP: /mcp, SSE: /sse)`);
 
-      case 'mcp_growi_growi_get_page':
-        try {
-          logger.info(`Executing tool '${name}' with args:`, JSON.stringify(args, null, 2));
-          const path = typeof args.path === 'string' ? args.path : String(args.path || '');
-
-          logger.info(`Preparing to call GROWI API with: path=${path}`);
-          result = await getPage(growiClient, { path });
-          logger.info(`Tool execution completed successfully for '${name}'`);
-          logger.info(`Response summary:`, JSON.stringify({
-            contentLength: result.content?.[0]?.text?.length || 0,
-            hasContent: !!result.content?.length
-          }, null, 2));
-          return result;
-        } catch (error) {
-          logger.error(`Error executing '${name}': ${error instanceof Error ? error.message : String(error)}`);
-          return {
-            isError: true,
-            content: [
-              { type: 'text', text: `Error executing tool: ${error instanceof Error ? error.message : String(error)}` }
-            ]
-          };
-        }
+      const shutdown = async (signal: string) => {
+        logger.info(`Received ${signal}, shutting down HTTP server`);
+        await handle.close();
+        logger.info('HTTP server closed');
+        process.exit(0);
+      };
+      process.once('SIGINT', () => void shutdown('SIGINT'));
+      process.once('SIGTERM', () => void shutdown('SIGTERM'));
+      return;
+    }
 
-      default:
-        logger.error(`Unknown tool requested: ${name}`);
-        return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: `Unknown tool: ${name}`,
-            },
-          ],
-        };
+    if (transportType !== 'stdio') {
+      throw new Error(`Unknown transport: ${transportType} (expected stdio or http)`);
     }
-  } catch (error) {
-    logger.error('Error handling tools/call request:', error);
-    logger.error('Stack trace:', error instanceof Error ? error.stack : 'No stack trace available');
-    return {
-      isError: true,
-      content: [
-        {
-          type: 'text',
-          text: `Error executing tool: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-    };
-  }
-});
 
-// Start the server
-async function main() {
-  try {
     const transport = new StdioServerTransport();
     logger.info('Connecting to transport...');
-    await server.connect(transport);
+    await createServer(clientsForSession()).connect(transport);
     logger.info('GROWI MCP server is running');
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -406,4 +356,4 @@ async function main() {
   }
 }
 
-main(); 
\ No newline at end of file
+main();
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { GrowiClient } from './growi-client.js';
+import { GrowiInstanceClients, loadInstancesConfig, sessionInstanceTokens } from './instances.js';
+
+describe('loadInstancesConfig', () => {
+  it('falls back to a single default instance from GROWI_API_URL', () => {
+    const config = loadInstancesConfig({ GROWI_API_URL: 'http://growi.test', GROWI_API_TOKEN: 'token' });
+
+    expect(config).toEqual({
+      instances: [{ name: 'default', url: 'http://growi.test', token: 'token' }],
+      defaultInstance: 'default',
+    });
+  });
+
+  it('reads named instances and resolves tokenEnv', () => {
+    const config = loadInstancesConfig({
+      GROWI_INSTANCES: JSON.stringify({
+        default: 'sales',
+        instances: [
+          { name: 'engineering', url: 'http://eng.test', token: 'eng-token' },
+          { name: 'sales', url: 'http://sales.test', tokenEnv: 'SALES_TOKEN' },
+        ],
+      }),
+      SALES_TOKEN: 'sales-token',
+    });
+
+    expect(config.defaultInstance).toBe('sales');
+    expect(config.instances[1]).toEqual(expect.objectContaining({ name: 'sales', token: 'sales-token' }));
+  });
+
+  it('rejects duplicate names and unknown defaults', () => {
+    const duplicate = JSON.stringify([
+      { name: 'hr', url: 'http://hr.test', token: 'a' },
+      { name: 'hr', url: 'http://hr2.test', token: 'b' },
+    ]);
+    const unknownDefault = JSON.stringify({ default: 'nope', instances: [{ name: 'hr', url: 'http://hr.test', token: 'a' }] });
+
+    expect(() => loadInstancesConfig({ GROWI_INSTANCES: duplicate })).toThrow('duplicate instance name');
+    expect(() => loadInstancesConfig({ GROWI_INSTANCES: unknownDefault })).toThrow('default instance "nope"');
+  });
+});
+
+describe('GrowiInstanceClients', () => {
+  it('resolves the default instance and rejects unknown names', () => {
+    const eng = new GrowiClient('http://eng.test', 'a');
+    const hr = new GrowiClient('http://hr.test', 'b');
+    const clients = new GrowiInstanceClients(new Map([['engineering', eng], ['hr', hr]]), 'engineering');
+
+    expect(clients.resolve()).toBe(eng);
+    expect(clients.resolve('hr')).toBe(hr);
+    expect(() => clients.resolve('sales')).toThrow('Unknown GROWI instance: sales (available: engineering, hr)');
+  });
+});
+
+describe('sessionInstanceTokens', () => {
+  const config = {
+    instances: [
+      { name: 'engineering', url: 'http://eng.test', token: 'eng-token' },
+      { name: 'HR', url: 'http://hr.test', token: 'hr-token' },
+    ],
+    defaultInstance: 'engineering',
+  };
+
+  it('prefers the tokens of the session over the configured ones', () => {
+    expect(sessionInstanceTokens(config, { token: 'mine' }, false))
+      .toEqual(new Map([['engineering', 'mine'], ['HR', 'hr-token']]));
+    expect(sessionInstanceTokens(config, { instanceTokens: { hr: 'my-hr' } }, false))
+      .toEqual(new Map([['engineering', 'eng-token'], ['HR', 'my-hr']]));
+  });
+
+  it('leaves out the instances a session has no token for when sessions must bring their own', () => {
+    expect(sessionInstanceTokens(config, { token: 'mine' }, true)).toEqual(new Map([['engineering', 'mine']]));
+    expect(sessionInstanceTokens(config, { token: 'mine', instanceTokens: { hr: 'my-hr' } }, true))
+      .toEqual(new Map([['engineering', 'mine'], ['HR', 'my-hr']]));
+    expect(() => sessionInstanceTokens(config, { instanceTokens: { hr: 'my-hr' } }, true))
+      .toThrow('A GROWI API token is required');
+  });
+});
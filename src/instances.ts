@@ -0,0 +1,179 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { GrowiClient } from './growi-client.js';
+import { InvalidArgumentError } from './errors.js';
+
+// One GROWI wiki served by this server
+export interface GrowiInstanceConfig {
+  name: string;
+  url: string;
+  // Missing only when every session has to bring its own token
+  token?: string;
+  description?: string;
+}
+
+export interface GrowiInstancesConfig {
+  instances: GrowiInstanceConfig[];
+  defaultInstance: string;
+}
+
+const instanceSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Instance names may only contain letters, digits, "_" and "-"'),
+  url: z.string().url(),
+  token: z.string().optional(),
+  // トークンを設定ファイルに直接書かずに環境変数から読む
+  tokenEnv: z.string().optional(),
+  description: z.string().optional(),
+});
+
+const configFileSchema = z.union([
+  z.array(instanceSchema),
+  z.object({
+    default: z.string().optional(),
+    instances: z.array(instanceSchema),
+  }),
+]);
+
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+/**
+ * Load the GROWI instances to serve
+ *   GROWI_INSTANCES_FILE  path to a JSON file listing the instances
+ *   GROWI_INSTANCES       the same JSON inline
+ * Without either, a single "default" instance is built from GROWI_API_URL / GROWI_API_TOKEN.
+ */
+export function loadInstancesConfig(env: NodeJS.ProcessEnv = process.env): GrowiInstancesConfig {
+  let raw: string | undefined;
+  if (env.GROWI_INSTANCES_FILE) {
+    raw = fs.readFileSync(env.GROWI_INSTANCES_FILE, 'utf8');
+  } else if (env.GROWI_INSTANCES) {
+    raw = env.GROWI_INSTANCES;
+  }
+
+  if (raw === undefined) {
+    if (!env.GROWI_API_URL) {
+      throw new Error('GROWI_API_URL must be set in your environment or .env file');
+    }
+    return {
+      instances: [{ name: DEFAULT_INSTANCE_NAME, url: env.GROWI_API_URL, token: env.GROWI_API_TOKEN || undefined }],
+      defaultInstance: DEFAULT_INSTANCE_NAME,
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid GROWI instances config: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = configFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid GROWI instances config: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.instances;
+  if (entries.length === 0) {
+    throw new Error('Invalid GROWI instances config: at least one instance is required');
+  }
+
+  const instances = entries.map((entry) => ({
+    name: entry.name,
+    url: entry.url,
+    token: entry.token ?? (entry.tokenEnv ? env[entry.tokenEnv] : undefined),
+    description: entry.description,
+  }));
+
+  const names = new Set<string>();
+  for (const instance of instances) {
+    if (names.has(instance.name)) {
+      throw new Error(`Invalid GROWI instances config: duplicate instance name "${instance.name}"`);
+    }
+    names.add(instance.name);
+  }
+
+  const defaultInstance = (!Array.isArray(parsed.data) && parsed.data.default) || instances[0].name;
+  if (!names.has(defaultInstance)) {
+    throw new Error(`Invalid GROWI instances config: default instance "${defaultInstance}" is not defined`);
+  }
+
+  return { instances, defaultInstance };
+}
+
+// GROWI tokens a session brought with it
+export interface SessionTokens {
+  // Token for the default instance (X-Growi-Api-Token)
+  token?: string;
+  // Tokens per instance (X-Growi-Api-Token-<instance>), keyed by lower-cased instance name
+  instanceTokens?: Record<string, string>;
+}
+
+/**
+ * The API token each instance is used with in one session
+ * A token of the session takes precedence over the configured one. When every session has to bring its own
+ * tokens, instances the session has no token for are left out, and the default instance must have one.
+ * @param requireSessionToken Whether configured tokens are ignored (GROWI_REQUIRE_SESSION_TOKEN)
+ */
+export function sessionInstanceTokens(
+  config: GrowiInstancesConfig,
+  session: SessionTokens,
+  requireSessionToken: boolean,
+): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const instance of config.instances) {
+    const isDefault = instance.name === config.defaultInstance;
+    const token = (isDefault ? session.token : undefined)
+      ?? session.instanceTokens?.[instance.name.toLowerCase()]
+      ?? (requireSessionToken ? undefined : instance.token);
+    if (token) {
+      tokens.set(instance.name, token);
+    } else if (isDefault) {
+      throw Object.assign(new Error('A GROWI API token is required in the X-Growi-Api-Token header'), { status: 401 });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * The GrowiClient of every instance available to one session
+ */
+export class GrowiInstanceClients {
+  constructor(
+    private readonly clients: Map<string, GrowiClient>,
+    readonly defaultInstance: string,
+  ) {
+    if (!clients.has(defaultInstance)) {
+      throw new Error(`Default GROWI instance "${defaultInstance}" has no client`);
+    }
+  }
+
+  get names(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Client for the named instance, or the default instance when no name is given
+   */
+  resolve(instance?: string): GrowiClient {
+    const name = instance || this.defaultInstance;
+    const client = this.clients.get(name);
+    if (!client) {
+      throw new InvalidArgumentError(`Unknown GROWI instance: ${name} (available: ${this.names.join(', ')})`);
+    }
+    return client;
+  }
+
+  /**
+   * Clients whose requests are cancelled when the signal aborts
+   * @param signal Abort signal of the MCP request
+   */
+  withSignal(signal?: AbortSignal): GrowiInstanceClients {
+    if (!signal) return this;
+    const scoped = new Map([...this.clients.entries()].map(([name, client]) => [name, client.withSignal(signal)]));
+    return new GrowiInstanceClients(scoped, this.defaultInstance);
+  }
+
+  entries(): { name: string; client: GrowiClient }[] {
+    return [...this.clients.entries()].map(([name, client]) => ({ name, client }));
+  }
+}
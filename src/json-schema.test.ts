@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { zodToJsonSchema, JsonSchema } from './json-schema.js';
+import { tools } from './tools/index.js';
+
+describe('zodToJsonSchema', () => {
+  it('converts objects with required and optional fields', () => {
+    expect(zodToJsonSchema(z.object({
+      path: z.string().describe('Page path'),
+      limit: z.number().optional(),
+      nested: z.object({ flag: z.boolean() }),
+    }))).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Page path' },
+        limit: { type: 'number' },
+        nested: { type: 'object', properties: { flag: { type: 'boolean' } }, required: ['flag'] },
+      },
+      required: ['path', 'nested'],
+    });
+  });
+
+  it('converts unions of primitives to a type list and other unions to anyOf', () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({ type: ['string', 'number'] });
+    expect(zodToJsonSchema(z.union([z.array(z.string()), z.string()]))).toEqual({
+      anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }],
+    });
+    expect(zodToJsonSchema(z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('a') }),
+      z.object({ kind: z.literal('b'), value: z.number() }),
+    ]))).toEqual({
+      anyOf: [
+        { type: 'object', properties: { kind: { type: 'string', const: 'a' } }, required: ['kind'] },
+        { type: 'object', properties: { kind: { type: 'string', const: 'b' }, value: { type: 'number' } }, required: ['kind', 'value'] },
+      ],
+    });
+  });
+
+  it('converts enums, literals, nullable values and records', () => {
+    enum Mode { Full = 'full', Diff = 'diff' }
+    expect(zodToJsonSchema(z.enum(['text', 'json']))).toEqual({ type: 'string', enum: ['text', 'json'] });
+    expect(zodToJsonSchema(z.nativeEnum(Mode))).toEqual({ type: 'string', enum: ['full', 'diff'] });
+    expect(zodToJsonSchema(z.literal(3))).toEqual({ type: 'number', const: 3 });
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({ type: ['string', 'null'] });
+    expect(zodToJsonSchema(z.object({ a: z.string() }).nullable())).toEqual({
+      anyOf: [{ type: 'object', properties: { a: { type: 'string' } }, required: ['a'] }, { type: 'null' }],
+    });
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({ type: 'object', additionalProperties: { type: 'number' } });
+  });
+
+  it('keeps defaults and makes defaulted fields optional', () => {
+    expect(zodToJsonSchema(z.object({ depth: z.number().default(2).describe('Depth') }))).toEqual({
+      type: 'object',
+      properties: { depth: { type: 'number', default: 2, description: 'Depth' } },
+    });
+  });
+
+  it('converts string, number and array constraints and unwraps refinements', () => {
+    expect(zodToJsonSchema(z.string().min(1).max(10).regex(/^\//))).toEqual({
+      type: 'string', minLength: 1, maxLength: 10, pattern: '^\\/',
+    });
+    expect(zodToJsonSchema(z.number().int().positive().max(100))).toEqual({
+      type: 'integer', exclusiveMinimum: 0, maximum: 100,
+    });
+    expect(zodToJsonSchema(z.array(z.string()).min(1).max(5))).toEqual({
+      type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5,
+    });
+    expect(zodToJsonSchema(z.string().refine((value) => value.startsWith('/')).describe('Path'))).toEqual({
+      type: 'string', description: 'Path',
+    });
+    expect(zodToJsonSchema(z.object({ from: z.string(), to: z.string() }).refine((value) => value.from !== value.to)))
+      .toEqual({ type: 'object', properties: { from: { type: 'string' }, to: { type: 'string' } }, required: ['from', 'to'] });
+  });
+
+  it('prefers the outer description over the inner one', () => {
+    expect(zodToJsonSchema(z.string().describe('inner').optional().describe('outer'))).toEqual({
+      type: 'string', description: 'outer',
+    });
+    expect(zodToJsonSchema(z.string().describe('inner').optional())).toEqual({ type: 'string', description: 'inner' });
+  });
+
+  it('stops at recursive schemas', () => {
+    type Node = { name: string; children: Node[] };
+    const node: z.ZodType<Node> = z.lazy(() => z.object({ name: z.string(), children: z.array(node) }));
+    expect(zodToJsonSchema(node)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: {} } },
+      required: ['name', 'children'],
+    });
+  });
+});
+
+const toolSchemas = tools.flatMap((tool) => [
+  [`${tool.name} input`, tool.schema],
+  [`${tool.name} output`, tool.outputSchema],
+]) as [string, z.ZodTypeAny][];
+
+/**
+ * Check that a converted schema describes the same values as the Zod schema, recursively
+ */
+function expectEquivalent(schema: z.ZodTypeAny, json: JsonSchema, where: string): void {
+  const def = schema._def as any;
+  if (def.description) {
+    expect({ where, description: json.description }).toEqual({ where, description: def.description });
+  }
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodDefault':
+      expectEquivalent(def.innerType, json, where);
+      break;
+    case 'ZodObject': {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      expect({ where, type: json.type, keys: Object.keys(json.properties) })
+        .toEqual({ where, type: 'object', keys: Object.keys(shape) });
+      expect({ where, required: json.required ?? [] })
+        .toEqual({ where, required: Object.keys(shape).filter((key) => !shape[key].isOptional()) });
+      for (const [key, value] of Object.entries(shape)) {
+        expectEquivalent(value, json.properties[key], `${where}.${key}`);
+      }
+      break;
+    }
+    case 'ZodArray':
+      expect({ where, type: json.type }).toEqual({ where, type: 'array' });
+      expectEquivalent(def.type, json.items, `${where}[]`);
+      break;
+    case 'ZodUnion':
+      if (json.anyOf) {
+        expect({ where, options: json.anyOf.length }).toEqual({ where, options: def.options.length });
+        def.options.forEach((option: z.ZodTypeAny, index: number) => expectEquivalent(option, json.anyOf[index], `${where}|${index}`));
+      } else {
+        expect({ where, type: json.type }).toEqual({
+          where, type: def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option).type),
+        });
+      }
+      break;
+    case 'ZodEnum':
+      expect({ where, enum: json.enum }).toEqual({ where, enum: def.values });
+      break;
+    case 'ZodString':
+    case 'ZodBoolean':
+      expect({ where, type: json.type }).toEqual({ where, type: def.typeName === 'ZodString' ? 'string' : 'boolean' });
+      break;
+    case 'ZodNumber':
+      expect({ where, type: json.type }).toEqual({ where, type: expect.stringMatching(/^(number|integer)$/) });
+      break;
+    default:
+      throw new Error(`${where}: no check for ${def.typeName}`);
+  }
+}
+
+describe('zodToJsonSchema on the tool schemas', () => {
+  it('finds the input and output schema of every tool', () => {
+    for (const tool of tools) {
+      expect({ tool: tool.name, input: tool.schema instanceof z.ZodObject, output: tool.outputSchema instanceof z.ZodObject })
+        .toEqual({ tool: tool.name, input: true, output: true });
+    }
+  });
+
+  it.each(toolSchemas)('converts the %s schema to an equivalent object schema', (name, schema) => {
+    const json = zodToJsonSchema(schema);
+    expect(json.type).toBe('object');
+    expectEquivalent(schema, json, name);
+    // JSON として往復しても変わらない（関数や undefined を含まない）
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+  });
+
+  it('describes every input parameter', () => {
+    for (const [name, schema] of toolSchemas.filter(([name]) => name.endsWith(' input'))) {
+      const json = zodToJsonSchema(schema);
+      for (const [key, property] of Object.entries(json.properties as Record<string, JsonSchema>)) {
+        expect({ parameter: `${name}.${key}`, described: typeof property.description === 'string' })
+          .toEqual({ parameter: `${name}.${key}`, described: true });
+      }
+    }
+  });
+});
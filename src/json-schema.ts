@@ -0,0 +1,251 @@
+/**
+ * Zod to JSON Schema conversion for the tool input and output schemas advertised in tools/list
+ * Covers the Zod types the tools use (objects, arrays, unions, enums, literals, optional / nullable /
+ * default wrappers, refinements) plus the common string, number and array constraints.
+ */
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, any>;
+
+const PRIMITIVE_TYPES = new Set(['string', 'number', 'integer', 'boolean', 'null']);
+
+/**
+ * Whether a converted schema is a bare primitive type that can be merged into a `type` array
+ */
+function isBareType(schema: JsonSchema): boolean {
+  const keys = Object.keys(schema);
+  return keys.length === 1 && (
+    (typeof schema.type === 'string' && PRIMITIVE_TYPES.has(schema.type))
+    || (Array.isArray(schema.type) && schema.type.every((type: string) => PRIMITIVE_TYPES.has(type)))
+  );
+}
+
+function typesOf(schema: JsonSchema): string[] {
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Combine alternatives: `{ type: [...] }` when all of them are bare primitives, `anyOf` otherwise
+ */
+function anyOf(options: JsonSchema[]): JsonSchema {
+  if (options.length === 1) return options[0];
+  if (options.every(isBareType)) {
+    return { type: [...new Set(options.flatMap(typesOf))] };
+  }
+  return { anyOf: options };
+}
+
+function convertString(def: any): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case 'min':
+        schema.minLength = check.value;
+        break;
+      case 'max':
+        schema.maxLength = check.value;
+        break;
+      case 'length':
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+        break;
+      case 'regex':
+        schema.pattern = check.regex.source;
+        break;
+      case 'startsWith':
+        schema.pattern = `^${check.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+        break;
+      case 'email':
+        schema.format = 'email';
+        break;
+      case 'url':
+        schema.format = 'uri';
+        break;
+      case 'uuid':
+        schema.format = 'uuid';
+        break;
+      case 'datetime':
+        schema.format = 'date-time';
+        break;
+    }
+  }
+  return schema;
+}
+
+function convertNumber(def: any): JsonSchema {
+  const schema: JsonSchema = { type: 'number' };
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case 'int':
+        schema.type = 'integer';
+        break;
+      case 'min':
+        schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        schema.multipleOf = check.value;
+        break;
+    }
+  }
+  return schema;
+}
+
+function convertObject(schema: z.AnyZodObject, seen: Set<z.ZodTypeAny>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape) as [string, z.ZodTypeAny][]) {
+    properties[key] = convert(value, seen);
+    // optional() と default() のフィールドは省略できる
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) result.required = required;
+
+  const def = schema._def;
+  if (def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+  if (def.catchall && def.catchall._def.typeName !== 'ZodNever') {
+    result.additionalProperties = convert(def.catchall, seen);
+  }
+  return result;
+}
+
+/**
+ * Convert a Zod schema to JSON Schema
+ * @param seen Schemas being converted, to stop at recursive (z.lazy) references
+ */
+function convert(schema: z.ZodTypeAny, seen: Set<z.ZodTypeAny>): JsonSchema {
+  if (seen.has(schema)) {
+    // 再帰的なスキーマはそれ以上展開しない
+    return {};
+  }
+  seen = new Set(seen).add(schema);
+
+  const def = schema._def as any;
+  let result: JsonSchema;
+
+  switch (def.typeName) {
+    case 'ZodString':
+      result = convertString(def);
+      break;
+    case 'ZodNumber':
+      result = convertNumber(def);
+      break;
+    case 'ZodBigInt':
+      result = { type: 'integer' };
+      break;
+    case 'ZodBoolean':
+      result = { type: 'boolean' };
+      break;
+    case 'ZodDate':
+      result = { type: 'string', format: 'date-time' };
+      break;
+    case 'ZodNull':
+      result = { type: 'null' };
+      break;
+    case 'ZodLiteral':
+      result = def.value === null
+        ? { type: 'null' }
+        : { type: typeof def.value === 'bigint' ? 'integer' : typeof def.value, const: def.value };
+      break;
+    case 'ZodEnum':
+      result = { type: 'string', enum: [...def.values] };
+      break;
+    case 'ZodNativeEnum': {
+      // 数値の enum は逆引きのキーも持つため値だけを使う
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[def.values[key]] !== 'number')
+        .map(([, value]) => value);
+      const types = [...new Set(values.map((value) => typeof value))];
+      result = { type: types.length === 1 ? types[0] : types, enum: values };
+      break;
+    }
+    case 'ZodArray':
+      result = { type: 'array', items: convert(def.type, seen) };
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value;
+        result.maxItems = def.exactLength.value;
+      }
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      break;
+    case 'ZodSet':
+      result = { type: 'array', uniqueItems: true, items: convert(def.valueType, seen) };
+      break;
+    case 'ZodTuple':
+      result = {
+        type: 'array',
+        prefixItems: def.items.map((item: z.ZodTypeAny) => convert(item, seen)),
+        minItems: def.items.length,
+        ...(def.rest ? { items: convert(def.rest, seen) } : { maxItems: def.items.length }),
+      };
+      break;
+    case 'ZodObject':
+      result = convertObject(schema as z.AnyZodObject, seen);
+      break;
+    case 'ZodRecord':
+    case 'ZodMap':
+      result = { type: 'object', additionalProperties: convert(def.valueType, seen) };
+      break;
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      const options: z.ZodTypeAny[] = Array.isArray(def.options) ? def.options : [...def.options.values()];
+      result = anyOf(options.map((option) => convert(option, seen)));
+      break;
+    }
+    case 'ZodIntersection':
+      result = { allOf: [convert(def.left, seen), convert(def.right, seen)] };
+      break;
+    case 'ZodOptional':
+      result = convert(def.innerType, seen);
+      break;
+    case 'ZodNullable':
+      result = anyOf([convert(def.innerType, seen), { type: 'null' }]);
+      break;
+    case 'ZodDefault':
+      result = { ...convert(def.innerType, seen), default: def.defaultValue() };
+      break;
+    case 'ZodCatch':
+    case 'ZodBranded':
+    case 'ZodReadonly':
+      result = convert(def.innerType ?? def.type, seen);
+      break;
+    case 'ZodEffects':
+      // refine / transform / preprocess は元のスキーマで表す（検証ロジックは JSON Schema で表現できない）
+      result = convert(def.schema, seen);
+      break;
+    case 'ZodPipeline':
+      result = convert(def.in, seen);
+      break;
+    case 'ZodLazy':
+      result = convert(def.getter(), seen);
+      break;
+    case 'ZodPromise':
+      result = convert(def.type, seen);
+      break;
+    default:
+      // ZodAny / ZodUnknown など、任意の値を受け付ける
+      result = {};
+  }
+
+  // 外側（optional() や default() の後）で付けた説明を優先する
+  if (def.description) {
+    result = { ...result, description: def.description };
+  }
+  return result;
+}
+
+/**
+ * Convert a Zod schema to JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return convert(schema, new Set());
+}
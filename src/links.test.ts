@@ -0,0 +1,53 @@
+import { extractLinks, resolveLinkTarget } from './links.js';
+
+describe('resolveLinkTarget', () => {
+  it('resolves absolute, relative and encoded paths', () => {
+    expect(resolveLinkTarget('/docs/setup#install', '/a/b')).toEqual({ path: '/docs/setup', relative: false });
+    expect(resolveLinkTarget('./child', '/a/b')).toEqual({ path: '/a/b/child', relative: true });
+    expect(resolveLinkTarget('../sibling/', '/a/b')).toEqual({ path: '/a/sibling', relative: true });
+    expect(resolveLinkTarget('child', '/a/b')).toEqual({ path: '/a/b/child', relative: true });
+    expect(resolveLinkTarget('/%E8%AD%B0%E4%BA%8B%E9%8C%B2', '/')).toEqual({ path: '/議事録', relative: false });
+  });
+
+  it('recognizes permalinks and links to the same GROWI instance', () => {
+    expect(resolveLinkTarget('/5e0734e472560e001761fa68', '/a')).toEqual({ pageId: '5e0734e472560e001761fa68', relative: false });
+    expect(resolveLinkTarget('https://wiki.example.com/docs/x?foo=1', '/a', 'https://wiki.example.com'))
+      .toEqual({ path: '/docs/x', relative: false });
+    expect(resolveLinkTarget('https://other.example.com/docs/x', '/a', 'https://wiki.example.com')).toBeUndefined();
+  });
+
+  it('ignores anchors, external links, attachments and GROWI screens', () => {
+    expect(resolveLinkTarget('#section', '/a')).toBeUndefined();
+    expect(resolveLinkTarget('mailto:someone@example.com', '/a')).toBeUndefined();
+    expect(resolveLinkTarget('/attachment/5e0734e472560e001761fa68', '/a')).toBeUndefined();
+    expect(resolveLinkTarget('/_search?q=x', '/a')).toBeUndefined();
+  });
+});
+
+describe('extractLinks', () => {
+  it('extracts markdown, wiki, relative and permalink links with their lines', () => {
+    const body = [
+      '# Index',
+      'See [setup](/docs/setup "Setup") and [[/docs/faq]].',
+      'Also [[FAQ label>/docs/faq2]], [child](./child) and [perma](/5e0734e472560e001761fa68).',
+      '![diagram](/attachment/5e0734e472560e001761fa68)',
+      '[ref]: /docs/reference',
+      '[external](https://example.com)',
+    ].join('\n');
+
+    expect(extractLinks(body, '/projects/foo')).toEqual([
+      { kind: 'wiki', raw: '/docs/faq', text: '/docs/faq', line: 2, path: '/docs/faq' },
+      { kind: 'markdown', raw: '/docs/setup', text: 'setup', line: 2, path: '/docs/setup' },
+      { kind: 'wiki', raw: '/docs/faq2', text: 'FAQ label', line: 3, path: '/docs/faq2' },
+      { kind: 'relative', raw: './child', text: 'child', line: 3, path: '/projects/foo/child' },
+      { kind: 'permalink', raw: '/5e0734e472560e001761fa68', text: 'perma', line: 3, pageId: '5e0734e472560e001761fa68' },
+      { kind: 'markdown', raw: '/docs/reference', text: 'ref', line: 5, path: '/docs/reference' },
+    ]);
+  });
+
+  it('skips links inside code', () => {
+    const body = '```\n[a](/in/fence)\n```\n`[b](/in/code)` [c](/real)\n    [d](/indented)';
+
+    expect(extractLinks(body, '/').map((link) => link.path)).toEqual(['/real']);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Extraction of the links between GROWI pages from markdown bodies
+ * Recognized: `[text](/path)` and reference definitions, `[[/path]]` / `[[label>/path]]`, relative links
+ * (resolved against the page path, which GROWI treats as a directory) and page-id permalinks (`/<24 hex>`).
+ * Images, external URLs, attachments and links inside code are ignored.
+ */
+
+export type LinkKind = 'markdown' | 'wiki' | 'relative' | 'permalink';
+
+export interface PageLink {
+  kind: LinkKind;
+  // Link target as written
+  raw: string;
+  // Link text (the target itself for bare wiki links)
+  text: string;
+  // 1-based line of the link in the body
+  line: number;
+  // Absolute page path of the target (not set for permalinks)
+  path?: string;
+  // Page id of a permalink
+  pageId?: string;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const MARKDOWN_LINK_PATTERN = /(!?)\[((?:[^\[\]]|\[[^\[\]]*\])*)\]\(\s*<?([^()\s<>]*(?:\([^()\s]*\)[^()\s<>]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+const WIKI_LINK_PATTERN = /\[\[([^\[\]\n]+)\]\]/g;
+const DEFINITION_PATTERN = /^ {0,3}\[([^\]]+)\]:\s*<?([^\s>]+)>?/;
+const PAGE_ID_PATTERN = /^\/([0-9a-f]{24})$/;
+// GROWI の画面や API のパスはページではない
+const NON_PAGE_PATTERN = /^\/(?:_|attachment\/|files\/|uploads\/|share\/|admin(?:\/|$)|trash$)/;
+
+/**
+ * Replace inline code spans with spaces so that links inside them are not matched
+ */
+function blankInlineCode(line: string): string {
+  return line.replace(/(`+)[^`]*?\1/g, (code) => ' '.repeat(code.length));
+}
+
+/**
+ * Resolve a link target to a page path or page id
+ * @param href Link target as written
+ * @param pagePath Path of the page containing the link
+ * @param baseUrl URL of the GROWI instance; absolute URLs on it are treated as page links
+ * @returns undefined for anything that is not a link to a page
+ */
+export function resolveLinkTarget(
+  href: string,
+  pagePath: string,
+  baseUrl?: string
+): { path?: string; pageId?: string; relative: boolean } | undefined {
+  let target = href.trim();
+  if (target === '' || target.startsWith('#') || target.startsWith('//')) return undefined;
+
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+    if (!baseUrl) return undefined;
+    let url: URL;
+    let base: URL;
+    try {
+      url = new URL(target);
+      base = new URL(baseUrl);
+    } catch {
+      return undefined;
+    }
+    if (url.origin !== base.origin) return undefined;
+    const basePath = base.pathname.replace(/\/+$/, '');
+    if (!url.pathname.startsWith(basePath + '/')) return undefined;
+    target = url.pathname.substring(basePath.length);
+  }
+
+  target = target.replace(/[?#].*$/, '');
+  if (target === '') return undefined;
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // 不正なエスケープはそのまま扱う
+  }
+
+  const relative = !target.startsWith('/');
+  const segments = relative ? pagePath.split('/').filter(Boolean) : [];
+  for (const segment of target.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  const path = '/' + segments.join('/');
+
+  if (NON_PAGE_PATTERN.test(path)) return undefined;
+  const permalink = path.match(PAGE_ID_PATTERN);
+  if (permalink) return { pageId: permalink[1], relative };
+  return { path, relative };
+}
+
+/**
+ * Extract the links to other pages from a markdown body
+ * @param body Markdown body
+ * @param pagePath Path of the page, for relative links
+ * @param options baseUrl: URL of the GROWI instance, to recognize absolute links to it
+ */
+export function extractLinks(body: string, pagePath: string, options: { baseUrl?: string } = {}): PageLink[] {
+  const links: PageLink[] = [];
+  let fence: string | null = null;
+
+  const add = (kind: 'markdown' | 'wiki', raw: string, text: string, line: number) => {
+    const target = resolveLinkTarget(raw, pagePath, options.baseUrl);
+    if (!target) return;
+    links.push({
+      kind: target.pageId ? 'permalink' : target.relative ? 'relative' : kind,
+      raw,
+      text,
+      line,
+      ...(target.path ? { path: target.path } : {}),
+      ...(target.pageId ? { pageId: target.pageId } : {}),
+    });
+  };
+
+  body.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const fenceMatch = rawLine.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence !== null || /^( {4}|\t)/.test(rawLine)) return;
+
+    const line = blankInlineCode(rawLine.replace(/\r$/, ''));
+
+    const definition = line.match(DEFINITION_PATTERN);
+    if (definition) {
+      add('markdown', definition[2], definition[1], lineNumber);
+      return;
+    }
+
+    // [[...]] を先に取り除き、中身が Markdown リンクとして二重に数えられないようにする
+    const withoutWiki = line.replace(WIKI_LINK_PATTERN, (match, inner: string) => {
+      const separator = inner.includes('>') ? inner.lastIndexOf('>') : inner.indexOf('|');
+      const [label, target] = separator < 0
+        ? [inner.trim(), inner.trim()]
+        : inner.includes('>')
+          ? [inner.substring(0, separator).trim(), inner.substring(separator + 1).trim()]
+          : [inner.substring(separator + 1).trim(), inner.substring(0, separator).trim()];
+      add('wiki', target, label, lineNumber);
+      return ' '.repeat(match.length);
+    });
+
+    for (const match of withoutWiki.matchAll(MARKDOWN_LINK_PATTERN)) {
+      if (match[1] === '!') continue;
+      add('markdown', match[3], match[2].trim(), lineNumber);
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Key identifying the target page of a link, for grouping and lookups
+ */
+export function linkTargetKey(link: Pick<PageLink, 'path' | 'pageId'>): string {
+  return link.pageId ? `id:${link.pageId}` : `path:${link.path}`;
+}
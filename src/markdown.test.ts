@@ -0,0 +1,26 @@
+import { findSection, parseOutline, sliceBytes } from './markdown.js';
+
+describe('parseOutline', () => {
+  it('builds a numbered heading tree and ignores fenced code', () => {
+    const body = '# A\n```\n# not a heading\n```\n## B\n## C\n# D\n';
+
+    const outline = parseOutline(body);
+
+    expect(outline.map((heading) => heading.title)).toEqual(['A', 'D']);
+    expect(outline[0].children.map((heading) => heading.number)).toEqual(['1.1', '1.2']);
+    expect(body.slice(outline[0].start, outline[0].end)).toBe('# A\n```\n# not a heading\n```\n## B\n## C\n');
+    expect(findSection(outline, '1.2')?.title).toBe('C');
+  });
+});
+
+describe('sliceBytes', () => {
+  it('never splits multi-byte characters', () => {
+    const text = 'あいうえお';
+
+    const first = sliceBytes(text, 0, 4);
+
+    expect(first.chunk).toBe('あ');
+    expect(first.nextByte).toBe(3);
+    expect(sliceBytes(text, 3, 100)).toEqual({ chunk: 'いうえお', nextByte: null });
+  });
+});
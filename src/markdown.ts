@@ -0,0 +1,141 @@
+/**
+ * Markdown helpers for section-aware page reading
+ * Only ATX headings (`# Title`) are recognized; headings inside fenced code blocks are ignored.
+ */
+
+export interface OutlineHeading {
+  level: number;
+  title: string;
+  // Outline number such as "2.1"
+  number: string;
+  // Character offsets of the section in the body (heading line up to the next heading of the same or higher level)
+  start: number;
+  end: number;
+  // UTF-8 size of the section including its subsections
+  bytes: number;
+  children: OutlineHeading[];
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parse the heading tree of a markdown body
+ */
+export function parseOutline(body: string): OutlineHeading[] {
+  const flat: OutlineHeading[] = [];
+  let offset = 0;
+  let fence: string | null = null;
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    } else if (fence === null) {
+      const headingMatch = line.match(HEADING_PATTERN);
+      if (headingMatch) {
+        flat.push({
+          level: headingMatch[1].length,
+          title: headingMatch[2].trim(),
+          number: '',
+          start: offset,
+          end: body.length,
+          bytes: 0,
+          children: [],
+        });
+      }
+    }
+    offset += rawLine.length + 1;
+  }
+
+  // 各見出しの範囲は、同じかより上位レベルの次の見出しまで
+  flat.forEach((heading, index) => {
+    const next = flat.slice(index + 1).find((candidate) => candidate.level <= heading.level);
+    heading.end = next ? next.start : body.length;
+    heading.bytes = Buffer.byteLength(body.slice(heading.start, heading.end));
+  });
+
+  const roots: OutlineHeading[] = [];
+  const stack: OutlineHeading[] = [];
+  for (const heading of flat) {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    const siblings = stack.length > 0 ? stack[stack.length - 1].children : roots;
+    siblings.push(heading);
+    heading.number = (stack.length > 0 ? stack[stack.length - 1].number + '.' : '') + siblings.length;
+    stack.push(heading);
+  }
+  return roots;
+}
+
+/**
+ * List the headings of a tree in document order
+ */
+export function flatten(headings: OutlineHeading[]): OutlineHeading[] {
+  return headings.flatMap((heading) => [heading, ...flatten(heading.children)]);
+}
+
+/**
+ * Find a section by outline number ("2.1"), exact title, or case-insensitive title
+ */
+export function findSection(headings: OutlineHeading[], query: string): OutlineHeading | undefined {
+  const all = flatten(headings);
+  const normalized = query.trim().replace(/^#+\s*/, '');
+  return all.find((heading) => heading.number === normalized)
+    ?? all.find((heading) => heading.title === normalized)
+    ?? all.find((heading) => heading.title.toLowerCase() === normalized.toLowerCase());
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Render the heading tree as an indented list with section sizes
+ */
+export function formatOutline(headings: OutlineHeading[], depth: number = 0): string {
+  return headings.map((heading) => {
+    const line = `${'  '.repeat(depth)}${heading.number} ${heading.title} (${formatBytes(heading.bytes)})\n`;
+    return line + formatOutline(heading.children, depth + 1);
+  }).join('');
+}
+
+/**
+ * Slice a string by UTF-8 byte offsets without splitting multi-byte characters
+ * @returns The chunk and the byte offset where the next chunk starts (null at the end)
+ */
+export function sliceBytes(text: string, startByte: number, maxBytes: number): { chunk: string; nextByte: number | null } {
+  const buffer = Buffer.from(text, 'utf8');
+  let end = Math.min(buffer.length, startByte + maxBytes);
+
+  // UTF-8の継続バイト (10xxxxxx) の途中で切らないように戻す
+  while (end < buffer.length && end > startByte && (buffer[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  // 1文字も入らない場合でも必ず前に進む
+  if (end === startByte && end < buffer.length) {
+    end++;
+    while (end < buffer.length && (buffer[end] & 0xc0) === 0x80) end++;
+  }
+  // できれば改行の直後で区切る
+  if (end < buffer.length) {
+    const newline = buffer.lastIndexOf(0x0a, end - 1);
+    if (newline >= startByte && newline + 1 - startByte >= maxBytes / 2) {
+      end = newline + 1;
+    }
+  }
+
+  return {
+    chunk: buffer.subarray(startByte, end).toString('utf8'),
+    nextByte: end < buffer.length ? end : null,
+  };
+}
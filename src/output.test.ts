@@ -0,0 +1,46 @@
+import { pageOutput, toolResult, markdownTable } from './output.js';
+
+describe('toolResult', () => {
+  const data = { ok: true, count: 2 };
+  const render = { text: () => 'plain', markdown: () => '## markdown' };
+
+  it('renders the requested format and always returns structuredContent', () => {
+    expect(toolResult(undefined, data, render)).toEqual({ content: [{ type: 'text', text: 'plain' }], structuredContent: data });
+    expect(toolResult('markdown', data, render).content[0].text).toBe('## markdown');
+    expect(JSON.parse(toolResult('json', data, render).content[0].text)).toEqual(data);
+  });
+
+  it('falls back to text when there is no markdown renderer', () => {
+    expect(toolResult('markdown', data, { text: () => 'plain' }).content[0].text).toBe('plain');
+  });
+});
+
+describe('pageOutput', () => {
+  it('keeps only the GrowiPage fields', () => {
+    const page = {
+      _id: 'p1',
+      path: '/a',
+      revision: { _id: 'r1', body: 'x', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-01-01' },
+      creator: { _id: 'u2', name: 'bob' },
+      createdAt: '2023-01-01',
+      updatedAt: '2024-01-01',
+      grant: 1,
+      lastUpdateUser: { _id: 'u1' },
+    } as any;
+
+    expect(pageOutput(page)).toEqual({
+      _id: 'p1',
+      path: '/a',
+      revision: { _id: 'r1', body: 'x', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-01-01' },
+      creator: { _id: 'u2', name: 'bob' },
+      createdAt: '2023-01-01',
+      updatedAt: '2024-01-01',
+    });
+  });
+});
+
+describe('markdownTable', () => {
+  it('escapes pipes and newlines in cells', () => {
+    expect(markdownTable(['A', 'B'], [['x|y', 'line\nbreak']])).toBe('| A | B |\n| --- | --- |\n| x\\|y | line break |\n');
+  });
+});
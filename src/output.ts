@@ -0,0 +1,192 @@
+/**
+ * Shared output handling of the tools
+ * Every tool accepts `format` (text, markdown or json) and returns `structuredContent` that matches the
+ * output schema it declares; the text content is rendered from the same data.
+ */
+import { z } from 'zod';
+import { GrowiPage, GrowiPageUpdateResponse, GrowiSearchHit } from './types/growi.js';
+
+export type OutputFormat = 'text' | 'markdown' | 'json';
+
+export const formatSchema = z.enum(['text', 'markdown', 'json']).optional()
+  .describe('Output format: text (default), markdown, or json (the structured result as JSON)');
+
+// A type alias (not an interface) so that it stays assignable to the SDK's result type
+export type ToolResult = {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * Build a successful tool result
+ * @param format Requested output format
+ * @param data Structured result, returned as structuredContent and as the json format
+ * @param render Renderers of the text and markdown formats (markdown falls back to text)
+ */
+export function toolResult(
+  format: OutputFormat | undefined,
+  data: Record<string, unknown>,
+  render: { text: () => string; markdown?: () => string },
+): ToolResult {
+  let text: string;
+  switch (format) {
+    case 'json':
+      text = JSON.stringify(data, null, 2);
+      break;
+    case 'markdown':
+      text = (render.markdown ?? render.text)();
+      break;
+    default:
+      text = render.text();
+  }
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: data,
+  };
+}
+
+export const userOutputSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+});
+
+export const revisionOutputSchema = z.object({
+  _id: z.string(),
+  body: z.string().describe('Markdown body (empty in listings)'),
+  author: userOutputSchema,
+  createdAt: z.string(),
+});
+
+export const pageOutputSchema = z.object({
+  _id: z.string(),
+  path: z.string(),
+  revision: revisionOutputSchema,
+  creator: userOutputSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  tags: z.array(z.string()).optional(),
+});
+
+export const offsetMetaOutputSchema = z.object({
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+});
+
+export const pageNumberMetaOutputSchema = z.object({
+  total: z.number(),
+  limit: z.number(),
+  page: z.number(),
+});
+
+/**
+ * Keep only the GrowiPage fields of a page
+ * normalizePage が元のレスポンスのフィールドも残すため、構造化出力では取り除く
+ */
+export function pageOutput(page: GrowiPage): GrowiPage {
+  return {
+    _id: page._id,
+    path: page.path,
+    revision: {
+      _id: page.revision?._id ?? '',
+      body: page.revision?.body ?? '',
+      author: { _id: page.revision?.author?._id ?? '', name: page.revision?.author?.name ?? '' },
+      createdAt: page.revision?.createdAt ?? '',
+    },
+    creator: { _id: page.creator?._id ?? '', name: page.creator?.name ?? '' },
+    createdAt: page.createdAt ?? '',
+    updatedAt: page.updatedAt ?? '',
+    ...(page.tags ? { tags: page.tags } : {}),
+  };
+}
+
+/**
+ * Escape a value for a markdown table cell
+ */
+export function markdownCell(value: string | number | undefined): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render rows as a markdown table
+ */
+export function markdownTable(header: string[], rows: (string | number | undefined)[][]): string {
+  let table = `| ${header.join(' | ')} |\n| ${header.map(() => '---').join(' | ')} |\n`;
+  for (const row of rows) {
+    table += `| ${row.map(markdownCell).join(' | ')} |\n`;
+  }
+  return table;
+}
+
+/**
+ * Date part of an ISO timestamp, for compact listings
+ */
+export function shortDate(value: string | undefined): string {
+  return value ? value.substring(0, 10) : '';
+}
+
+export const searchHitOutputSchema = pageOutputSchema.extend({
+  snippet: z.string().optional().describe('Matching excerpt with Elasticsearch highlight markup'),
+  highlightedPath: z.string().optional(),
+});
+
+export const searchMetaOutputSchema = z.object({
+  total: z.number(),
+  took: z.number(),
+  hitsCount: z.number(),
+});
+
+/**
+ * Keep only the GrowiSearchHit fields of a search hit
+ */
+export function searchHitOutput(hit: GrowiSearchHit): GrowiSearchHit {
+  return {
+    ...pageOutput(hit),
+    ...(hit.snippet !== undefined ? { snippet: hit.snippet } : {}),
+    ...(hit.highlightedPath !== undefined ? { highlightedPath: hit.highlightedPath } : {}),
+  };
+}
+
+export const commentOutputSchema = z.object({
+  _id: z.string(),
+  pageId: z.string(),
+  revisionId: z.string(),
+  author: userOutputSchema,
+  body: z.string(),
+  replyTo: z.string().optional().describe('Id of the comment this one replies to'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const attachmentOutputSchema = z.object({
+  _id: z.string(),
+  pageId: z.string(),
+  originalName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  creator: userOutputSchema,
+  createdAt: z.string(),
+  downloadPath: z.string(),
+});
+
+export const tagOutputSchema = z.object({
+  name: z.string(),
+  count: z.number(),
+});
+
+export const pageUpdateOutputSchema = z.object({
+  ok: z.boolean(),
+  page: pageOutputSchema,
+  revision: z.object({
+    _id: z.string().describe('Id of the new revision'),
+    body: z.string(),
+  }),
+});
+
+/**
+ * Structured result of a page write
+ */
+export function pageUpdateOutput(response: GrowiPageUpdateResponse): Record<string, unknown> {
+  return { ok: true, page: pageOutput(response.page), revision: response.revision };
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jest } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getPrompt, listPrompts, loadPromptsDirectory, renderTemplate } from './prompts.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const page = (pagePath: string, body: string, daysAgo: number = 1, createdDaysAgo: number = 100) => ({
+  _id: `id-${pagePath}`,
+  path: pagePath,
+  revision: { _id: 'r1', body, author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: new Date(Date.now() - createdDaysAgo * DAY).toISOString(),
+  updatedAt: new Date(Date.now() - daysAgo * DAY).toISOString(),
+});
+
+const mockClient = (pages: ReturnType<typeof page>[]) => ({
+  getPage: jest.fn(async (pagePath: string) => {
+    const found = pages.find((candidate) => candidate.path === pagePath);
+    return found ? { ok: true, page: found } : { ok: false, error: 'Page not found' };
+  }),
+  listPages: jest.fn(async (pagePath: string) => {
+    const listed = pages.filter((candidate) => candidate.path === pagePath || candidate.path.startsWith(pagePath === '/' ? '/' : pagePath + '/'));
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, offset: 0 } };
+  }),
+  getRecentlyUpdatedPages: jest.fn(async (limit: number, offset: number) => {
+    const sorted = [...pages].sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+    return { ok: true, pages: sorted.slice(offset, offset + limit), meta: { total: pages.length, limit, offset } };
+  }),
+  pageExists: jest.fn(async (pagePath: string) => ({ ok: true, exists: pages.some((candidate) => candidate.path === pagePath) })),
+}) as any;
+
+const textOf = (result: { messages: { content: { text: string } }[] }) => result.messages[0].content.text;
+
+describe('built-in prompts', () => {
+  it('lists the built-in prompts with their arguments', async () => {
+    const { prompts } = await listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(['summarize_page', 'answer_from_subtree', 'draft_page', 'weekly_digest']);
+    expect(prompts[0].arguments).toContainEqual(expect.objectContaining({ name: 'path', required: true }));
+  });
+
+  it('summarize_page includes the page body', async () => {
+    const client = mockClient([page('/docs/a', '# A\nbody of a')]);
+    const result = await getPrompt(client, 'summarize_page', { path: 'docs/a', focus: 'risks' });
+
+    expect(textOf(result)).toContain('Summarize the GROWI page /docs/a, focusing on risks.');
+    expect(textOf(result)).toContain('body of a');
+    expect(textOf(result)).toContain('by alice');
+  });
+
+  it('rejects unknown prompts and missing required arguments', async () => {
+    const client = mockClient([]);
+    await expect(getPrompt(client, 'nope', {})).rejects.toThrow(McpError);
+    await expect(getPrompt(client, 'answer_from_subtree', { path: '/docs' })).rejects.toThrow('Missing required arguments for prompt answer_from_subtree: question');
+  });
+
+  it('answer_from_subtree includes up to max_pages pages and lists the rest', async () => {
+    const client = mockClient([page('/docs/a', 'alpha'), page('/docs/b', 'beta'), page('/docs/c', 'gamma'), page('/other', 'no')]);
+    const text = textOf(await getPrompt(client, 'answer_from_subtree', { question: 'What is beta?', path: '/docs', max_pages: '2' }));
+
+    expect(text).toContain('Question: What is beta?');
+    expect(text).toContain('2 of 3 pages under /docs are included below.');
+    expect(text).toContain('alpha');
+    expect(text).toContain('beta');
+    expect(text).not.toContain('gamma');
+    expect(text).toContain('- /docs/c');
+    expect(text).not.toContain('/other');
+  });
+
+  it('draft_page uses the sibling pages as examples', async () => {
+    const client = mockClient([
+      page('/meetings', 'index'),
+      page('/meetings/2024-01', '## Agenda\n## Decisions', 2),
+      page('/meetings/2024-01/notes', 'nested'),
+    ]);
+    const text = textOf(await getPrompt(client, 'draft_page', { path: '/meetings/2024-02', topic: 'the February meeting' }));
+
+    expect(text).toContain('Draft a new GROWI page at /meetings/2024-02 about the February meeting.');
+    expect(text).toContain('- /meetings/2024-01');
+    expect(text).toContain('## Agenda');
+    expect(text).not.toContain('nested');
+    expect(text).not.toContain('already exists');
+  });
+
+  it('weekly_digest lists the pages updated within the period under the path', async () => {
+    const client = mockClient([
+      page('/docs/new', 'x', 1, 2),
+      page('/docs/edited', 'x', 3),
+      page('/blog/post', 'x', 2),
+      page('/docs/old', 'x', 10),
+    ]);
+    const text = textOf(await getPrompt(client, 'weekly_digest', { path: '/docs' }));
+
+    expect(text).toContain('Pages updated since');
+    expect(text).toContain('/docs/new (new) by alice');
+    expect(text).toContain('/docs/edited by alice');
+    expect(text).not.toContain('/blog/post');
+    expect(text).not.toContain('/docs/old');
+  });
+});
+
+describe('prompts directory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-prompts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('adds prompts from JSON files and skips invalid ones', async () => {
+    fs.writeFileSync(path.join(dir, 'review.json'), JSON.stringify({
+      name: 'review_page',
+      description: 'Review a page',
+      arguments: [{ name: 'path', required: true }, { name: 'tone' }],
+      template: ['Review {{path}} in a {{tone}} tone.', '{{page:path}}'],
+    }));
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ "name": "bad name!" }');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+    const { prompts } = await listPrompts(dir);
+    expect(prompts.map((prompt) => prompt.name)).toContain('review_page');
+    expect(prompts).toHaveLength(5);
+
+    const client = mockClient([page('/docs/a', 'page body')]);
+    const text = textOf(await getPrompt(client, 'review_page', { path: '/docs/a', tone: 'friendly' }, dir));
+    expect(text).toContain('Review /docs/a in a friendly tone.\n## /docs/a');
+    expect(text).toContain('page body');
+  });
+
+  it('replaces a built-in prompt of the same name', async () => {
+    fs.writeFileSync(path.join(dir, 'summary.json'), JSON.stringify({ name: 'summarize_page', template: 'Custom {{path}}' }));
+
+    const [custom] = await loadPromptsDirectory(dir);
+    expect(custom.description).toBe('Prompt from summary.json');
+    const result = await getPrompt(mockClient([]), 'summarize_page', { path: '/x' }, dir);
+    expect(textOf(result)).toBe('Custom /x');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('expands page listings and recent changes without expanding placeholders in values', async () => {
+    const client = mockClient([page('/docs/a', 'has {{recent}} in it', 1), page('/docs/b', 'b', 2)]);
+    const text = await renderTemplate(client, 'Q: {{question}}\n{{pages:/docs}}\n{{recent:1}}\n{{page:/docs/a}}', {
+      question: '{{page:/docs/b}}',
+    });
+
+    expect(text).toContain('Q: {{page:/docs/b}}');
+    expect(text).toContain('- /docs/a\n- /docs/b');
+    expect(text).toMatch(/\n- \d{4}-\d{2}-\d{2} \/docs\/a\n/);
+    expect(text).toContain('has {{recent}} in it');
+    expect(client.getRecentlyUpdatedPages).toHaveBeenCalledWith(1, 0);
+  });
+
+  it('rejects when one of several pages is missing', async () => {
+    const client = mockClient([page('/docs/a', 'a')]);
+
+    await expect(renderTemplate(client, '{{page:/docs/a}}\n{{page:/docs/missing}}', {})).rejects.toThrow('Page not found: /docs/missing');
+  });
+});
@@ -0,0 +1,380 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { GrowiClient } from './growi-client.js';
+import { GrowiPage } from './types/growi.js';
+import { collectChangesSince, lastEditor } from './tools/changes-since.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Build the messages; arguments are validated against `arguments` beforehand
+  build(client: GrowiClient, args: Record<string, string>): Promise<PromptMessage[]>;
+}
+
+// プロンプトに含めるページ本文の合計文字数の上限
+const CONTEXT_BUDGET_CHARS = 60_000;
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function normalizePath(value: string): string {
+  let pagePath = value.trim();
+  if (!pagePath.startsWith('/')) pagePath = '/' + pagePath;
+  if (pagePath.length > 1) pagePath = pagePath.replace(/\/+$/, '');
+  return pagePath;
+}
+
+function parseCount(value: string | undefined, fallback: number, max: number): number {
+  const count = value !== undefined && value !== '' ? parseInt(value, 10) : fallback;
+  if (isNaN(count) || count < 1) return fallback;
+  return Math.min(count, max);
+}
+
+/**
+ * Render a page as a prompt section: path, last update and the body (cut at maxChars)
+ */
+export function pageContext(page: GrowiPage, maxChars: number = CONTEXT_BUDGET_CHARS): string {
+  const body = page.revision?.body || '';
+  const editor = page.revision?.author?.name || page.creator?.name;
+  let text = `## ${page.path}\n`;
+  text += `(last updated ${page.updatedAt || 'unknown'}${editor ? ` by ${editor}` : ''})\n\n`;
+  if (body.length > maxChars) {
+    text += `${body.substring(0, maxChars)}\n\n[... ${body.length - maxChars} more characters omitted; use get_page to read the rest]`;
+  } else {
+    text += body || '(empty page)';
+  }
+  return text;
+}
+
+async function fetchPage(client: GrowiClient, pagePath: string): Promise<GrowiPage> {
+  const response = await client.getPage(pagePath);
+  if (!response.ok || !response.page?.path) {
+    throw new McpError(ErrorCode.InvalidParams, `Page not found: ${pagePath} (${response.error || 'no page returned'})`);
+  }
+  return response.page;
+}
+
+async function listSubtree(client: GrowiClient, pagePath: string, limit: number): Promise<{ pages: GrowiPage[]; total: number }> {
+  const response = await client.listPages(pagePath, limit, 1);
+  if (!response.ok) {
+    throw new McpError(ErrorCode.InternalError, `Error listing pages under ${pagePath}: ${response.error || 'Unknown error'}`);
+  }
+  return { pages: response.pages, total: response.meta?.total ?? response.pages.length };
+}
+
+const summarizePagePrompt: PromptDefinition = {
+  name: 'summarize_page',
+  description: 'Summarize a GROWI page: overview, key points, decisions and open questions',
+  arguments: [
+    { name: 'path', description: 'Path of the page to summarize', required: true },
+    { name: 'focus', description: 'Optional aspect to focus on, e.g. "action items"' },
+  ],
+  async build(client, args) {
+    const page = await fetchPage(client, normalizePath(args.path));
+    let text = `Summarize the GROWI page ${page.path}${args.focus ? `, focusing on ${args.focus}` : ''}.\n`;
+    text += 'Start with a one-sentence overview, then list the key points, decisions and open questions. '
+      + 'Mention who last updated the page and when.\n\n';
+    text += pageContext(page);
+    return [userMessage(text)];
+  },
+};
+
+const answerFromSubtreePrompt: PromptDefinition = {
+  name: 'answer_from_subtree',
+  description: 'Answer a question using only the pages under a GROWI path, citing the pages used',
+  arguments: [
+    { name: 'question', description: 'The question to answer', required: true },
+    { name: 'path', description: 'Path whose pages (and the pages below it) are the sources', required: true },
+    { name: 'max_pages', description: 'Maximum number of pages to include (default: 10, max: 30)' },
+  ],
+  async build(client, args) {
+    const rootPath = normalizePath(args.path);
+    const maxPages = parseCount(args.max_pages, 10, 30);
+    const { pages, total } = await listSubtree(client, rootPath, 100);
+    if (pages.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No pages found under path: ${rootPath}`);
+    }
+
+    const included = pages.slice(0, maxPages);
+    const perPage = Math.floor(CONTEXT_BUDGET_CHARS / included.length);
+    const sections: string[] = [];
+    for (const listed of included) {
+      const response = await client.getPage(listed.path);
+      // 読めないページは飛ばし、残りのページで回答させる
+      sections.push(response.ok && response.page
+        ? pageContext(response.page, perPage)
+        : `## ${listed.path}\n(could not be read: ${response.error || 'Unknown error'})`);
+    }
+
+    let text = `Answer the question below using only the GROWI pages under ${rootPath}. `
+      + 'Cite the paths of the pages you used. If the pages do not contain the answer, say so instead of guessing.\n\n';
+    text += `Question: ${args.question}\n\n`;
+    text += `${included.length} of ${total} pages under ${rootPath} are included below.`;
+    const omitted = pages.slice(maxPages);
+    if (omitted.length > 0) {
+      text += ' Other pages you can read with get_page if needed:\n';
+      text += omitted.slice(0, 50).map((page) => `- ${page.path}`).join('\n');
+    }
+    text += `\n\n${sections.join('\n\n---\n\n')}`;
+    return [userMessage(text)];
+  },
+};
+
+const draftPagePrompt: PromptDefinition = {
+  name: 'draft_page',
+  description: 'Draft a new GROWI page under a path, following the conventions of its sibling pages',
+  arguments: [
+    { name: 'path', description: 'Path of the new page, e.g. /projects/foo/meeting-2024-06-01', required: true },
+    { name: 'topic', description: 'What the page should be about' },
+    { name: 'notes', description: 'Notes or facts to include' },
+  ],
+  async build(client, args) {
+    const pagePath = normalizePath(args.path);
+    const parentPath = pagePath.substring(0, pagePath.lastIndexOf('/')) || '/';
+    const depth = parentPath === '/' ? 1 : parentPath.split('/').length;
+
+    const { pages } = await listSubtree(client, parentPath, 100);
+    // 同じ階層のページ（親の直下）を新しい順に並べ、手本にする
+    const siblings = pages
+      .filter((page) => page.path !== pagePath && page.path.split('/').length === depth + 1)
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+    const examples: string[] = [];
+    for (const sibling of siblings.slice(0, 3)) {
+      const response = await client.getPage(sibling.path);
+      if (response.ok && response.page) {
+        examples.push(pageContext(response.page, Math.floor(CONTEXT_BUDGET_CHARS / 3)));
+      }
+    }
+
+    const exists = await client.pageExists(pagePath);
+    let text = `Draft a new GROWI page at ${pagePath}${args.topic ? ` about ${args.topic}` : ''}.\n`;
+    if (exists.ok && exists.exists) {
+      text += `Note: a page already exists at ${pagePath}; propose changes to it instead of a new page.\n`;
+    }
+    text += `Follow the conventions of the other pages under ${parentPath}: title and heading structure, section order, `
+      + 'tables and checklists, tone and language. Output only the markdown body, then suggest tags. '
+      + 'After the draft is approved, create the page with mcp_growi_growi_create_page.\n';
+    if (args.notes) {
+      text += `\nInclude the following:\n${args.notes}\n`;
+    }
+
+    if (siblings.length === 0) {
+      text += `\nThere are no other pages under ${parentPath} yet, so use a clear, conventional structure.`;
+    } else {
+      text += `\nPages under ${parentPath}:\n${siblings.slice(0, 50).map((page) => `- ${page.path}`).join('\n')}\n`;
+      text += `\nThe ${examples.length} most recently updated of them, as examples:\n\n${examples.join('\n\n---\n\n')}`;
+    }
+    return [userMessage(text)];
+  },
+};
+
+const weeklyDigestPrompt: PromptDefinition = {
+  name: 'weekly_digest',
+  description: 'Write a digest of the GROWI pages changed recently, grouped by theme',
+  arguments: [
+    { name: 'days', description: 'Number of days to cover (default: 7)' },
+    { name: 'path', description: 'Only include pages under this path' },
+  ],
+  async build(client, args) {
+    const days = parseCount(args.days, 7, 90);
+    const pathPrefix = args.path ? normalizePath(args.path) : undefined;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const { pages } = await collectChangesSince(client, since, pathPrefix);
+
+    let text = `Write a digest of the GROWI changes in the last ${days} days${pathPrefix ? ` under ${pathPrefix}` : ''}. `
+      + 'Group related pages into themes, highlight new pages and notable updates, and name the people involved. '
+      + 'Where the titles are not enough, read the pages with get_page or the changes with changes_since or diff_revisions.\n\n';
+    if (pages.length === 0) {
+      text += `No pages were updated since ${since.toISOString()}.`;
+      return [userMessage(text)];
+    }
+
+    text += `Pages updated since ${since.toISOString()} (${pages.length}):\n`;
+    for (const page of pages) {
+      const isNew = page.createdAt && Date.parse(page.createdAt) >= since.getTime();
+      text += `- ${page.updatedAt.substring(0, 10)} ${page.path}${isNew ? ' (new)' : ''} by ${lastEditor(page)}\n`;
+    }
+    return [userMessage(text.trimEnd())];
+  },
+};
+
+export const builtinPrompts: PromptDefinition[] = [
+  summarizePagePrompt,
+  answerFromSubtreePrompt,
+  draftPagePrompt,
+  weeklyDigestPrompt,
+];
+
+const promptFileSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, _ and - only'),
+  description: z.string().optional(),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^\w+$/, 'Use letters, digits and _ only'),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  })).optional(),
+  // 複数行のテンプレートは行の配列でも書ける
+  template: z.union([z.string(), z.array(z.string())]),
+});
+
+/**
+ * Fill a prompt template
+ * `{{name}}` is replaced by an argument. Page content is pulled in with `{{page:/path}}` (page body),
+ * `{{pages:/path}}` (paths of the pages under a path) and `{{recent}}` / `{{recent:N}}` (recently updated pages);
+ * instead of a path, `page:` and `pages:` also take the name of an argument holding the path.
+ * Values are inserted in one pass, so placeholders inside argument values and page bodies are left as they are.
+ */
+export async function renderTemplate(client: GrowiClient, template: string, args: Record<string, string>): Promise<string> {
+  const pattern = /\{\{\s*(?:(page|pages|recent)\s*(?::\s*([^{}]*?))?|(\w+))\s*\}\}/g;
+  const replacements = new Map<string, Promise<string>>();
+
+  const resolvePath = (value: string | undefined) => {
+    const target = (value ?? '').trim();
+    return normalizePath(Object.prototype.hasOwnProperty.call(args, target) ? args[target] : target);
+  };
+
+  const expand = async (directive: string | undefined, value: string | undefined, name: string | undefined): Promise<string> => {
+    // {{page}} や {{pages}} だけの場合は同名の引数とみなす
+    if (name === undefined && value === undefined && directive !== 'recent') {
+      name = directive;
+    }
+    if (name !== undefined) {
+      return args[name] ?? '';
+    }
+    switch (directive) {
+      case 'page':
+        return pageContext(await fetchPage(client, resolvePath(value)));
+      case 'pages': {
+        const { pages, total } = await listSubtree(client, resolvePath(value), 100);
+        const more = total > pages.length ? `\n(${total - pages.length} more pages not listed)` : '';
+        return pages.map((page) => `- ${page.path}`).join('\n') + more;
+      }
+      default: {
+        const response = await client.getRecentlyUpdatedPages(parseCount(value, 20, 100), 0);
+        if (!response.ok) {
+          throw new McpError(ErrorCode.InternalError, `Error getting recently updated pages: ${response.error || 'Unknown error'}`);
+        }
+        return response.pages.map((page) => `- ${page.updatedAt.substring(0, 10)} ${page.path}`).join('\n');
+      }
+    }
+  };
+
+  for (const match of template.matchAll(pattern)) {
+    if (!replacements.has(match[0])) {
+      replacements.set(match[0], expand(match[1], match[2], match[3]));
+    }
+  }
+  // まとめて待つ（1つずつ await すると、先に失敗した後続の Promise が未処理の rejection になる）
+  const keys = [...replacements.keys()];
+  const expanded = await Promise.all(replacements.values());
+  const values = new Map(keys.map((placeholder, i) => [placeholder, expanded[i]]));
+  return template.replace(pattern, (placeholder) => values.get(placeholder) ?? placeholder);
+}
+
+/**
+ * Load the prompts defined in a directory
+ * Each `*.json` file defines one prompt: `{ "name", "description", "arguments": [{ "name", "description", "required" }], "template" }`.
+ * Invalid files are skipped with a message on stderr.
+ */
+export async function loadPromptsDirectory(dir: string): Promise<PromptDefinition[]> {
+  let files: string[];
+  try {
+    files = (await fs.promises.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    logToStderr(`Cannot read prompts directory ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+    return [];
+  }
+
+  const prompts: PromptDefinition[] = [];
+  for (const file of files) {
+    try {
+      const parsed = promptFileSchema.parse(JSON.parse(await fs.promises.readFile(path.join(dir, file), 'utf8')));
+      const template = Array.isArray(parsed.template) ? parsed.template.join('\n') : parsed.template;
+      prompts.push({
+        name: parsed.name,
+        description: parsed.description ?? `Prompt from ${file}`,
+        arguments: parsed.arguments ?? [],
+        build: async (client, args) => [userMessage(await renderTemplate(client, template, args))],
+      });
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ')
+        : (error instanceof Error ? error.message : String(error));
+      logToStderr(`Skipping invalid prompt file ${path.join(dir, file)}: ${message}`);
+    }
+  }
+  return prompts;
+}
+
+/**
+ * Built-in prompts plus those of the prompts directory; a prompt file replaces the built-in prompt of the same name
+ * The directory is read on every call so that edited prompts are picked up without a restart.
+ */
+async function promptCatalog(dir?: string): Promise<Map<string, PromptDefinition>> {
+  const catalog = new Map(builtinPrompts.map((prompt) => [prompt.name, prompt]));
+  if (dir) {
+    for (const prompt of await loadPromptsDirectory(dir)) {
+      catalog.set(prompt.name, prompt);
+    }
+  }
+  return catalog;
+}
+
+/**
+ * prompts/list handler
+ * @param dir Directory with additional prompts (GROWI_PROMPTS_DIR)
+ */
+export async function listPrompts(dir?: string) {
+  const catalog = await promptCatalog(dir);
+  return {
+    prompts: [...catalog.values()].map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  };
+}
+
+/**
+ * prompts/get handler
+ * @param client Client used to pull the page content into the prompt
+ * @param name Prompt name
+ * @param args Prompt arguments (strings, as sent by the MCP client)
+ * @param dir Directory with additional prompts (GROWI_PROMPTS_DIR)
+ */
+export async function getPrompt(client: GrowiClient, name: string, args: Record<string, string> = {}, dir?: string) {
+  const prompt = (await promptCatalog(dir)).get(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for prompt ${name}: ${missing.map((argument) => argument.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: await prompt.build(client, args),
+  };
+}
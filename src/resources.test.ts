@@ -0,0 +1,50 @@
+import { jest } from '@jest/globals';
+import { listResources, pageUri, parseResourceUri, readResource } from './resources.js';
+
+describe('growi:// resource URIs', () => {
+  it('round-trips page paths with unsafe characters', () => {
+    const path = '/projects/foo bar/100%/日本語';
+    const uri = pageUri(path);
+
+    expect(uri).toBe('growi://page/projects/foo%20bar/100%25/%E6%97%A5%E6%9C%AC%E8%AA%9E');
+    expect(parseResourceUri(uri)).toEqual({ kind: 'path', path });
+  });
+
+  it('parses page id URIs and rejects unknown schemes', () => {
+    expect(parseResourceUri('growi://page-id/abc123')).toEqual({ kind: 'id', id: 'abc123' });
+    expect(parseResourceUri('https://example.com/page')).toBeNull();
+  });
+});
+
+describe('listResources', () => {
+  it('returns a next cursor while more pages remain', async () => {
+    const mockClient = {
+      listPages: jest.fn(async () => ({
+        ok: true,
+        pages: [{ path: '/a', updatedAt: '2024-01-01' } as any],
+        meta: { total: 150, limit: 100, offset: 0 },
+      })),
+    } as any;
+
+    const result = await listResources(mockClient);
+
+    expect(result.resources[0]).toEqual(expect.objectContaining({ uri: 'growi://page/a', name: '/a' }));
+    expect(result.nextCursor).toBe('2');
+
+    await listResources(mockClient, '2');
+    expect(mockClient.listPages).toHaveBeenLastCalledWith('/', 100, 2);
+  });
+});
+
+describe('readResource', () => {
+  it('reads a page by id', async () => {
+    const mockClient = {
+      getPageById: jest.fn(async () => ({ ok: true, page: { path: '/a', revision: { body: '# A' } } })),
+    } as any;
+
+    const result = await readResource(mockClient, 'growi://page-id/abc');
+
+    expect(mockClient.getPageById).toHaveBeenCalledWith('abc');
+    expect(result.contents[0].text).toBe('# A');
+  });
+});
@@ -0,0 +1,128 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { GrowiClient } from './growi-client.js';
+import { GrowiPage } from './types/growi.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const PAGE_URI_PREFIX = 'growi://page/';
+export const PAGE_ID_URI_PREFIX = 'growi://page-id/';
+
+// Number of pages returned per resources/list call
+const RESOURCES_PAGE_SIZE = 100;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: 'growi://page/{+path}',
+    name: 'GROWI page by path',
+    description: 'A GROWI page addressed by its path, e.g. growi://page/projects/foo',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'growi://page-id/{id}',
+    name: 'GROWI page by id',
+    description: 'A GROWI page addressed by its page id',
+    mimeType: 'text/markdown',
+  },
+];
+
+export type GrowiResourceRef =
+  | { kind: 'path'; path: string }
+  | { kind: 'id'; id: string };
+
+/**
+ * Build the growi://page/ URI for a page path
+ * Each path segment is percent-encoded so that the URI can be decoded back losslessly
+ */
+export function pageUri(path: string): string {
+  const segments = path.split('/').filter((segment) => segment !== '');
+  return PAGE_URI_PREFIX + segments.map((segment) => encodeURIComponent(segment)).join('/');
+}
+
+export function pageIdUri(id: string): string {
+  return PAGE_ID_URI_PREFIX + encodeURIComponent(id);
+}
+
+/**
+ * Parse a growi:// resource URI
+ * @returns null when the URI is not a GROWI page URI
+ */
+export function parseResourceUri(uri: string): GrowiResourceRef | null {
+  try {
+    if (uri.startsWith(PAGE_URI_PREFIX)) {
+      const rest = uri.substring(PAGE_URI_PREFIX.length);
+      const segments = rest.split('/').filter((segment) => segment !== '');
+      return { kind: 'path', path: '/' + segments.map((segment) => decodeURIComponent(segment)).join('/') };
+    }
+    if (uri.startsWith(PAGE_ID_URI_PREFIX)) {
+      const id = decodeURIComponent(uri.substring(PAGE_ID_URI_PREFIX.length));
+      return id ? { kind: 'id', id } : null;
+    }
+  } catch (error) {
+    // 不正なパーセントエンコーディング
+    logToStderr(`Failed to decode resource URI ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return null;
+}
+
+function toResource(page: GrowiPage) {
+  return {
+    uri: pageUri(page.path),
+    name: page.path,
+    mimeType: 'text/markdown',
+    description: page.updatedAt ? `Last updated ${page.updatedAt}` : undefined,
+  };
+}
+
+/**
+ * resources/list handler
+ * The cursor is the next 1-based page number of /_api/v3/pages/list
+ */
+export async function listResources(client: GrowiClient, cursor?: string) {
+  const page = cursor ? parseInt(cursor, 10) : 1;
+  if (isNaN(page) || page < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+
+  const response = await client.listPages('/', RESOURCES_PAGE_SIZE, page);
+  if (!response.ok) {
+    throw new McpError(ErrorCode.InternalError, `Error listing pages: ${response.error || 'Unknown error'}`);
+  }
+
+  const total = response.meta?.total ?? 0;
+  const hasMore = response.pages.length > 0 && page * RESOURCES_PAGE_SIZE < total;
+
+  return {
+    resources: response.pages.map(toResource),
+    ...(hasMore ? { nextCursor: String(page + 1) } : {}),
+  };
+}
+
+/**
+ * resources/read handler
+ */
+export async function readResource(client: GrowiClient, uri: string) {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+
+  const response = ref.kind === 'path'
+    ? await client.getPage(ref.path)
+    : await client.getPageById(ref.id);
+
+  if (!response.ok || !response.page?.path) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${response.error || 'no page returned'})`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'text/markdown',
+        text: response.page.revision?.body || '',
+      },
+    ],
+  };
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jest } from '@jest/globals';
+import { LocalIndex, parseQuery, syncLocalIndex, tokenize } from './search-index.js';
+
+const doc = (pageId: string, pagePath: string, body: string, updatedAt: string = '2024-06-01T00:00:00.000Z') => ({
+  pageId, path: pagePath, revisionId: `rev-${pageId}`, updatedAt, body,
+});
+
+const search = (index: LocalIndex, query: string, options: Parameters<LocalIndex['search']>[1] = {}) =>
+  index.search(parseQuery(query), options).hits.map((hit) => hit.path);
+
+describe('tokenize', () => {
+  it('lowercases words and splits CJK text into bigrams', () => {
+    expect(tokenize('Deploy the API-Server')).toEqual(['deploy', 'the', 'api', 'server']);
+    expect(tokenize('議事録 ＡＢＣ')).toEqual(['議事', '事録', 'abc']);
+    expect(tokenize('の')).toEqual(['の']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('parses phrases, prefixes and multi-token words', () => {
+    expect(parseQuery('"release notes" depl*')).toEqual([
+      { tokens: ['release', 'notes'], prefix: false, source: 'release notes' },
+      { tokens: ['depl'], prefix: true, source: 'depl' },
+    ]);
+    expect(parseQuery('議事録')[0].tokens).toEqual(['議事', '事録']);
+    expect(() => parseQuery('  ** ')).toThrow('no searchable words');
+  });
+});
+
+describe('LocalIndex', () => {
+  let index: LocalIndex;
+
+  beforeEach(() => {
+    index = new LocalIndex();
+    index.upsert(doc('a', '/ops/deploy', 'How to deploy the server.\nDeploy again after release notes are written.'));
+    index.upsert(doc('b', '/ops/release', 'Release notes for the server.'));
+    index.upsert(doc('c', '/team/meetings', '週次の議事録です。deployment was discussed.'));
+    index.upsert(doc('d', '/team/notes', 'Notes about the release and other notes.'));
+  });
+
+  it('ranks the pages matching every word with BM25', () => {
+    expect(search(index, 'deploy')).toEqual(['/ops/deploy']);
+    expect(search(index, 'server')).toEqual(['/ops/release', '/ops/deploy']);
+    // 語の出現回数が多い短いページほど上位になる
+    expect(search(index, 'release notes')).toEqual(['/team/notes', '/ops/release', '/ops/deploy']);
+  });
+
+  it('matches phrases only with the words in order', () => {
+    expect(search(index, '"release notes"')).toEqual(['/ops/release', '/ops/deploy']);
+    expect(search(index, '"notes release"')).toEqual([]);
+  });
+
+  it('expands prefixes and finds Japanese substrings', () => {
+    expect(search(index, 'deploy*')).toEqual(['/ops/deploy', '/team/meetings']);
+    expect(search(index, '議事録')).toEqual(['/team/meetings']);
+    expect(search(index, '議')).toEqual(['/team/meetings']);
+    expect(search(index, '録議')).toEqual([]);
+  });
+
+  it('filters by path and searches the path itself', () => {
+    expect(search(index, 'notes', { path: '/team' })).toEqual(['/team/notes']);
+    expect(search(index, 'notes', { excludePaths: ['/team'] })).toEqual(['/ops/release', '/ops/deploy']);
+    expect(search(index, 'meetings')).toEqual(['/team/meetings']);
+  });
+
+  it('replaces and removes pages', () => {
+    index.upsert(doc('a', '/ops/deploy', 'Rewritten without the word.'));
+    expect(search(index, 'deploy')).toEqual(['/ops/deploy']);
+    expect(search(index, 'server')).toEqual(['/ops/release']);
+
+    expect(index.remove('b')).toBe(true);
+    expect(search(index, 'server')).toEqual([]);
+  });
+
+  it('returns a snippet around the match', () => {
+    const [hit] = index.search(parseQuery('"release notes"'), { path: '/ops/deploy' }).hits;
+    expect(hit.snippet).toContain('after release notes are written');
+  });
+
+  it('persists the index to a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-index-'));
+    try {
+      const filePath = path.join(dir, 'test.index.json');
+      const stored = new LocalIndex(filePath);
+      stored.upsert(doc('a', '/ops/deploy', 'How to deploy'));
+      stored.syncedUntil = '2024-06-01T00:00:00.000Z';
+      stored.crawlComplete = true;
+      await stored.save();
+
+      const loaded = new LocalIndex(filePath);
+      expect(loaded.size).toBe(1);
+      expect(loaded.syncedUntil).toBe('2024-06-01T00:00:00.000Z');
+      expect(search(loaded, 'deploy')).toEqual(['/ops/deploy']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('saves concurrently without clashing temporary files', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-index-'));
+    try {
+      const stored = new LocalIndex(path.join(dir, 'test.index.json'));
+      stored.upsert(doc('a', '/ops/deploy', 'How to deploy'));
+
+      await Promise.all([stored.save(), stored.save(), stored.save()]);
+
+      expect(fs.readdirSync(dir)).toEqual(['test.index.json']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('syncLocalIndex', () => {
+  const page = (id: string, pagePath: string, body: string, updatedAt: string) => ({
+    _id: id,
+    path: pagePath,
+    revision: { _id: `rev-${id}-${updatedAt}`, body, author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+    creator: { _id: 'u1', name: 'alice' },
+    createdAt: '',
+    updatedAt,
+  });
+
+  const mockClient = (pages: ReturnType<typeof page>[]) => ({
+    listPages: jest.fn(async () => ({ ok: true, pages, meta: { total: pages.length, limit: 100, offset: 0 } })),
+    getRecentlyUpdatedPages: jest.fn(async (limit: number, offset: number) => {
+      const sorted = [...pages].sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+      return { ok: true, pages: sorted.slice(offset, offset + limit), meta: { total: pages.length, limit, offset } };
+    }),
+    getPage: jest.fn(async (pagePath: string) => {
+      const found = pages.find((candidate) => candidate.path === pagePath);
+      return found ? { ok: true, page: found } : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } };
+    }),
+  }) as any;
+
+  it('crawls every page first, then fetches only the pages updated since', async () => {
+    const pages = [
+      page('a', '/ops/deploy', 'deploy the server', '2024-06-01T00:00:00.000Z'),
+      page('b', '/ops/release', 'release notes', '2024-06-02T00:00:00.000Z'),
+      page('t', '/trash/old', 'gone', '2024-06-03T00:00:00.000Z'),
+    ];
+    const client = mockClient(pages);
+    const index = new LocalIndex();
+
+    const first = await syncLocalIndex(client, index);
+    expect(first).toMatchObject({ mode: 'full', indexed: 2, complete: true, pages: 2, syncedUntil: '2024-06-02T00:00:00.000Z' });
+
+    pages[0] = page('a', '/ops/deploy', 'deploy with kubernetes', '2024-06-05T00:00:00.000Z');
+    pages[1] = page('b', '/trash/ops/release', 'release notes', '2024-06-04T00:00:00.000Z');
+    client.getPage.mockClear();
+
+    const second = await syncLocalIndex(client, index);
+    expect(second).toMatchObject({ mode: 'incremental', indexed: 1, removed: 1, pages: 1, syncedUntil: '2024-06-05T00:00:00.000Z' });
+    expect(client.getPage).toHaveBeenCalledTimes(1);
+    expect(search(index, 'kubernetes')).toEqual(['/ops/deploy']);
+    expect(search(index, 'release')).toEqual([]);
+  });
+
+  it('runs one sync per index at a time and shares it with overlapping calls', async () => {
+    const client = mockClient([page('a', '/ops/deploy', 'deploy the server', '2024-06-01T00:00:00.000Z')]);
+    const index = new LocalIndex();
+
+    const [first, second] = await Promise.all([syncLocalIndex(client, index), syncLocalIndex(client, index)]);
+
+    expect(second).toBe(first);
+    expect(client.listPages).toHaveBeenCalledTimes(1);
+    expect(await syncLocalIndex(client, index)).toMatchObject({ mode: 'incremental' });
+  });
+
+  it('stops at maxPages and continues the crawl on the next sync', async () => {
+    const pages = [1, 2, 3].map((n) => page(`p${n}`, `/p/${n}`, `page ${n}`, `2024-06-0${n}T00:00:00.000Z`));
+    const client = mockClient(pages);
+    const index = new LocalIndex();
+
+    expect(await syncLocalIndex(client, index, { maxPages: 2 })).toMatchObject({ mode: 'full', indexed: 2, complete: false });
+    expect(index.crawlComplete).toBe(false);
+    expect(await syncLocalIndex(client, index, { maxPages: 2 })).toMatchObject({ mode: 'full', indexed: 1, unchanged: 2, complete: true });
+    expect(index.crawlComplete).toBe(true);
+  });
+});
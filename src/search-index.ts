@@ -0,0 +1,488 @@
+/**
+ * Local full-text index of a GROWI wiki
+ * A BM25-ranked inverted index with term positions, kept in one JSON file per GROWI instance and token.
+ * It is filled by crawling listPages/getPage and refreshed from getRecentlyUpdatedPages, and is queried
+ * without any request to GROWI, so it works when GROWI's Elasticsearch search is disabled or offline.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { GrowiClient } from './growi-client.js';
+import { errorFromInfo, InvalidArgumentError } from './errors.js';
+import { GrowiPage } from './types/growi.js';
+import { collectChangesSince } from './tools/changes-since.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+// 保存形式を変えたら上げる。古い形式のファイルは読み捨てて作り直す
+const PERSIST_VERSION = 1;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Most vocabulary terms a prefix query expands to
+const MAX_PREFIX_EXPANSION = 500;
+// Pages requested per /_api/v3/pages/list call while crawling
+const CRAWL_PAGE_SIZE = 100;
+const SNIPPET_CHARS = 160;
+
+export interface IndexedPage {
+  pageId: string;
+  path: string;
+  revisionId: string;
+  updatedAt: string;
+  body: string;
+  // Number of indexed tokens (path and body)
+  length: number;
+}
+
+export interface LocalSearchHit {
+  pageId: string;
+  path: string;
+  score: number;
+  updatedAt: string;
+  revisionId: string;
+  snippet: string;
+}
+
+// One required part of a query: a single term, a phrase, or either with a prefix as its last token
+export interface QueryClause {
+  tokens: string[];
+  prefix: boolean;
+  // Normalized query text of the clause, used to place the snippet
+  source: string;
+}
+
+export interface SyncSummary {
+  mode: 'full' | 'incremental';
+  // Pages fetched with getPage and (re)indexed
+  indexed: number;
+  removed: number;
+  unchanged: number;
+  // False if the crawl stopped at maxPages; the next sync continues it
+  complete: boolean;
+  pages: number;
+  syncedUntil?: string;
+}
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]/u;
+const SEGMENT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]+|[\p{L}\p{N}_]+/gu;
+
+/**
+ * Split text into index tokens
+ * Words are lowercased (after NFKC normalization); runs of CJK characters, which have no spaces, become
+ * overlapping bigrams so that any substring of two or more characters can be found as a phrase.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [segment] of text.normalize('NFKC').toLowerCase().matchAll(SEGMENT_PATTERN)) {
+    if (!CJK_PATTERN.test(segment[0])) {
+      tokens.push(segment);
+      continue;
+    }
+    const chars = [...segment];
+    if (chars.length === 1) {
+      tokens.push(segment);
+    }
+    for (let index = 0; index + 1 < chars.length; index++) {
+      tokens.push(chars[index] + chars[index + 1]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a local_search query
+ * `"quoted words"` is a phrase, `word*` a prefix; every clause must match. Words that tokenize to several
+ * tokens (`foo-bar`, Japanese text) are phrases too.
+ */
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    let text = (match[1] ?? match[2]).trim();
+    let prefix = text.endsWith('*');
+    text = text.replace(/\*+$/, '');
+    const tokens = tokenize(text);
+    if (tokens.length === 0) continue;
+    // CJK の1文字はバイグラムの先頭として探す
+    if (tokens.length === 1 && [...tokens[0]].length === 1 && CJK_PATTERN.test(tokens[0])) prefix = true;
+    clauses.push({ tokens, prefix, source: text.normalize('NFKC').toLowerCase() });
+  }
+  if (clauses.length === 0) {
+    throw new InvalidArgumentError(`The query has no searchable words: ${query}`);
+  }
+  return clauses;
+}
+
+/**
+ * Inverted index of the pages of one GROWI instance
+ */
+export class LocalIndex {
+  private docs = new Map<string, IndexedPage>();
+  // term -> pageId -> positions
+  private postings = new Map<string, Map<string, number[]>>();
+  private totalLength = 0;
+  // Latest updatedAt the index is known to be current up to (incremental syncs start here)
+  syncedUntil?: string;
+  // False while a full crawl has not finished
+  crawlComplete = false;
+
+  /**
+   * @param filePath File the index is stored in (in memory only when unset)
+   */
+  constructor(readonly filePath?: string) {
+    this.load();
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  get(pageId: string): IndexedPage | undefined {
+    return this.docs.get(pageId);
+  }
+
+  pageIds(): string[] {
+    return [...this.docs.keys()];
+  }
+
+  /**
+   * Add or replace a page
+   */
+  upsert(page: Omit<IndexedPage, 'length'>): void {
+    this.remove(page.pageId);
+    // パスも検索対象にする。本文との間は位置を1つ空けてフレーズが跨がらないようにする
+    const pathTokens = tokenize(page.path);
+    const tokens = [...pathTokens, ...tokenize(page.body)];
+    const doc = { ...page, length: tokens.length };
+    tokens.forEach((token, index) => {
+      const position = index < pathTokens.length ? index : index + 1;
+      let postings = this.postings.get(token);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(token, postings);
+      }
+      const positions = postings.get(page.pageId);
+      if (positions) {
+        positions.push(position);
+      } else {
+        postings.set(page.pageId, [position]);
+      }
+    });
+    this.docs.set(page.pageId, doc);
+    this.totalLength += doc.length;
+  }
+
+  /**
+   * Remove a page
+   * @returns Whether the page was indexed
+   */
+  remove(pageId: string): boolean {
+    const doc = this.docs.get(pageId);
+    if (!doc) return false;
+    for (const token of new Set([...tokenize(doc.path), ...tokenize(doc.body)])) {
+      const postings = this.postings.get(token);
+      postings?.delete(pageId);
+      if (postings && postings.size === 0) this.postings.delete(token);
+    }
+    this.docs.delete(pageId);
+    this.totalLength -= doc.length;
+    return true;
+  }
+
+  /**
+   * Documents containing a clause, with the number of times it occurs in each
+   */
+  private matchClause(clause: QueryClause): Map<string, number> {
+    const slots = clause.tokens.map((token, index) => {
+      const terms = clause.prefix && index === clause.tokens.length - 1
+        ? [...this.postings.keys()].filter((term) => term.startsWith(token)).slice(0, MAX_PREFIX_EXPANSION)
+        : [token];
+      // 展開した語の出現位置を文書ごとにまとめる
+      const positions = new Map<string, Set<number>>();
+      for (const term of terms) {
+        for (const [pageId, termPositions] of this.postings.get(term) ?? []) {
+          let set = positions.get(pageId);
+          if (!set) {
+            set = new Set();
+            positions.set(pageId, set);
+          }
+          termPositions.forEach((position) => set!.add(position));
+        }
+      }
+      return positions;
+    });
+
+    const counts = new Map<string, number>();
+    for (const [pageId, starts] of slots[0]) {
+      let count = 0;
+      for (const start of starts) {
+        if (slots.every((slot, offset) => slot.get(pageId)?.has(start + offset))) count++;
+      }
+      if (count > 0) counts.set(pageId, count);
+    }
+    return counts;
+  }
+
+  /**
+   * Rank the pages matching every clause with BM25
+   * @param options path: only pages at or below this path; excludePaths: skip pages at or below these paths
+   */
+  search(
+    clauses: QueryClause[],
+    options: { path?: string; excludePaths?: string[]; limit?: number } = {}
+  ): { hits: LocalSearchHit[]; total: number } {
+    const within = (pagePath: string, root: string) =>
+      root === '/' || pagePath === root || pagePath.startsWith(root + '/');
+    const averageLength = this.docs.size > 0 ? this.totalLength / this.docs.size : 0;
+
+    let scores: Map<string, number> | undefined;
+    for (const clause of clauses) {
+      const counts = this.matchClause(clause);
+      const idf = Math.log(1 + (this.docs.size - counts.size + 0.5) / (counts.size + 0.5));
+      const next = new Map<string, number>();
+      for (const [pageId, tf] of counts) {
+        if (scores && !scores.has(pageId)) continue;
+        const length = this.docs.get(pageId)!.length;
+        const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (averageLength > 0 ? length / averageLength : 1)));
+        next.set(pageId, (scores?.get(pageId) ?? 0) + score);
+      }
+      scores = next;
+    }
+
+    const ranked = [...(scores ?? new Map<string, number>()).entries()]
+      .map(([pageId, score]) => ({ doc: this.docs.get(pageId)!, score }))
+      .filter(({ doc }) => (!options.path || within(doc.path, options.path))
+        && !(options.excludePaths ?? []).some((excluded) => within(doc.path, excluded)))
+      .sort((a, b) => b.score - a.score || a.doc.path.localeCompare(b.doc.path));
+
+    return {
+      total: ranked.length,
+      hits: ranked.slice(0, options.limit ?? 10).map(({ doc, score }) => ({
+        pageId: doc.pageId,
+        path: doc.path,
+        score: Math.round(score * 1000) / 1000,
+        updatedAt: doc.updatedAt,
+        revisionId: doc.revisionId,
+        snippet: snippetOf(doc.body, clauses),
+      })),
+    };
+  }
+
+  /**
+   * Write the index to its file (no-op without one)
+   */
+  async save(): Promise<void> {
+    if (!this.filePath) return;
+    const data = JSON.stringify({
+      version: PERSIST_VERSION,
+      syncedUntil: this.syncedUntil,
+      crawlComplete: this.crawlComplete,
+      docs: [...this.docs.values()],
+      postings: [...this.postings.entries()].map(([term, postings]) => [term, [...postings.entries()]]),
+    });
+    // 保存が重なっても互いの一時ファイルを上書きしないよう、保存ごとに別名にする
+    const tmpPath = `${this.filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // ページ本文を含むため所有者のみ読み書き可能にする
+    await fs.promises.writeFile(tmpPath, data, { mode: 0o600 });
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data?.version !== PERSIST_VERSION || !Array.isArray(data.docs) || !Array.isArray(data.postings)) return;
+      for (const doc of data.docs as IndexedPage[]) {
+        this.docs.set(doc.pageId, doc);
+        this.totalLength += doc.length;
+      }
+      for (const [term, postings] of data.postings as [string, [string, number[]][]][]) {
+        this.postings.set(term, new Map(postings));
+      }
+      this.syncedUntil = data.syncedUntil;
+      this.crawlComplete = Boolean(data.crawlComplete);
+      logToStderr(`Loaded local search index of ${this.docs.size} pages from ${this.filePath}`);
+    } catch (error) {
+      logToStderr(`Ignoring unreadable search index ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Excerpt of a body around the first clause found in it
+ */
+function snippetOf(body: string, clauses: QueryClause[]): string {
+  const text = body.normalize('NFKC');
+  const lower = text.toLowerCase();
+  let at = -1;
+  for (const candidate of [...clauses.map((clause) => clause.source), ...clauses.map((clause) => clause.tokens[0])]) {
+    at = lower.indexOf(candidate);
+    if (at >= 0) break;
+  }
+  const start = Math.max(0, at - SNIPPET_CHARS / 4);
+  const excerpt = text.substring(start, start + SNIPPET_CHARS).replace(/\s+/g, ' ').trim();
+  return (start > 0 ? '…' : '') + excerpt + (start + SNIPPET_CHARS < text.length ? '…' : '');
+}
+
+// 同じインデックスファイルは一度だけ読み込み、セッションをまたいで共有する
+const openIndexes = new Map<string, LocalIndex>();
+
+/**
+ * The local index of a client's GROWI instance and token
+ * @param dir Directory of the index files (GROWI_INDEX_DIR)
+ */
+export function localIndexFor(client: GrowiClient, dir: string): LocalIndex {
+  const filePath = path.join(dir, `${client.storageId}.index.json`);
+  let index = openIndexes.get(filePath);
+  if (!index) {
+    index = new LocalIndex(filePath);
+    openIndexes.set(filePath, index);
+  }
+  return index;
+}
+
+/**
+ * Whether a listed or recent page differs from its indexed copy
+ */
+function isChanged(index: LocalIndex, page: GrowiPage): boolean {
+  const indexed = index.get(page._id);
+  return !indexed || indexed.path !== page.path || indexed.updatedAt !== page.updatedAt;
+}
+
+/**
+ * Fetch a page and put it in the index; pages moved to the trash or gone are removed
+ */
+async function indexPage(client: GrowiClient, index: LocalIndex, page: GrowiPage): Promise<'indexed' | 'removed' | 'skipped'> {
+  const drop = () => (index.remove(page._id) ? 'removed' : 'skipped');
+  if (page.path === '/trash' || page.path.startsWith('/trash/')) return drop();
+
+  const response = await client.getPage(page.path);
+  if (!response.ok) {
+    if (response.errorInfo?.code === 'NOT_FOUND') return drop();
+    throw errorFromInfo(`Error getting page (path: ${page.path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+  }
+  index.upsert({
+    pageId: response.page._id,
+    path: response.page.path,
+    revisionId: response.page.revision._id,
+    updatedAt: response.page.updatedAt,
+    body: response.page.revision.body,
+  });
+  return 'indexed';
+}
+
+const latest = (a: string | undefined, b: string | undefined) =>
+  !a ? b : !b ? a : Date.parse(b) > Date.parse(a) ? b : a;
+
+// 実行中の同期。インデックスはセッション間で共有されるため、同じインデックスの同期は同時に1つだけ走らせる
+const runningSyncs = new WeakMap<LocalIndex, Promise<SyncSummary>>();
+
+/**
+ * Bring the index up to date with GROWI and save it
+ * The first sync (and any sync with full, or after an unfinished crawl) lists every page and fetches the
+ * ones that are new or changed, removing pages that no longer exist. Later syncs only fetch the pages
+ * updated since the last one, from the recently updated pages.
+ * A call made while the index is already syncing waits for that sync and returns its summary.
+ * @param options full: crawl everything; maxPages: most pages to fetch in this sync
+ */
+export function syncLocalIndex(
+  client: GrowiClient,
+  index: LocalIndex,
+  options: { full?: boolean; maxPages?: number } = {}
+): Promise<SyncSummary> {
+  const running = runningSyncs.get(index);
+  if (running) return running;
+  const sync = runSync(client, index, options).finally(() => runningSyncs.delete(index));
+  runningSyncs.set(index, sync);
+  return sync;
+}
+
+async function runSync(
+  client: GrowiClient,
+  index: LocalIndex,
+  options: { full?: boolean; maxPages?: number }
+): Promise<SyncSummary> {
+  const maxPages = options.maxPages ?? 1000;
+  const summary: SyncSummary = { mode: 'incremental', indexed: 0, removed: 0, unchanged: 0, complete: true, pages: 0 };
+  let syncedUntil = index.syncedUntil;
+
+  let failed = false;
+  try {
+    let incremental = !options.full && index.crawlComplete && index.syncedUntil !== undefined;
+    if (incremental) {
+      const changes = await collectChangesSince(client, new Date(index.syncedUntil!));
+      // 変更が多すぎて途中までしか辿れなかった場合は全件を確認する
+      if (!changes.complete) {
+        incremental = false;
+      } else {
+        for (const page of changes.pages) {
+          syncedUntil = latest(syncedUntil, page.updatedAt);
+          if (!isChanged(index, page)) {
+            summary.unchanged++;
+          } else if (summary.indexed >= maxPages) {
+            summary.complete = false;
+          } else {
+            const result = await indexPage(client, index, page);
+            if (result !== 'skipped') summary[result]++;
+          }
+        }
+        if (summary.complete) index.syncedUntil = syncedUntil;
+      }
+    }
+
+    if (!incremental) {
+      summary.mode = 'full';
+      index.crawlComplete = false;
+      const listed = new Set<string>();
+      for (let pageNumber = 1; ; pageNumber++) {
+        const response = await client.listPages('/', CRAWL_PAGE_SIZE, pageNumber);
+        if (!response.ok) {
+          throw errorFromInfo(`Error listing pages: ${response.error || 'Unknown error'}`, response.errorInfo);
+        }
+        for (const page of response.pages) {
+          if (page.path === '/trash' || page.path.startsWith('/trash/')) continue;
+          listed.add(page._id);
+          syncedUntil = latest(syncedUntil, page.updatedAt);
+          if (!isChanged(index, page)) {
+            summary.unchanged++;
+          } else if (summary.indexed >= maxPages) {
+            summary.complete = false;
+          } else {
+            const result = await indexPage(client, index, page);
+            if (result !== 'skipped') summary[result]++;
+          }
+        }
+        const total = response.meta?.total ?? 0;
+        if (response.pages.length < CRAWL_PAGE_SIZE || pageNumber * CRAWL_PAGE_SIZE >= total) break;
+      }
+
+      if (summary.complete) {
+        for (const pageId of index.pageIds()) {
+          if (!listed.has(pageId) && index.remove(pageId)) summary.removed++;
+        }
+        index.crawlComplete = true;
+        index.syncedUntil = syncedUntil;
+      }
+    }
+  } catch (error) {
+    failed = true;
+    throw error;
+  } finally {
+    // 中断やエラーでも、それまでに取り込んだページは保存しておく
+    try {
+      await index.save();
+    } catch (saveError) {
+      // 同期自体が失敗していれば、その原因のエラーを優先して返す
+      if (!failed) throw saveError;
+      logToStderr(`Failed to save the local index: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
+    }
+  }
+
+  summary.pages = index.size;
+  summary.syncedUntil = index.syncedUntil;
+  logToStderr(`Local index ${summary.mode} sync: ${summary.indexed} indexed, ${summary.removed} removed, ${index.size} pages`);
+  return summary;
+}
@@ -0,0 +1,19 @@
+import { jest } from '@jest/globals';
+import { appendToPage } from './append-to-page.js';
+
+describe('appendToPage', () => {
+  it('appends to the page without requiring a revision id', async () => {
+    const mockClient = {
+      appendToPage: jest.fn(async () => ({
+        ok: true,
+        page: { path: '/notes' } as any,
+        revision: { _id: 'rev3', body: 'old\nnew' },
+      })),
+    } as any;
+
+    const result = await appendToPage(mockClient, { path: '/notes', body: 'new' });
+
+    expect(mockClient.appendToPage).toHaveBeenCalledWith('/notes', 'new', undefined);
+    expect(result.content[0].text).toContain('Appended to page: /notes');
+  });
+});
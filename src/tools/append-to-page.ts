@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, pageUpdateOutput, pageUpdateOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const appendToPageSchema = z.object({
+  path: z.string().describe('Path of the page to append to'),
+  body: z.string().describe('Markdown to append to the end of the page'),
+  revision_id: z.string().optional().describe('Revision id the append is based on; the append is refused if the page changed since'),
+  format: formatSchema,
+});
+
+export const appendToPageOutputSchema = pageUpdateOutputSchema;
+
+export type AppendToPageParams = z.infer<typeof appendToPageSchema>;
+
+export async function appendToPage(
+  client: GrowiClient,
+  params: AppendToPageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = appendToPageSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    logToStderr(`Appending ${parsed.body.length} characters to page: ${path}`);
+    const response = await client.appendToPage(path, parsed.body, parsed.revision_id);
+
+    if (!response.ok) {
+      return errorResult(`Error appending to page (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    return toolResult(parsed.format, pageUpdateOutput(response), {
+      text: () => `Appended to page: ${response.page.path}\nRevision: ${response.revision._id}`,
+      markdown: () => `Appended to page \`${response.page.path}\` (revision \`${response.revision._id}\`)`,
+    });
+  } catch (error) {
+    console.error('Exception in appendToPage tool:', error);
+    return errorResult(`Error appending to page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const appendToPageTool = defineTool({
+  name: 'append_to_page',
+  description: 'Append markdown to the end of a GROWI page',
+  schema: appendToPageSchema,
+  outputSchema: appendToPageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (params, { client }) => appendToPage(client, params),
+});
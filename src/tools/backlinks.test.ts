@@ -0,0 +1,65 @@
+import { jest } from '@jest/globals';
+import { backlinks } from './backlinks.js';
+
+const page = (path: string, body: string = '') => ({
+  _id: `id${path.replace(/\//g, '-')}`,
+  path,
+  revision: { _id: 'r1', body, author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (pages: ReturnType<typeof page>[]) => ({
+  baseURL: 'https://wiki.example.com',
+  getPage: jest.fn(async (path: string) => {
+    const found = pages.find((candidate) => candidate.path === path);
+    return found ? { ok: true, page: found } : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } };
+  }),
+  listPages: jest.fn(async (path: string) => {
+    const listed = pages.filter((candidate) => candidate.path === path || candidate.path.startsWith(path === '/' ? '/' : path + '/'));
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, offset: 0 } };
+  }),
+}) as any;
+
+describe('backlinks', () => {
+  const pages = [
+    page('/docs/setup', 'Read the [FAQ](/docs/faq) first.\n\nMore in [[/docs/faq/install]].'),
+    page('/docs/faq', 'Back to [setup](../setup)'),
+    page('/docs/faq/install', 'See [faq](/docs/faq).'),
+    page('/blog/post', 'Unrelated [[/docs/setup]] and [faq](https://wiki.example.com/docs/faq#top)'),
+  ];
+
+  it('finds the pages linking to a path, including relative and absolute URL links', async () => {
+    const result = await backlinks(mockClient(pages), { path: '/docs/faq' });
+
+    const data = result.structuredContent as any;
+    expect(data).toMatchObject({ path: '/docs/faq', scope: '/', scanned: 4, complete: true });
+    expect(data.backlinks.map((backlink: any) => backlink.path)).toEqual(['/docs/setup', '/docs/faq/install', '/blog/post']);
+    expect(data.backlinks[0].links).toEqual([{ line: 1, raw: '/docs/faq', text: 'FAQ', target: '/docs/faq' }]);
+    expect(result.content[0].text).toContain('3 pages under / link to /docs/faq');
+  });
+
+  it('limits the scan to a scope and can include links to descendants', async () => {
+    const client = mockClient(pages);
+
+    const result = await backlinks(client, { path: 'docs/faq', scope: '/docs', include_descendants: true });
+
+    const data = result.structuredContent as any;
+    expect(data.scanned).toBe(3);
+    expect(data.backlinks[0]).toEqual({
+      path: '/docs/setup',
+      links: [
+        { line: 1, raw: '/docs/faq', text: 'FAQ', target: '/docs/faq' },
+        { line: 3, raw: '/docs/faq/install', text: '/docs/faq/install', target: '/docs/faq/install' },
+      ],
+    });
+    expect(client.listPages).toHaveBeenCalledWith('/docs', 100, 1);
+  });
+
+  it('finds links to a path that no longer exists', async () => {
+    const result = await backlinks(mockClient(pages), { path: '/docs/setup/old' });
+
+    expect(result.content[0].text).toBe('No pages under / link to /docs/setup/old');
+  });
+});
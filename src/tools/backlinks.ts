@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { extractLinks } from '../links.js';
+import { formatSchema, markdownTable, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+import { maxPagesOf, scanSubtree } from './page-links.js';
+
+export const backlinksSchema = z.object({
+  path: z.string().describe('Path of the linked page; it does not need to exist (e.g. an old path after a move)'),
+  scope: z.string().optional().describe('Only look for links in pages at or below this path (default: /)'),
+  include_descendants: z.boolean().optional().describe('Also count links to pages below the path (default: false)'),
+  max_pages: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to scan (default: 200, max: 1000)'),
+  format: formatSchema,
+});
+
+export const backlinksOutputSchema = z.object({
+  path: z.string(),
+  scope: z.string(),
+  scanned: z.number().describe('Number of pages whose bodies were scanned'),
+  total: z.number().describe('Number of pages in the scope'),
+  complete: z.boolean().describe('False if the scan stopped at max_pages'),
+  backlinks: z.array(z.object({
+    path: z.string().describe('Path of the linking page'),
+    links: z.array(z.object({
+      line: z.number(),
+      raw: z.string().describe('Link target as written'),
+      text: z.string(),
+      target: z.string().describe('Path of the linked page'),
+    })),
+  })),
+});
+
+export type BacklinksParams = z.infer<typeof backlinksSchema>;
+
+export async function backlinks(
+  client: GrowiClient,
+  params: BacklinksParams
+): Promise<ToolResult> {
+  try {
+    const parsed = backlinksSchema.parse(params);
+    const path = normalizePagePath(parsed.path);
+    const scope = normalizePagePath(parsed.scope || '/');
+    const includeDescendants = parsed.include_descendants ?? false;
+
+    // パーマリンクで参照されている場合に備え、存在すればページ ID も照合する
+    const target = await client.getPage(path);
+    const targetId = target.ok ? target.page._id : undefined;
+    const matches = (linkPath: string | undefined, pageId: string | undefined) =>
+      (targetId !== undefined && pageId === targetId)
+      || linkPath === path
+      || (includeDescendants && linkPath !== undefined && linkPath.startsWith(path === '/' ? '/' : path + '/'));
+
+    const scan = await scanSubtree(client, scope, maxPagesOf(parsed.max_pages));
+    const found: z.infer<typeof backlinksOutputSchema>['backlinks'] = [];
+    for (const page of scan.pages) {
+      if (page.path === path) continue;
+      const links = extractLinks(page.revision.body, page.path, { baseUrl: client.baseURL })
+        .filter((link) => matches(link.path, link.pageId))
+        .map((link) => ({ line: link.line, raw: link.raw, text: link.text, target: link.path ?? path }));
+      if (links.length > 0) found.push({ path: page.path, links });
+    }
+
+    const data = { path, scope, scanned: scan.pages.length, total: scan.total, complete: scan.complete, backlinks: found };
+    const where = `${includeDescendants ? `${path} or pages below it` : path}`;
+    const notice = scan.complete
+      ? ''
+      : `\n\nScanned only ${scan.pages.length} of ${scan.total} pages under ${scope}; narrow the scope or raise max_pages.`;
+    return toolResult(parsed.format, data, {
+      text: () => {
+        if (found.length === 0) return `No pages under ${scope} link to ${where}${notice}`;
+        let text = `${found.length} pages under ${scope} link to ${where}\n\n`;
+        text += found.map((backlink) => `- ${backlink.path}\n`
+          + backlink.links.map((link) => `  - line ${link.line}: ${link.raw}${link.target !== path ? ` (${link.target})` : ''}`).join('\n'))
+          .join('\n');
+        return text + notice;
+      },
+      markdown: () => found.length === 0
+        ? `No pages under \`${scope}\` link to \`${where}\`${notice}`
+        : `## Backlinks to ${where}\n\n` + markdownTable(
+          ['Page', 'Line', 'Link', 'Target'],
+          found.flatMap((backlink) => backlink.links.map((link) => [backlink.path, link.line, link.raw, link.target])),
+        ) + notice,
+    });
+  } catch (error) {
+    console.error('Exception in backlinks tool:', error);
+    return errorResult(`Error finding backlinks: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const backlinksTool = defineTool({
+  name: 'backlinks',
+  description: 'Find the pages that link to a page ("what links here"), scanning the bodies of the pages under a scope path',
+  schema: backlinksSchema,
+  outputSchema: backlinksOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => backlinks(client, params),
+});
@@ -0,0 +1,49 @@
+import { jest } from '@jest/globals';
+import { brokenLinks } from './broken-links.js';
+
+const page = (path: string, body: string = '') => ({
+  _id: `id${path.replace(/\//g, '-')}`,
+  path,
+  revision: { _id: 'r1', body, author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (pages: ReturnType<typeof page>[], others: string[] = []) => ({
+  baseURL: 'https://wiki.example.com',
+  getPage: jest.fn(async (path: string) => ({ ok: true, page: pages.find((candidate) => candidate.path === path) })),
+  getPageById: jest.fn(async () => ({ ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } })),
+  pageExists: jest.fn(async (path: string) => ({ ok: true, exists: others.includes(path) })),
+  listPages: jest.fn(async (path: string) => {
+    const listed = pages.filter((candidate) => candidate.path === path || candidate.path.startsWith(path + '/'));
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, offset: 0 } };
+  }),
+}) as any;
+
+describe('brokenLinks', () => {
+  it('reports links to missing pages grouped by source page', async () => {
+    const client = mockClient([
+      page('/projects/a', '[b](./b)\n[[/projects/old]]\n[ok](/docs/ok)'),
+      page('/projects/a/b', '[gone](/5e0734e472560e001761fa68)\n[up](..)'),
+    ], ['/docs/ok']);
+
+    const result = await brokenLinks(client, { path: '/projects' });
+
+    const data = result.structuredContent as any;
+    expect(data.broken).toEqual([
+      { source: '/projects/a', line: 2, raw: '/projects/old', target: '/projects/old' },
+      { source: '/projects/a/b', line: 1, raw: '/5e0734e472560e001761fa68', target: '5e0734e472560e001761fa68' },
+    ]);
+    expect(data.checkedTargets).toBe(3);
+    // 走査済みのページへのリンクは問い合わせない
+    expect(client.pageExists).not.toHaveBeenCalledWith('/projects/a/b');
+    expect(result.content[0].text).toContain('2 broken links in 2 pages under /projects\n\n/projects/a\n  - line 2: /projects/old');
+  });
+
+  it('reports a clean subtree', async () => {
+    const result = await brokenLinks(mockClient([page('/docs/a', '[[/docs/a]]')]), { path: '/docs' });
+
+    expect(result.content[0].text).toBe('No broken links in 1 page under /docs (1 link checked)');
+  });
+});
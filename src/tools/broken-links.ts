@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { extractLinks, linkTargetKey, PageLink } from '../links.js';
+import { formatSchema, markdownTable, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+import { maxPagesOf, resolveLinkTargets, scanSubtree } from './page-links.js';
+
+export const brokenLinksSchema = z.object({
+  path: z.string().optional().describe('Check the links in pages at or below this path (default: /)'),
+  max_pages: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to scan (default: 200, max: 1000)'),
+  format: formatSchema,
+});
+
+export const brokenLinksOutputSchema = z.object({
+  path: z.string(),
+  scanned: z.number().describe('Number of pages whose bodies were scanned'),
+  total: z.number().describe('Number of pages under the path'),
+  complete: z.boolean().describe('False if the scan stopped at max_pages'),
+  checkedTargets: z.number().describe('Number of distinct link targets checked'),
+  broken: z.array(z.object({
+    source: z.string().describe('Path of the page containing the link'),
+    line: z.number(),
+    raw: z.string().describe('Link target as written'),
+    target: z.string().describe('Missing page path, or page id of a permalink'),
+  })),
+});
+
+export type BrokenLinksParams = z.infer<typeof brokenLinksSchema>;
+
+export async function brokenLinks(
+  client: GrowiClient,
+  params: BrokenLinksParams
+): Promise<ToolResult> {
+  try {
+    const parsed = brokenLinksSchema.parse(params || {});
+    const path = normalizePagePath(parsed.path || '/');
+
+    const scan = await scanSubtree(client, path, maxPagesOf(parsed.max_pages));
+    const links: (PageLink & { source: string })[] = scan.pages.flatMap((page) =>
+      extractLinks(page.revision.body, page.path, { baseUrl: client.baseURL }).map((link) => ({ ...link, source: page.path })));
+
+    // 走査したページへのリンクは問い合わせるまでもなく存在する
+    const scannedPaths = new Set(scan.pages.map((page) => page.path));
+    const targets = await resolveLinkTargets(client, links.filter((link) => !link.path || !scannedPaths.has(link.path)));
+
+    const broken = links
+      .filter((link) => targets.get(linkTargetKey(link))?.exists === false)
+      .map((link) => ({ source: link.source, line: link.line, raw: link.raw, target: link.path ?? link.pageId! }));
+
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+    const data = { path, scanned: scan.pages.length, total: scan.total, complete: scan.complete, checkedTargets: targets.size, broken };
+    const notice = scan.complete
+      ? ''
+      : `\n\nScanned only ${scan.pages.length} of ${scan.total} pages under ${path}; narrow the path or raise max_pages.`;
+    return toolResult(parsed.format, data, {
+      text: () => {
+        if (broken.length === 0) {
+          return `No broken links in ${count(scan.pages.length, 'page')} under ${path} (${count(links.length, 'link')} checked)${notice}`;
+        }
+        let text = `${count(broken.length, 'broken link')} in ${count(scan.pages.length, 'page')} under ${path}\n`;
+        let source = '';
+        for (const link of broken) {
+          if (link.source !== source) {
+            source = link.source;
+            text += `\n${source}\n`;
+          }
+          text += `  - line ${link.line}: ${link.raw}${link.raw !== link.target ? ` (${link.target})` : ''}\n`;
+        }
+        return text.trimEnd() + notice;
+      },
+      markdown: () => broken.length === 0
+        ? `No broken links in ${count(scan.pages.length, 'page')} under \`${path}\`${notice}`
+        : `## Broken links under ${path}\n\n` + markdownTable(
+          ['Page', 'Line', 'Link', 'Missing target'],
+          broken.map((link) => [link.source, link.line, link.raw, link.target]),
+        ) + notice,
+    });
+  } catch (error) {
+    console.error('Exception in brokenLinks tool:', error);
+    return errorResult(`Error checking links: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const brokenLinksTool = defineTool({
+  name: 'broken_links',
+  description: 'Report links to pages that do not exist in the pages under a path, e.g. after a reorganization',
+  schema: brokenLinksSchema,
+  outputSchema: brokenLinksOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => brokenLinks(client, params),
+});
@@ -0,0 +1,155 @@
+import { jest } from '@jest/globals';
+import { changesSince, parseSince, subtreeOf } from './changes-since.js';
+
+const NOW = new Date('2024-06-10T12:00:00.000Z');
+
+const recentPage = (path: string, updatedAt: string, editor: string, createdAt: string = '2024-01-01T00:00:00.000Z') => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: `rev-${path}`, body: '', author: { _id: '', name: '' }, createdAt: '' },
+  creator: { _id: 'u0', name: 'creator' },
+  lastUpdateUser: { _id: `u-${editor}`, name: editor },
+  createdAt,
+  updatedAt,
+});
+
+const mockClient = (pages: ReturnType<typeof recentPage>[]) => ({
+  getRecentlyUpdatedPages: jest.fn(async (limit: number, offset: number) => ({
+    ok: true,
+    pages: pages.slice(offset, offset + limit),
+    meta: { total: pages.length, limit, offset },
+  })),
+  getPage: jest.fn(async (path: string) => ({
+    ok: true,
+    page: {
+      _id: `id-${path}`,
+      path,
+      revision: { _id: 'rev-new', body: 'line 1\nline 2 changed\n', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-10T08:00:00.000Z' },
+    },
+  })),
+  listRevisions: jest.fn(async () => ({
+    ok: true,
+    revisions: [
+      { _id: 'rev-new', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-10T08:00:00.000Z' },
+      { _id: 'rev-old', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-01T00:00:00.000Z' },
+    ],
+  })),
+  getRevision: jest.fn(async () => ({
+    ok: true,
+    revision: { _id: 'rev-old', body: 'line 1\nline 2\n', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-01T00:00:00.000Z' },
+  })),
+}) as any;
+
+describe('parseSince', () => {
+  it('accepts durations, ISO 8601 durations and timestamps', () => {
+    expect(parseSince('24h', NOW).toISOString()).toBe('2024-06-09T12:00:00.000Z');
+    expect(parseSince('1d12h', NOW).toISOString()).toBe('2024-06-09T00:00:00.000Z');
+    expect(parseSince('1w', NOW).toISOString()).toBe('2024-06-03T12:00:00.000Z');
+    expect(parseSince('PT30M', NOW).toISOString()).toBe('2024-06-10T11:30:00.000Z');
+    expect(parseSince('2024-06-01T00:00:00Z', NOW).toISOString()).toBe('2024-06-01T00:00:00.000Z');
+    expect(() => parseSince('yesterday', NOW)).toThrow('Invalid "since"');
+  });
+});
+
+describe('subtreeOf', () => {
+  it('groups by the first segment below the prefix', () => {
+    expect(subtreeOf('/projects/foo/design/api', '/projects/foo')).toBe('/projects/foo/design');
+    expect(subtreeOf('/projects/foo', '/projects/foo')).toBe('/projects/foo');
+    expect(subtreeOf('/projects/foo/a')).toBe('/projects');
+  });
+});
+
+describe('changesSince', () => {
+  const pages = [
+    recentPage('/projects/foo/design/api', '2024-06-10T10:00:00.000Z', 'alice'),
+    recentPage('/blog/hello', '2024-06-10T09:00:00.000Z', 'carol'),
+    recentPage('/projects/foo/notes', '2024-06-10T08:00:00.000Z', 'bob', '2024-06-10T07:00:00.000Z'),
+    recentPage('/projects/foo/design/ui', '2024-06-09T20:00:00.000Z', 'alice'),
+    recentPage('/projects/foo/old', '2024-06-08T00:00:00.000Z', 'alice'),
+  ];
+
+  it('collects the pages changed within the period under the path, grouped by author and subtree', async () => {
+    const client = mockClient(pages);
+
+    const result = await changesSince(client, { since: '24h', path: 'projects/foo/' }, NOW);
+
+    const data = result.structuredContent as any;
+    expect(data.since).toBe('2024-06-09T12:00:00.000Z');
+    expect(data.complete).toBe(true);
+    expect(data.changes.map((change: any) => change.path)).toEqual([
+      '/projects/foo/design/api', '/projects/foo/notes', '/projects/foo/design/ui',
+    ]);
+    expect(data.changes[1]).toMatchObject({ author: 'bob', isNew: true });
+    expect(data.byAuthor).toEqual([
+      { author: 'alice', count: 2, paths: ['/projects/foo/design/api', '/projects/foo/design/ui'] },
+      { author: 'bob', count: 1, paths: ['/projects/foo/notes'] },
+    ]);
+    expect(data.bySubtree.map((group: any) => [group.subtree, group.count])).toEqual([
+      ['/projects/foo/design', 2], ['/projects/foo/notes', 1],
+    ]);
+
+    const text = result.content[0].text;
+    expect(text).toContain('3 pages changed under /projects/foo since 2024-06-09T12:00:00.000Z');
+    expect(text).toContain('- alice (2)\n  - 2024-06-10 /projects/foo/design/api');
+    expect(text).toContain('/projects/foo/notes (new)');
+    expect(client.getPage).not.toHaveBeenCalled();
+  });
+
+  it('pages through the recent changes until it passes the cutoff', async () => {
+    const many = Array.from({ length: 120 }, (_, index) =>
+      recentPage(`/p/${index}`, new Date(NOW.getTime() - (index + 1) * 60_000).toISOString(), 'alice'));
+    const client = mockClient(many);
+
+    const result = await changesSince(client, { since: '90m' }, NOW);
+
+    expect((result.structuredContent as any).total).toBe(90);
+    expect(client.getRecentlyUpdatedPages).toHaveBeenCalledTimes(2);
+    expect(client.getRecentlyUpdatedPages).toHaveBeenLastCalledWith(50, 50);
+  });
+
+  it('includes per-page diffs against the revision current at the cutoff', async () => {
+    const client = mockClient(pages);
+
+    const result = await changesSince(client, { since: '24h', path: '/projects/foo', include_diffs: true, max_diffs: 2 }, NOW);
+
+    const changes = (result.structuredContent as any).changes;
+    expect(changes[0].diff).toContain('-line 2\n+line 2 changed');
+    // 期間内に作成されたページは全体が追加として表示される
+    expect(changes[1].diff).toContain('--- empty');
+    expect(changes[1].diff).toContain('+line 1');
+    expect(changes[2].diff).toBeUndefined();
+    expect(result.content[0].text).toContain('```diff');
+  });
+
+  it('truncates long diffs at a line break so the code fence closes on its own line', async () => {
+    const client = mockClient(pages);
+    const lines = Array.from({ length: 400 }, (_, i) => `line ${i} of a long page`);
+    client.getRevision.mockImplementation(async () => ({
+      ok: true,
+      revision: { _id: 'rev-old', body: lines.join('\n') + '\n', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-01T00:00:00.000Z' },
+    }));
+    client.getPage.mockImplementation(async (path: string) => ({
+      ok: true,
+      page: {
+        _id: `id-${path}`,
+        path,
+        revision: { _id: 'rev-new', body: lines.map((line) => `${line} changed`).join('\n') + '\n', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-06-10T08:00:00.000Z' },
+      },
+    }));
+
+    const result = await changesSince(client, { since: '24h', path: '/projects/foo', include_diffs: true, max_diffs: 1 }, NOW);
+
+    const [change] = (result.structuredContent as any).changes;
+    expect(change.diffTruncated).toBe(true);
+    expect(change.diff.length).toBeLessThanOrEqual(4000);
+    expect(change.diff.split('\n').slice(-2)[0]).toMatch(/^[-+ ]line \d+ of a long page( changed)?$/);
+    expect(result.content[0].text).toContain('\n```\n\n[diff truncated');
+  });
+
+  it('returns an INVALID_ARGUMENT error for an unparsable since', async () => {
+    const result = await changesSince(mockClient(pages), { since: 'last week' }, NOW);
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+  });
+});
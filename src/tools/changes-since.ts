@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, errorFromInfo, InvalidArgumentError } from '../errors.js';
+import { GrowiPage } from '../types/growi.js';
+import { unifiedDiff, wordDiff } from '../diff.js';
+import { formatSchema, markdownTable, shortDate, toolResult, ToolResult } from '../output.js';
+import { findRevisionAt, loadRevision } from './diff-revisions.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const changesSinceSchema = z.object({
+  since: z.string().describe('Start of the period: an ISO 8601 time (2024-06-01T09:00:00Z) or a duration back from now (30m, 24h, 7d, 1w, 1d12h, P1D)'),
+  path: z.string().optional().describe('Only include pages under this path prefix'),
+  include_diffs: z.boolean().optional().describe('Include a diff of what changed on each page since the start of the period (default: false)'),
+  max_diffs: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to diff, newest first (default: 10, max: 50)'),
+  mode: z.enum(['unified', 'word']).optional().describe('Diff format: unified (default) or word (word-level markdown)'),
+  format: formatSchema,
+});
+
+const changeOutputSchema = z.object({
+  path: z.string(),
+  pageId: z.string(),
+  revisionId: z.string(),
+  updatedAt: z.string(),
+  author: z.string().describe('Last editor of the page'),
+  isNew: z.boolean().describe('Whether the page was created within the period'),
+  diff: z.string().optional().describe('Changes since the start of the period (with include_diffs)'),
+  diffTruncated: z.boolean().optional(),
+  diffError: z.string().optional().describe('Why the diff could not be computed'),
+});
+
+const groupOutputSchema = z.object({
+  count: z.number(),
+  paths: z.array(z.string()),
+});
+
+export const changesSinceOutputSchema = z.object({
+  since: z.string().describe('Start of the period (ISO 8601)'),
+  until: z.string().describe('Time of the query (ISO 8601)'),
+  path: z.string().optional(),
+  total: z.number().describe('Number of changed pages'),
+  complete: z.boolean().describe('False when the scan stopped before reaching the start of the period'),
+  changes: z.array(changeOutputSchema),
+  byAuthor: z.array(groupOutputSchema.extend({ author: z.string() })),
+  bySubtree: z.array(groupOutputSchema.extend({ subtree: z.string() })),
+});
+
+export type ChangesSinceParams = z.infer<typeof changesSinceSchema>;
+
+// /_api/v3/pages/recent を辿るときの1回あたりの件数と最大回数
+const RECENT_PAGE_SIZE = 50;
+const MAX_RECENT_REQUESTS = 40;
+// 1ページあたりの差分の最大文字数
+const MAX_DIFF_CHARS = 4000;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse the start of a period: an ISO 8601 time, a short duration (`90m`, `24h`, `1d12h`) or an
+ * ISO 8601 duration (`P1D`, `PT12H`), counted back from `now`
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const text = value.trim();
+
+  if (/^(\d+\s*[smhdw]\s*)+$/i.test(text)) {
+    let ms = 0;
+    for (const [, amount, unit] of text.matchAll(/(\d+)\s*([smhdw])/gi)) {
+      ms += Number(amount) * DURATION_UNITS_MS[unit.toLowerCase()];
+    }
+    return new Date(now.getTime() - ms);
+  }
+
+  const iso = text.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (iso && text.length > 1 && !/T$/i.test(text)) {
+    const [, weeks, days, hours, minutes, seconds] = iso.map((part) => Number(part || 0));
+    const ms = weeks * DURATION_UNITS_MS.w + days * DURATION_UNITS_MS.d + hours * DURATION_UNITS_MS.h
+      + minutes * DURATION_UNITS_MS.m + seconds * DURATION_UNITS_MS.s;
+    return new Date(now.getTime() - ms);
+  }
+
+  const time = Date.parse(text);
+  if (isNaN(time)) {
+    throw new InvalidArgumentError(`Invalid "since": ${value} (use an ISO 8601 time or a duration such as 24h or 7d)`);
+  }
+  return new Date(time);
+}
+
+/**
+ * Pages updated at or after a point in time, newest first
+ * /_api/v3/pages/recent を更新日時の降順で辿り、cutoff より古いページが出たところで止める
+ * @param pathPrefix Only keep pages at or under this path
+ * @returns The pages, and whether the scan reached the cutoff (false when the request limit was hit first)
+ */
+export async function collectChangesSince(
+  client: GrowiClient,
+  since: Date,
+  pathPrefix?: string,
+): Promise<{ pages: GrowiPage[]; complete: boolean }> {
+  const pages: GrowiPage[] = [];
+  for (let request = 0; request < MAX_RECENT_REQUESTS; request++) {
+    const response = await client.getRecentlyUpdatedPages(RECENT_PAGE_SIZE, request * RECENT_PAGE_SIZE);
+    if (!response.ok) {
+      throw errorFromInfo(`Error getting recently updated pages: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    for (const page of response.pages) {
+      if (Date.parse(page.updatedAt) < since.getTime()) {
+        return { pages, complete: true };
+      }
+      if (!pathPrefix || pathPrefix === '/' || page.path === pathPrefix || page.path.startsWith(pathPrefix + '/')) {
+        pages.push(page);
+      }
+    }
+    if (response.pages.length < RECENT_PAGE_SIZE) {
+      return { pages, complete: true };
+    }
+  }
+  logToStderr(`Stopped scanning recent changes after ${MAX_RECENT_REQUESTS * RECENT_PAGE_SIZE} pages`);
+  return { pages, complete: false };
+}
+
+/**
+ * Name of the last editor of a page
+ * 一覧のレスポンスではリビジョンがIDのみのため lastUpdateUser を優先する
+ */
+export function lastEditor(page: GrowiPage): string {
+  const user = (page as any).lastUpdateUser;
+  return (typeof user === 'object' && user !== null ? user.name || user.username : undefined)
+    || page.revision?.author?.name
+    || page.creator?.name
+    || 'unknown';
+}
+
+/**
+ * Subtree a changed page is grouped under: the first path segment below the prefix
+ */
+export function subtreeOf(pagePath: string, prefix: string = '/'): string {
+  const base = prefix === '/' ? '' : prefix;
+  if (pagePath === prefix) return prefix;
+  const next = pagePath.substring(base.length + 1).split('/')[0];
+  return `${base}/${next}`;
+}
+
+type ChangeEntry = z.infer<typeof changeOutputSchema>;
+
+/**
+ * Group the changed paths by a key, largest groups first
+ */
+function groupBy(changes: ChangeEntry[], keyOf: (change: ChangeEntry) => string): { key: string; count: number; paths: string[] }[] {
+  const groups = new Map<string, string[]>();
+  for (const change of changes) {
+    const key = keyOf(change);
+    groups.set(key, [...(groups.get(key) ?? []), change.path]);
+  }
+  return [...groups.entries()]
+    .sort(([a, pathsA], [b, pathsB]) => pathsB.length - pathsA.length || a.localeCompare(b))
+    .map(([key, paths]) => ({ key, count: paths.length, paths }));
+}
+
+/**
+ * Diff of a page between the start of the period and its current revision
+ */
+async function diffSince(client: GrowiClient, change: ChangeEntry, since: Date, mode: 'unified' | 'word'): Promise<string> {
+  const response = await client.getPage(change.path);
+  if (!response.ok) {
+    throw errorFromInfo(response.error || 'Unknown error', response.errorInfo);
+  }
+  const page = response.page;
+  // 期間内に作成されたページは空の本文との差分とする
+  const found = change.isNew ? null : await findRevisionAt(client, page, since);
+  const base = found ? await loadRevision(client, page, found._id) : { _id: 'empty', body: '' };
+  return mode === 'word'
+    ? wordDiff(base.body, page.revision.body)
+    : unifiedDiff(base.body, page.revision.body, { fromLabel: base._id, toLabel: page.revision._id });
+}
+
+export async function changesSince(
+  client: GrowiClient,
+  params: ChangesSinceParams,
+  now: Date = new Date()
+): Promise<ToolResult> {
+  try {
+    const parsed = changesSinceSchema.parse(params);
+    const since = parseSince(parsed.since, now);
+    const mode = parsed.mode || 'unified';
+
+    let path = parsed.path;
+    if (path && !path.startsWith('/')) path = '/' + path;
+    if (path && path.length > 1) path = path.replace(/\/+$/, '');
+
+    let maxDiffs = parsed.max_diffs !== undefined ? Number(parsed.max_diffs) : 10;
+    if (isNaN(maxDiffs) || maxDiffs < 0) {
+      maxDiffs = 10;
+    } else if (maxDiffs > 50) {
+      maxDiffs = 50;
+    }
+
+    logToStderr(`Collecting changes since ${since.toISOString()}${path ? ` under ${path}` : ''}`);
+    const { pages, complete } = await collectChangesSince(client, since, path);
+
+    const changes: ChangeEntry[] = pages.map((page) => ({
+      path: page.path,
+      pageId: page._id,
+      revisionId: page.revision?._id ?? '',
+      updatedAt: page.updatedAt,
+      author: lastEditor(page),
+      isNew: Boolean(page.createdAt) && Date.parse(page.createdAt) >= since.getTime(),
+    }));
+
+    if (parsed.include_diffs) {
+      for (const change of changes.slice(0, maxDiffs)) {
+        try {
+          let diff = await diffSince(client, change, since, mode);
+          if (diff.length > MAX_DIFF_CHARS) {
+            // 行の途中で切ると閉じる ``` が行末に付いてしまうため、行単位で切る
+            const cut = diff.lastIndexOf('\n', MAX_DIFF_CHARS - 1);
+            diff = cut > 0 ? diff.substring(0, cut + 1) : diff.substring(0, MAX_DIFF_CHARS) + '\n';
+            change.diffTruncated = true;
+          }
+          change.diff = diff;
+        } catch (error) {
+          // 1ページの失敗で全体を失敗させない
+          change.diffError = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+
+    const data = {
+      since: since.toISOString(),
+      until: now.toISOString(),
+      ...(path ? { path } : {}),
+      total: changes.length,
+      complete,
+      changes,
+      byAuthor: groupBy(changes, (change) => change.author).map(({ key, ...group }) => ({ author: key, ...group })),
+      bySubtree: groupBy(changes, (change) => subtreeOf(change.path, path)).map(({ key, ...group }) => ({ subtree: key, ...group })),
+    };
+
+    const scope = `${path ? ` under ${path}` : ''} since ${data.since}`;
+    const incomplete = complete ? '' : `\nOnly the ${MAX_RECENT_REQUESTS * RECENT_PAGE_SIZE} most recently updated pages were scanned; older changes are missing.`;
+    const label = (change: ChangeEntry) => `${change.path}${change.isNew ? ' (new)' : ''}`;
+    const diffBlock = (change: ChangeEntry) => {
+      if (change.diffError) return `Diff unavailable: ${change.diffError}\n`;
+      if (!change.diff) return 'No textual changes\n';
+      const truncated = change.diffTruncated ? '\n[diff truncated; use diff_revisions for the full diff]\n' : '';
+      return mode === 'word' ? `${change.diff}\n${truncated}` : '```diff\n' + change.diff + '```\n' + truncated;
+    };
+    const withDiffs = changes.filter((change) => change.diff !== undefined || change.diffError);
+
+    const renderText = () => {
+      if (changes.length === 0) return `No pages changed${scope}${incomplete}`;
+      let text = `${changes.length} ${changes.length === 1 ? 'page' : 'pages'} changed${scope}${incomplete}\n\n`;
+      text += 'By author:\n';
+      for (const group of data.byAuthor) {
+        text += `- ${group.author} (${group.count})\n`;
+        for (const change of changes.filter((candidate) => candidate.author === group.author)) {
+          text += `  - ${shortDate(change.updatedAt)} ${label(change)}\n`;
+        }
+      }
+      text += '\nBy subtree:\n';
+      text += data.bySubtree.map((group) => `- ${group.subtree} (${group.count})`).join('\n') + '\n';
+      for (const change of withDiffs) {
+        text += `\n${change.path}:\n${diffBlock(change)}`;
+      }
+      return text.trimEnd();
+    };
+
+    const renderMarkdown = () => {
+      if (changes.length === 0) return `No pages changed${scope}${incomplete}`;
+      let text = `## Changes${scope}\n\n${changes.length} ${changes.length === 1 ? 'page' : 'pages'} changed.${incomplete}\n\n`;
+      text += '### By author\n\n';
+      text += markdownTable(['Author', 'Pages', 'Changed'], data.byAuthor.map((group) => [group.author, group.count, group.paths.join(', ')]));
+      text += '\n### By subtree\n\n';
+      text += markdownTable(['Subtree', 'Pages'], data.bySubtree.map((group) => [group.subtree, group.count]));
+      text += '\n### Pages\n\n';
+      text += markdownTable(['Path', 'Updated', 'Editor', 'New'], changes.map((change) => [
+        change.path, shortDate(change.updatedAt), change.author, change.isNew ? 'yes' : '',
+      ]));
+      for (const change of withDiffs) {
+        text += `\n### ${change.path}\n\n${diffBlock(change)}`;
+      }
+      return text.trimEnd();
+    };
+
+    return toolResult(parsed.format, data, { text: renderText, markdown: renderMarkdown });
+  } catch (error) {
+    console.error('Exception in changesSince tool:', error);
+    return errorResult(`Error listing changes: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const changesSinceTool = defineTool({
+  name: 'changes_since',
+  description: 'What changed since a time or over a duration (e.g. 24h), optionally under a path: changed pages grouped by author and subtree, with optional per-page diffs',
+  schema: changesSinceSchema,
+  outputSchema: changesSinceOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => changesSince(client, params),
+});
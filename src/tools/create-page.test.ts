@@ -0,0 +1,20 @@
+import { jest } from '@jest/globals';
+import { createPage } from './create-page.js';
+
+describe('createPage', () => {
+  it('creates the page and reports the new revision', async () => {
+    const mockClient = {
+      createPage: jest.fn(async () => ({
+        ok: true,
+        page: { path: '/meetings/new' } as any,
+        revision: { _id: 'rev1', body: '# New' },
+      })),
+    } as any;
+
+    const result = await createPage(mockClient, { path: 'meetings/new', body: '# New' });
+
+    expect(mockClient.createPage).toHaveBeenCalledWith('/meetings/new', '# New');
+    expect(result.content[0].text).toContain('/meetings/new');
+    expect(result.content[0].text).toContain('rev1');
+  });
+});
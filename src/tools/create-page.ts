@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, pageUpdateOutput, pageUpdateOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const createPageSchema = z.object({
+  path: z.string().describe('Path of the page to create (e.g. /meetings/2024-01-01)'),
+  body: z.string().describe('Markdown body of the new page'),
+  format: formatSchema,
+});
+
+export const createPageOutputSchema = pageUpdateOutputSchema;
+
+export type CreatePageParams = z.infer<typeof createPageSchema>;
+
+export async function createPage(
+  client: GrowiClient,
+  params: CreatePageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = createPageSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    logToStderr(`Creating page at path: ${path} (${parsed.body.length} characters)`);
+    const response = await client.createPage(path, parsed.body);
+
+    if (!response.ok) {
+      return errorResult(`Error creating page (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    return toolResult(parsed.format, pageUpdateOutput(response), {
+      text: () => `Created page: ${response.page.path}\nRevision: ${response.revision._id}`,
+      markdown: () => `Created page \`${response.page.path}\` (revision \`${response.revision._id}\`)`,
+    });
+  } catch (error) {
+    console.error('Exception in createPage tool:', error);
+    return errorResult(`Error creating page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const createPageTool = defineTool({
+  name: 'create_page',
+  description: 'Create a new GROWI page with a markdown body',
+  schema: createPageSchema,
+  outputSchema: createPageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (params, { client }) => createPage(client, params),
+});
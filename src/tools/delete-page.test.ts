@@ -0,0 +1,47 @@
+import { jest } from '@jest/globals';
+import { deletePage, deletePageTool } from './delete-page.js';
+
+const page = (path: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: `rev-${path}`, body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = () => ({
+  getPage: jest.fn(async (path: string) => ({ ok: true, page: page(path) })),
+  listPages: jest.fn(async () => ({ ok: true, pages: [page('/trash/old'), page('/trash/old/a')], meta: { total: 2, limit: 100, offset: 0 } })),
+  deletePage: jest.fn(async () => ({ ok: true, paths: ['/trash/old', '/trash/old/a'] })),
+}) as any;
+
+describe('deletePage', () => {
+  it('is only offered when hard delete is enabled', () => {
+    const clients = {} as any;
+
+    expect(deletePageTool.available!(clients, {})).toBe(false);
+    expect(deletePageTool.available!(clients, { allowHardDelete: true })).toBe(true);
+  });
+
+  it('is forbidden unless hard delete is enabled', async () => {
+    const client = mockClient();
+
+    const result = await deletePage(client, { path: '/trash/old', confirm: '/trash/old (0 descendants)' });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'FORBIDDEN' } });
+    expect(result.content[0].text).toContain('GROWI_ALLOW_HARD_DELETE');
+    expect(client.getPage).not.toHaveBeenCalled();
+  });
+
+  it('deletes completely once enabled and confirmed', async () => {
+    const client = mockClient();
+
+    const preview = await deletePage(client, { path: '/trash/old', recursive: true }, true);
+    expect(preview.structuredContent).toMatchObject({ operation: 'delete', confirmation: '/trash/old (1 descendant)', executed: false });
+
+    const result = await deletePage(client, { path: '/trash/old', recursive: true, confirm: '/trash/old (1 descendant)' }, true);
+    expect(client.deletePage).toHaveBeenCalledWith(expect.objectContaining({ path: '/trash/old' }), { recursive: true, completely: true });
+    expect(result.content[0].text).toContain('Deleted completely: 2 pages');
+  });
+});
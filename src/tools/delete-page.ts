@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, ForbiddenError } from '../errors.js';
+import { formatSchema, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { deletionOutputSchema, runDeletion } from './trash-page.js';
+
+export const deletePageSchema = z.object({
+  path: z.string().describe('Path of the page to delete completely (in the trash or anywhere else)'),
+  recursive: z.boolean().optional().describe('Also delete every page below it (default: false)'),
+  confirm: z.string().optional().describe(
+    'Confirmation exactly as shown by the preview: "<path> (<N> descendants)". Without it only a preview is returned'
+  ),
+  format: formatSchema,
+});
+
+export const deletePageOutputSchema = deletionOutputSchema;
+
+export type DeletePageParams = z.infer<typeof deletePageSchema>;
+
+/**
+ * Delete pages completely; cannot be undone
+ * @param allowHardDelete Whether the server is configured to allow it (GROWI_ALLOW_HARD_DELETE)
+ */
+export async function deletePage(
+  client: GrowiClient,
+  params: DeletePageParams,
+  allowHardDelete: boolean = false
+): Promise<ToolResult> {
+  try {
+    const parsed = deletePageSchema.parse(params);
+    if (!allowHardDelete) {
+      throw new ForbiddenError(
+        'Hard delete is disabled on this server (set GROWI_ALLOW_HARD_DELETE=true to enable it); use trash_page instead'
+      );
+    }
+    return await runDeletion(client, parsed, true);
+  } catch (error) {
+    console.error('Exception in deletePage tool:', error);
+    return errorResult(`Error deleting page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const deletePageTool = defineTool({
+  name: 'delete_page',
+  description: 'Delete a page, optionally with every page below it, completely and irreversibly. '
+    + 'Returns a preview unless confirm echoes the exact path and descendant count',
+  schema: deletePageSchema,
+  outputSchema: deletePageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  available: (_clients, settings) => Boolean(settings.allowHardDelete),
+  handler: (params, { client, settings }) => deletePage(client, params, settings.allowHardDelete),
+});
@@ -0,0 +1,47 @@
+import { jest } from '@jest/globals';
+import { diffRevisions } from './diff-revisions.js';
+
+const revision = (id: string, body: string, createdAt: string) => ({ _id: id, body, author: { _id: 'u1', name: 'alice' }, createdAt });
+
+const mockClient = () => ({
+  getPage: jest.fn(async () => ({
+    ok: true,
+    page: { _id: 'page1', path: '/runbook', revision: revision('rev3', 'step 1\nstep 2 (updated)\n', '2024-01-10T00:00:00.000Z') },
+  })),
+  getRevision: jest.fn(async () => ({ ok: true, revision: revision('rev1', 'step 1\nstep 2\n', '2024-01-01T00:00:00.000Z') })),
+  listRevisions: jest.fn(async () => ({
+    ok: true,
+    revisions: [
+      revision('rev3', '', '2024-01-10T00:00:00.000Z'),
+      revision('rev2', '', '2024-01-05T00:00:00.000Z'),
+      revision('rev1', '', '2024-01-01T00:00:00.000Z'),
+    ],
+  })),
+}) as any;
+
+describe('diffRevisions', () => {
+  it('diffs a revision against the current body as a unified diff', async () => {
+    const client = mockClient();
+
+    const result = await diffRevisions(client, { path: '/runbook', from: 'rev1' });
+
+    const text = result.content[0].text;
+    expect(text).toContain('-step 2\n+step 2 (updated)');
+    expect(text).toContain('To:   rev3');
+  });
+
+  it('picks the base revision that was current at the "since" time', async () => {
+    const client = mockClient();
+
+    const result = await diffRevisions(client, { path: '/runbook', since: '2024-01-07T00:00:00.000Z', mode: 'word' });
+
+    expect(client.getRevision).toHaveBeenCalledWith('page1', 'rev2');
+    expect(result.content[0].text).toContain('step 2 **(updated)**');
+  });
+
+  it('requires a base revision', async () => {
+    const result = await diffRevisions(mockClient(), { path: '/runbook' });
+
+    expect(result.isError).toBe(true);
+  });
+});
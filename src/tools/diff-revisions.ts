@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, errorFromInfo, InvalidArgumentError } from '../errors.js';
+import { GrowiPage, GrowiRevision } from '../types/growi.js';
+import { unifiedDiff, wordDiff } from '../diff.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const diffRevisionsSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  from: z.string().optional().describe('Base revision id (older side of the diff)'),
+  since: z.string().optional().describe('Use the revision that was current at this ISO 8601 time as the base, instead of "from"'),
+  to: z.string().optional().describe('Target revision id (default: the current revision)'),
+  mode: z.enum(['unified', 'word']).optional().describe('Diff format: unified (default) or word (word-level markdown)'),
+  format: formatSchema,
+});
+
+const diffSideOutputSchema = z.object({
+  revisionId: z.string(),
+  createdAt: z.string(),
+  author: z.string(),
+});
+
+export const diffRevisionsOutputSchema = z.object({
+  path: z.string(),
+  from: diffSideOutputSchema.optional(),
+  to: diffSideOutputSchema.optional(),
+  mode: z.enum(['unified', 'word']),
+  diff: z.string().describe('Unified diff or word-level markdown; empty when nothing changed'),
+});
+
+export type DiffRevisionsParams = z.infer<typeof diffRevisionsSchema>;
+
+// since 指定時に遡るリビジョン一覧の最大ページ数
+const MAX_REVISION_PAGES = 10;
+const REVISIONS_PER_PAGE = 50;
+
+/**
+ * 指定時刻の時点で最新だったリビジョンを探す
+ */
+export async function findRevisionAt(client: GrowiClient, page: GrowiPage, since: Date): Promise<GrowiRevision | null> {
+  for (let pageNumber = 1; pageNumber <= MAX_REVISION_PAGES; pageNumber++) {
+    const response = await client.listRevisions(page._id, REVISIONS_PER_PAGE, pageNumber);
+    if (!response.ok) {
+      throw errorFromInfo(response.error || 'Failed to list revisions', response.errorInfo);
+    }
+    const match = response.revisions.find((revision) => Date.parse(revision.createdAt) <= since.getTime());
+    if (match) return match;
+    if (response.revisions.length < REVISIONS_PER_PAGE) break;
+  }
+  return null;
+}
+
+export async function loadRevision(client: GrowiClient, page: GrowiPage, revisionId: string): Promise<GrowiRevision> {
+  if (revisionId === page.revision._id) return page.revision;
+  const response = await client.getRevision(page._id, revisionId);
+  if (!response.ok) {
+    throw errorFromInfo(`Revision ${revisionId}: ${response.error || 'Unknown error'}`, response.errorInfo);
+  }
+  return response.revision;
+}
+
+function label(revision: GrowiRevision): string {
+  return `${revision._id} (${revision.createdAt}${revision.author.name ? `, ${revision.author.name}` : ''})`;
+}
+
+export async function diffRevisions(
+  client: GrowiClient,
+  params: DiffRevisionsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = diffRevisionsSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    if (!parsed.from && !parsed.since) {
+      throw new InvalidArgumentError('Either "from" or "since" is required');
+    }
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error diffing revisions (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+    const page = pageResponse.page;
+
+    let base: GrowiRevision;
+    if (parsed.from) {
+      base = await loadRevision(client, page, parsed.from);
+    } else {
+      const since = new Date(parsed.since as string);
+      if (isNaN(since.getTime())) {
+        throw new InvalidArgumentError(`Invalid "since" time: ${parsed.since}`);
+      }
+      const found = await findRevisionAt(client, page, since);
+      if (!found) {
+        return toolResult(parsed.format, { path, mode: parsed.mode || 'unified', diff: '' }, {
+          text: () => `No revision of ${path} exists at or before ${parsed.since}`,
+        });
+      }
+      // 一覧のリビジョンには本文が含まれない場合があるため改めて取得する
+      base = await loadRevision(client, page, found._id);
+    }
+
+    const target = await loadRevision(client, page, parsed.to || page.revision._id);
+    logToStderr(`Diffing ${path}: ${base._id} -> ${target._id} (${parsed.mode || 'unified'})`);
+
+    const diff = parsed.mode === 'word'
+      ? wordDiff(base.body, target.body)
+      : unifiedDiff(base.body, target.body, { fromLabel: base._id, toLabel: target._id });
+
+    const side = (revision: GrowiRevision) => ({ revisionId: revision._id, createdAt: revision.createdAt, author: revision.author.name });
+    const render = () => {
+      let text = `Diff of ${path}\nFrom: ${label(base)}\nTo:   ${label(target)}\n\n`;
+      if (!diff) {
+        text += 'No changes between these revisions';
+      } else if (parsed.mode === 'word') {
+        text += diff;
+      } else {
+        text += '```diff\n' + diff + '```';
+      }
+      return text;
+    };
+
+    return toolResult(parsed.format, { path, from: side(base), to: side(target), mode: parsed.mode || 'unified', diff }, {
+      text: render,
+    });
+  } catch (error) {
+    console.error('Exception in diffRevisions tool:', error);
+    return errorResult(`Error diffing revisions: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const diffRevisionsTool = defineTool({
+  name: 'diff_revisions',
+  description: 'Diff two revisions of a GROWI page (or a revision against the current body) as a unified or word-level diff',
+  schema: diffRevisionsSchema,
+  outputSchema: diffRevisionsOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => diffRevisions(client, params),
+});
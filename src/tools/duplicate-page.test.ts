@@ -0,0 +1,56 @@
+import { jest } from '@jest/globals';
+import { duplicatePage } from './duplicate-page.js';
+
+const page = (path: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: `rev-${path}`, body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (paths: string[]) => ({
+  getPage: jest.fn(async (path: string) => ({ ok: true, page: page(path) })),
+  listPages: jest.fn(async (path: string) => {
+    const listed = paths.filter((candidate) => candidate === path || candidate.startsWith(path + '/')).map(page);
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, page: 1 } };
+  }),
+  pageExists: jest.fn(async (path: string) => ({ ok: true, exists: paths.includes(path) })),
+  duplicatePage: jest.fn(async (_source: unknown, newPath: string) => ({ ok: true, page: page(newPath) })),
+}) as any;
+
+describe('duplicatePage', () => {
+  const paths = ['/templates/project', '/templates/project/design', '/templates/project/notes'];
+
+  it('previews the copies of the whole subtree', async () => {
+    const client = mockClient(paths);
+
+    const result = await duplicatePage(client, { path: '/templates/project', new_path: '/projects/new', recursive: true, format: 'markdown' });
+
+    expect((result.structuredContent as any).moves.map((move: any) => move.to)).toEqual([
+      '/projects/new', '/projects/new/design', '/projects/new/notes',
+    ]);
+    expect(result.content[0].text).toContain('| `/templates/project/design` | `/projects/new/design` | no |');
+    expect(result.content[0].text).toContain('Call again with dry_run: false to apply.');
+    expect(client.duplicatePage).not.toHaveBeenCalled();
+  });
+
+  it('copies the subtree when applied', async () => {
+    const client = mockClient(paths);
+
+    const result = await duplicatePage(client, { path: '/templates/project', new_path: '/projects/new', recursive: true, dry_run: false });
+
+    expect(client.duplicatePage).toHaveBeenCalledWith(expect.objectContaining({ path: '/templates/project' }), '/projects/new', { recursive: true });
+    expect(result.content[0].text).toContain('Duplicated 3 pages from /templates/project to /projects/new');
+  });
+
+  it('refuses to copy onto an existing page', async () => {
+    const client = mockClient([...paths, '/projects/new']);
+
+    const result = await duplicatePage(client, { path: '/templates/project', new_path: '/projects/new', dry_run: false });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'CONFLICT' } });
+    expect(client.duplicatePage).not.toHaveBeenCalled();
+  });
+});
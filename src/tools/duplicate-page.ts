@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, pageOutput, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import {
+  conflictResult,
+  normalizePagePath,
+  pageTransferOutputSchema,
+  PageTransferOutput,
+  planTransfer,
+  transferResult,
+} from './move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const duplicatePageSchema = z.object({
+  path: z.string().describe('Path of the page to copy'),
+  new_path: z.string().describe('Path of the copy'),
+  recursive: z.boolean().optional().describe('Also copy every page below it, keeping their relative paths (default: false)'),
+  dry_run: z.boolean().optional().describe('Only preview the affected paths without changing anything (default: true); set to false to apply'),
+  format: formatSchema,
+});
+
+export const duplicatePageOutputSchema = pageTransferOutputSchema;
+
+export type DuplicatePageParams = z.infer<typeof duplicatePageSchema>;
+
+export async function duplicatePage(
+  client: GrowiClient,
+  params: DuplicatePageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = duplicatePageSchema.parse(params);
+    const from = normalizePagePath(parsed.path);
+    const to = normalizePagePath(parsed.new_path);
+    const recursive = parsed.recursive ?? false;
+    const dryRun = parsed.dry_run ?? true;
+
+    const plan = await planTransfer(client, from, to, recursive);
+    const data: PageTransferOutput = {
+      operation: 'duplicate', from, to, recursive, dryRun, executed: false,
+      moves: plan.moves, conflicts: plan.conflicts,
+    };
+
+    if (dryRun) {
+      return transferResult(parsed.format, data);
+    }
+    if (plan.conflicts.length > 0) {
+      return conflictResult(data);
+    }
+
+    logToStderr(`Duplicating ${from} to ${to} (recursive: ${recursive})`);
+    const response = await client.duplicatePage(plan.page, to, { recursive });
+    if (!response.ok) {
+      return errorResult(`Error duplicating page (path: ${from}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    return transferResult(parsed.format, { ...data, executed: true, page: pageOutput(response.page) });
+  } catch (error) {
+    console.error('Exception in duplicatePage tool:', error);
+    return errorResult(`Error duplicating page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const duplicatePageTool = defineTool({
+  name: 'duplicate_page',
+  description: 'Copy a page, optionally with all pages below it, to a new path. '
+    + 'Previews the affected paths by default; existing target paths block the copy',
+  schema: duplicatePageSchema,
+  outputSchema: duplicatePageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (params, { client }) => duplicatePage(client, params),
+});
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jest } from '@jest/globals';
+import { exportSubtree } from './export-subtree.js';
+
+const mockClient = () => ({
+  baseURL: 'https://wiki.example.com',
+  listPages: jest.fn(async () => ({
+    ok: true,
+    pages: [{ path: '/team' }],
+    meta: { total: 1, limit: 100, offset: 0 },
+  })),
+  getPage: jest.fn(async () => ({
+    ok: true,
+    page: {
+      _id: 'p1',
+      path: '/team',
+      revision: { _id: 'r1', body: '# Team', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+      creator: { _id: 'u1', name: 'alice' },
+      createdAt: '2024-06-01T00:00:00.000Z',
+      updatedAt: '2024-06-01T00:00:00.000Z',
+    },
+  })),
+}) as any;
+
+describe('exportSubtree tool', () => {
+  let exportDir: string;
+
+  beforeEach(() => {
+    exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'growi-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('exports into a directory below the export directory', async () => {
+    const result = await exportSubtree(mockClient(), exportDir, { path: '/team', output_dir: 'team', archive: 'tar' });
+
+    expect(result.structuredContent).toMatchObject({ pages: 1, outDir: path.join(exportDir, 'team'), archive: path.join(exportDir, 'team.tar.gz') });
+    expect(result.content[0].text).toContain('Exported 1 page under /team');
+    expect(fs.existsSync(path.join(exportDir, 'team', 'team.md'))).toBe(true);
+  });
+
+  it('refuses an output directory outside the export directory', async () => {
+    const client = mockClient();
+
+    const result = await exportSubtree(client, exportDir, { path: '/team', output_dir: '../escape' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect(client.listPages).not.toHaveBeenCalled();
+  });
+});
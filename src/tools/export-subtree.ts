@@ -0,0 +1,83 @@
+import path from 'path';
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError } from '../errors.js';
+import { exportSubtree as runExport } from '../export.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+export const exportSubtreeSchema = z.object({
+  path: z.string().describe('Path of the page whose subtree to export (e.g. /projects); / exports the whole wiki'),
+  output_dir: z.string().describe(
+    'Directory to write, relative to GROWI_EXPORT_DIR; it must be new, empty or a previous export, which is updated'
+  ),
+  archive: z.enum(['tar', 'zip']).optional().describe('Also bundle the directory into <output_dir>.tar.gz or <output_dir>.zip'),
+  max_pages: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to export (default: 1000, max: 5000)'),
+  format: formatSchema,
+});
+
+export const exportSubtreeOutputSchema = z.object({
+  path: z.string(),
+  outDir: z.string().describe('Absolute path of the export directory'),
+  pages: z.number().describe('Number of pages written'),
+  total: z.number().describe('Number of pages in the subtree'),
+  complete: z.boolean().describe('False if max_pages was reached'),
+  removed: z.number().describe('Files of a previous export removed because their pages are gone'),
+  archive: z.string().optional().describe('Absolute path of the archive'),
+});
+
+export type ExportSubtreeParams = z.infer<typeof exportSubtreeSchema>;
+
+/**
+ * Export a subtree into a directory below exportDir
+ * @param exportDir Directory the exports are confined to (GROWI_EXPORT_DIR)
+ */
+export async function exportSubtree(
+  client: GrowiClient,
+  exportDir: string,
+  params: ExportSubtreeParams
+): Promise<ToolResult> {
+  try {
+    const parsed = exportSubtreeSchema.parse(params);
+
+    let maxPages = parsed.max_pages !== undefined ? Number(parsed.max_pages) : 1000;
+    if (isNaN(maxPages) || maxPages < 1) {
+      maxPages = 1000;
+    } else if (maxPages > 5000) {
+      maxPages = 5000;
+    }
+
+    // 出力先は GROWI_EXPORT_DIR の中に限る
+    const base = path.resolve(exportDir);
+    const outDir = path.resolve(base, parsed.output_dir);
+    if (!outDir.startsWith(base + path.sep)) {
+      throw new InvalidArgumentError(`output_dir must be a directory inside the export directory: ${parsed.output_dir}`);
+    }
+
+    const summary = await runExport(client, { path: parsed.path, outDir, archive: parsed.archive, maxPages });
+
+    return toolResult(parsed.format, { ...summary }, {
+      text: () => {
+        let text = `Exported ${summary.pages} ${summary.pages === 1 ? 'page' : 'pages'} under ${summary.path} to ${summary.outDir}`;
+        if (summary.removed > 0) text += `\nRemoved ${summary.removed} files of pages that no longer exist`;
+        if (summary.archive) text += `\nArchive: ${summary.archive}`;
+        if (!summary.complete) text += `\nStopped at max_pages; the subtree has ${summary.total} pages`;
+        return text;
+      },
+    });
+  } catch (error) {
+    console.error('Exception in exportSubtree tool:', error);
+    return errorResult(`Error exporting pages: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const exportSubtreeTool = defineTool({
+  name: 'export_subtree',
+  description: 'Export a page and its descendants to local markdown files with YAML front matter and a manifest, '
+    + 'optionally bundled into a tar.gz or zip archive',
+  schema: exportSubtreeSchema,
+  outputSchema: exportSubtreeOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  available: (_clients, settings) => Boolean(settings.exportDir),
+  handler: (params, { client, settings }) => exportSubtree(client, settings.exportDir!, params),
+});
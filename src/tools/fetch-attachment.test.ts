@@ -0,0 +1,58 @@
+import { jest } from '@jest/globals';
+import { fetchAttachment } from './fetch-attachment.js';
+
+const attachment = (originalName: string, mimeType: string, size: number = 10) => ({
+  _id: `id-${originalName}`,
+  originalName,
+  mimeType,
+  size,
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  downloadPath: `/attachment/id-${originalName}`,
+});
+
+function mockClient(data: Buffer) {
+  return {
+    getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/reports' } })),
+    listAttachments: jest.fn(async () => ({
+      ok: true,
+      attachments: [attachment('sales.csv', 'text/csv'), attachment('chart.png', 'image/png')],
+      meta: { total: 2, limit: 100, page: 1 },
+    })),
+    downloadAttachment: jest.fn(async () => ({ ok: true, data, contentType: '' })),
+  } as any;
+}
+
+describe('fetchAttachment', () => {
+  it('renders CSV as a markdown table', async () => {
+    const client = mockClient(Buffer.from('region,total\nEU,10\n'));
+
+    const result = await fetchAttachment(client, { path: '/reports', name: 'sales.csv' });
+
+    expect(result.content[0]).toEqual(expect.objectContaining({ type: 'text' }));
+    expect((result.content[0] as any).text).toContain('| region | total |\n| --- | --- |\n| EU | 10 |');
+  });
+
+  it('returns images as image content', async () => {
+    const client = mockClient(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const result = await fetchAttachment(client, { path: '/reports', attachment_id: 'id-chart.png' });
+
+    expect(result.content[1]).toEqual({ type: 'image', data: 'iVBORw==', mimeType: 'image/png' });
+  });
+
+  it('passes the configured size cap to the download', async () => {
+    const client = mockClient(Buffer.from(''));
+
+    await fetchAttachment(client, { path: '/reports', name: 'sales.csv' }, { maxBytes: 1000 });
+
+    expect(client.downloadAttachment).toHaveBeenCalledWith(expect.objectContaining({ originalName: 'sales.csv' }), 1000);
+  });
+
+  it('reports a missing attachment', async () => {
+    const result = await fetchAttachment(mockClient(Buffer.from('')), { path: '/reports', name: 'missing.pdf' });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as any).text).toContain('Attachment not found on /reports: missing.pdf');
+  });
+});
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError, NotFoundError, errorFromInfo } from '../errors.js';
+import { GrowiAttachment } from '../types/growi.js';
+import { classifyAttachment, csvToMarkdownTable, extractPdfText } from '../attachments.js';
+import { formatBytes } from '../markdown.js';
+import { attachmentOutputSchema, formatSchema, toolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const fetchAttachmentSchema = z.object({
+  path: z.string().describe('Path of the page the file is attached to'),
+  name: z.string().optional().describe('File name of the attachment'),
+  attachment_id: z.string().optional().describe('Id of the attachment (shown by list_attachments); takes precedence over name'),
+  max_rows: z.union([z.string(), z.number()]).optional().describe('Maximum number of CSV rows to render as a table (default: 200)'),
+  format: formatSchema,
+});
+
+export const fetchAttachmentOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  attachment: attachmentOutputSchema,
+  kind: z.enum(['text', 'csv', 'image', 'pdf', 'binary']),
+  mimeType: z.string(),
+  text: z.string().optional().describe('Decoded text (text and CSV files) or extracted text (PDF)'),
+});
+
+export type FetchAttachmentParams = z.infer<typeof fetchAttachmentSchema>;
+
+// Default size cap for downloaded attachments (GROWI_ATTACHMENT_MAX_BYTES)
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+type AttachmentContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+/**
+ * 対象ページの添付ファイル一覧から ID またはファイル名で探す
+ */
+async function findAttachment(
+  client: GrowiClient,
+  pageId: string,
+  attachmentId?: string,
+  name?: string,
+): Promise<GrowiAttachment | undefined> {
+  const limit = 100;
+  for (let pageNumber = 1; ; pageNumber++) {
+    const response = await client.listAttachments(pageId, limit, pageNumber);
+    if (!response.ok) {
+      throw errorFromInfo(response.error || 'Unknown error', response.errorInfo);
+    }
+    const found = response.attachments.find((attachment) =>
+      attachmentId ? attachment._id === attachmentId : attachment.originalName === name);
+    if (found) return found;
+    if (response.attachments.length < limit || pageNumber * limit >= (response.meta?.total ?? 0)) return undefined;
+  }
+}
+
+export async function fetchAttachment(
+  client: GrowiClient,
+  params: FetchAttachmentParams,
+  options: { maxBytes?: number } = {}
+): Promise<{ content: AttachmentContent[]; structuredContent?: Record<string, unknown>; isError?: boolean }> {
+  try {
+    const parsed = fetchAttachmentSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    if (!parsed.attachment_id && !parsed.name) {
+      throw new InvalidArgumentError('Specify the attachment by name or attachment_id');
+    }
+    let maxRows = parsed.max_rows !== undefined ? Number(parsed.max_rows) : 200;
+    if (isNaN(maxRows) || maxRows < 1) maxRows = 200;
+    const maxBytes = options.maxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES;
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error fetching attachment (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    const attachment = await findAttachment(client, pageResponse.page._id, parsed.attachment_id, parsed.name);
+    if (!attachment) {
+      throw new NotFoundError(`Attachment not found on ${path}: ${parsed.attachment_id ?? parsed.name}`);
+    }
+
+    logToStderr(`Fetching attachment ${attachment.originalName} (${attachment.size} bytes) from ${path}`);
+    const response = await client.downloadAttachment(attachment, maxBytes);
+    if (!response.ok) {
+      return errorResult(`Error fetching attachment ${attachment.originalName}: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const mimeType = attachment.mimeType !== 'application/octet-stream' ? attachment.mimeType : response.contentType;
+    const kind = classifyAttachment(mimeType, attachment.originalName);
+    const header = `Attachment: ${attachment.originalName} (${mimeType}, ${formatBytes(response.data.length)})\n`;
+
+    let text: string | undefined;
+    let render: () => string;
+    switch (kind) {
+      case 'image':
+        render = () => header.trimEnd();
+        break;
+      case 'csv':
+        text = response.data.toString('utf8');
+        render = () => header + '\n' + csvToMarkdownTable(text!, maxRows);
+        break;
+      case 'text':
+        text = response.data.toString('utf8');
+        render = () => header + '\n' + text;
+        break;
+      case 'pdf':
+        text = extractPdfText(response.data);
+        render = () => header + '\n' + (text || '(no extractable text; the PDF may contain only scanned images or embedded fonts)');
+        break;
+      default:
+        render = () => header + '\nThis file type cannot be shown as text or an image.';
+    }
+
+    const result = toolResult(parsed.format, {
+      ok: true,
+      path,
+      attachment,
+      kind,
+      mimeType,
+      ...(text !== undefined ? { text } : {}),
+    }, { text: render });
+    const content: AttachmentContent[] = [{ type: 'text', text: result.content[0].text }];
+    if (kind === 'image') {
+      content.push({ type: 'image', data: response.data.toString('base64'), mimeType: mimeType.split(';')[0].trim() });
+    }
+    return { content, structuredContent: result.structuredContent };
+  } catch (error) {
+    console.error('Exception in fetchAttachment tool:', error);
+    return errorResult(`Error fetching attachment: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const fetchAttachmentTool = defineTool({
+  name: 'fetch_attachment',
+  description: 'Fetch an attachment of a page: text files are returned inline, CSV as a markdown table, PDF as extracted text and images as image content',
+  schema: fetchAttachmentSchema,
+  outputSchema: fetchAttachmentOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client, settings }) => fetchAttachment(client, params, { maxBytes: settings.attachmentMaxBytes }),
+});
@@ -46,4 +46,114 @@ describe('getPage', () => {
     // 文字数に制限がないことを確認
     expect(result.content[0].text.length).toBeGreaterThan(300);
   });
+
+  describe('section-aware reading', () => {
+    const body = [
+      '# Runbook',
+      'intro',
+      '## Deploy',
+      'deploy steps',
+      '### Rollback',
+      'rollback steps',
+      '## Monitoring',
+      'dashboards',
+      '',
+    ].join('\n');
+
+    const mockClient = {
+      getPage: jest.fn(async () => ({
+        ok: true,
+        page: { path: '/runbook', revision: { body, _id: 'rev1', author: { _id: '', name: '' }, createdAt: '' }, creator: { _id: '', name: '' }, _id: 'page1', createdAt: '', updatedAt: '' },
+      })),
+    } as any;
+
+    it('returns the heading tree in outline mode', async () => {
+      const result = await getPage(mockClient, { path: '/runbook', mode: 'outline' });
+
+      const text = result.content[0].text;
+      expect(text).toContain('1 Runbook');
+      expect(text).toContain('    1.1.1 Rollback (');
+      expect(text).not.toContain('deploy steps');
+    });
+
+    it('returns only the requested section subtree', async () => {
+      const result = await getPage(mockClient, { path: '/runbook', section: 'deploy' });
+
+      const text = result.content[0].text;
+      expect(text).toContain('Section: 1.1 Deploy');
+      expect(text).toContain('rollback steps');
+      expect(text).not.toContain('dashboards');
+      expect(text).not.toContain('intro');
+    });
+
+    it('pages through long bodies with cursors', async () => {
+      const longBody = Array.from({ length: 200 }, (_, i) => `line ${i} ${'x'.repeat(20)}`).join('\n');
+      const longClient = {
+        getPage: jest.fn(async () => ({ ok: true, page: { path: '/long', revision: { body: longBody, _id: 'rev1' } } })),
+      } as any;
+
+      let cursor: string | undefined;
+      let collected = '';
+      for (let i = 0; i < 20; i++) {
+        const result = await getPage(longClient, { path: '/long', max_bytes: 1024, cursor });
+        const text = result.content[0].text;
+        collected += text.substring(text.indexOf('\n\n') + 2);
+        cursor = text.match(/Next cursor: (\S+)/)?.[1];
+        if (!cursor) break;
+      }
+
+      expect(cursor).toBeUndefined();
+      expect(collected).toBe(longBody);
+    });
+  });
+
+  it('shows the page tags', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/adr/001', revision: { _id: 'rev1', body: 'decision' } } })),
+      getPageTags: jest.fn(async () => ({ ok: true, tags: ['adr', 'accepted'] })),
+    } as any;
+
+    const result = await getPage(mockClient, { path: '/adr/001' });
+
+    expect(mockClient.getPageTags).toHaveBeenCalledWith('page1');
+    expect(result.content[0].text).toContain('Tags: adr, accepted');
+  });
+
+  it('appends the comment threads when include_comments is set', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/runbook', revision: { _id: 'rev1', body: 'steps' }, tags: [] } })),
+      listComments: jest.fn(async () => ({
+        ok: true,
+        comments: [{ _id: 'c1', author: { _id: 'u1', name: 'alice' }, body: 'Is step 2 still needed?', createdAt: '2024-01-01' }],
+      })),
+    } as any;
+
+    const result = await getPage(mockClient, { path: '/runbook', include_comments: true });
+
+    expect(result.content[0].text).toContain('steps\n\n---\nComments (1)');
+    expect(result.content[0].text).toContain('> Is step 2 still needed?');
+  });
+
+  it('returns the selected section as structured content', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({
+        ok: true,
+        page: {
+          _id: 'p1',
+          path: '/doc',
+          revision: { _id: 'r1', body: '# A\nalpha\n# B\nbeta\n', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+          creator: { _id: 'u1', name: 'alice' },
+          createdAt: '',
+          updatedAt: '2024-02-01T00:00:00.000Z',
+          tags: [],
+        },
+      })),
+    } as any;
+
+    const result = await getPage(mockClient, { path: '/doc', section: 'B', format: 'markdown' }) as any;
+
+    expect(result.structuredContent.page.revision.body).toBe('# B\nbeta\n');
+    expect(result.structuredContent.section).toEqual({ number: '2', title: 'B' });
+    expect(result.content[0].text).toContain('# /doc\n\n- Revision: `r1`\n- Updated: 2024-02-01T00:00:00.000Z by alice');
+  });
 });
@@ -1,8 +1,11 @@
 import { z } from 'zod';
-import https from 'https';
-import http from 'http';
-import { URL } from 'url';
 import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, ConflictError, InvalidArgumentError, NotFoundError } from '../errors.js';
+import { findSection, flatten, formatBytes, formatOutline, OutlineHeading, parseOutline, sliceBytes } from '../markdown.js';
+import { GrowiComment, GrowiPage } from '../types/growi.js';
+import { commentOutputSchema, formatSchema, pageOutput, pageOutputSchema, toolResult, ToolResult } from '../output.js';
+import { buildCommentThreads, formatCommentThreads } from './list-comments.js';
+import { defineTool } from './registry.js';
 
 const logToStderr = (...args: any[]) => {
   console.error(...args);
@@ -10,155 +13,271 @@ const logToStderr = (...args: any[]) => {
 
 export const getPageSchema = z.object({
   path: z.string().describe('Path of the page to retrieve'),
+  mode: z.enum(['full', 'outline']).optional().describe('full (default) returns the body; outline returns the heading tree with section sizes'),
+  section: z.string().optional().describe('Only return this section and its subsections (outline number such as "2.1", or heading title)'),
+  max_bytes: z.union([z.string(), z.number()]).optional().describe('Return the body in chunks of at most this many bytes, with a cursor for the next chunk'),
+  cursor: z.string().optional().describe('Cursor returned by a previous call, to read the next chunk'),
+  include_comments: z.boolean().optional().describe('Append the comment threads of the page after the body (default: false)'),
+  format: formatSchema,
+});
+
+export const getPageOutputSchema = z.object({
+  ok: z.boolean(),
+  page: pageOutputSchema.describe('The page; revision.body holds only the returned section or chunk'),
+  outline: z.array(z.object({
+    number: z.string(),
+    level: z.number(),
+    title: z.string(),
+    bytes: z.number(),
+  })).optional().describe('Heading tree in document order (outline mode)'),
+  section: z.object({ number: z.string(), title: z.string() }).optional(),
+  bytes: z.object({ start: z.number(), end: z.number(), total: z.number() }).optional(),
+  nextCursor: z.string().optional().describe('Cursor to read the next chunk'),
+  comments: z.array(commentOutputSchema).optional(),
 });
 
 export type GetPageParams = z.infer<typeof getPageSchema>;
 
-function makeNativeHttpRequest(url: string, apiToken: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const parsedUrl = new URL(url);
-    logToStderr(`Making native HTTP request to: ${url}`);
-
-    const postData = `access_token=${encodeURIComponent(apiToken)}`;
-
-    const options = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-      path: `${parsedUrl.pathname}${parsedUrl.search}`,
-      method: 'GET',
-      headers: {
-        'User-Agent': 'curl/8.7.1',
-        'Accept': '*/*',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Content-Length': Buffer.byteLength(postData)
-      }
-    };
+// Smallest chunk size accepted for max_bytes
+const MIN_CHUNK_BYTES = 1024;
 
-    logToStderr(`Sending access_token in request body: ${apiToken.substring(0, 5)}...`);
-
-    const protocol = parsedUrl.protocol === 'https:' ? https : http;
-    const req = protocol.request(options, (res) => {
-      logToStderr(`Response status: ${res.statusCode}`);
-
-      let data = '';
-      res.on('data', (chunk) => {
-        data += chunk.toString();
-      });
-
-      res.on('end', () => {
-        logToStderr(`Response completed. Data length: ${data.length}`);
-
-        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-          try {
-            const jsonData = JSON.parse(data);
-            if (jsonData.page && jsonData.page.revision) {
-              const bodyLength = jsonData.page.revision.body ? jsonData.page.revision.body.length : 0;
-              logToStderr(`Got page with content length: ${bodyLength} characters`);
-              if (bodyLength > 0) {
-                const preview = jsonData.page.revision.body.substring(0, 100);
-                logToStderr(`Content preview: ${preview}...`);
-              }
-            }
-            resolve(jsonData);
-          } catch (error) {
-            reject(new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : String(error)}`));
-          }
-        } else {
-          reject(new Error(`HTTP Error: ${res.statusCode} ${res.statusMessage || ''} - ${data}`));
-        }
-      });
-    });
+interface PageData {
+  _id?: string;
+  path: string;
+  revision?: { _id?: string; body?: string };
+  tags?: string[];
+}
 
-    req.on('error', (error) => {
-      logToStderr(`Request failed: ${error.message}`);
-      reject(error);
-    });
+interface ReadCursor {
+  // Revision the cursor was issued for
+  r: string;
+  // Byte offset of the next chunk
+  o: number;
+  // Chunk size
+  m: number;
+  // Section the chunks are taken from
+  s?: string;
+}
 
-    req.write(postData);
-    req.end();
-  });
+function encodeCursor(cursor: ReadCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeCursor(value: string): ReadCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor.r === 'string' && Number.isInteger(cursor.o) && Number.isInteger(cursor.m)) {
+      return cursor;
+    }
+  } catch (error) {
+    // 下で共通のエラーにする
+  }
+  throw new InvalidArgumentError('Invalid cursor');
+}
+
+/**
+ * Part of a page selected by mode / section / chunking options
+ */
+export interface PageView {
+  // Body, section or chunk being returned (empty in outline mode)
+  content: string;
+  outline?: OutlineHeading[];
+  section?: { number: string; title: string };
+  bytes?: { start: number; end: number; total: number };
+  nextCursor?: string;
+}
+
+/**
+ * Select the part of a page to return according to mode / section / chunking options
+ */
+export function readPage(page: PageData, params: GetPageParams): PageView {
+  const revisionId = page.revision?._id || '';
+  const body = page.revision?.body || '';
+  const outline = parseOutline(body);
+
+  if (params.mode === 'outline') {
+    return { content: '', outline };
+  }
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  if (cursor && cursor.r !== revisionId) {
+    throw new ConflictError(`The page has changed since this cursor was issued (now at revision ${revisionId}); read it again without a cursor`);
+  }
+
+  const view: PageView = { content: body };
+  const sectionQuery = cursor ? cursor.s : params.section;
+  if (sectionQuery) {
+    const section = findSection(outline, sectionQuery);
+    if (!section) {
+      throw new NotFoundError(`Section not found: ${sectionQuery}`);
+    }
+    view.content = body.slice(section.start, section.end);
+    view.section = { number: section.number, title: section.title };
+  }
+
+  let maxBytes = cursor ? cursor.m : params.max_bytes !== undefined ? Number(params.max_bytes) : undefined;
+  if (maxBytes === undefined) {
+    return view;
+  }
+  if (isNaN(maxBytes) || maxBytes < MIN_CHUNK_BYTES) {
+    maxBytes = MIN_CHUNK_BYTES;
+  }
+
+  const totalBytes = Buffer.byteLength(view.content);
+  const offset = cursor ? cursor.o : 0;
+  const { chunk, nextByte } = sliceBytes(view.content, offset, maxBytes);
+  view.content = chunk;
+  view.bytes = { start: offset, end: nextByte ?? totalBytes, total: totalBytes };
+  if (nextByte !== null) {
+    view.nextCursor = encodeCursor({ r: revisionId, o: nextByte, m: maxBytes, s: sectionQuery });
+  }
+  return view;
+}
+
+function renderView(page: PageData, view: PageView, body: string): string {
+  let text = `Page: ${page.path}\n`;
+  if (page.revision?._id) {
+    text += `Revision: ${page.revision._id}\n`;
+  }
+  if (Array.isArray(page.tags) && page.tags.length > 0) {
+    text += `Tags: ${page.tags.join(', ')}\n`;
+  }
+
+  if (view.outline) {
+    text += `Outline (${formatBytes(Buffer.byteLength(body))} total)\n\n`;
+    text += view.outline.length > 0 ? formatOutline(view.outline) : '(no headings)\n';
+    return text;
+  }
+  if (view.section) {
+    text += `Section: ${view.section.number} ${view.section.title}\n`;
+  }
+  if (view.bytes) {
+    text += `Bytes: ${view.bytes.start}-${view.bytes.end} of ${view.bytes.total}\n`;
+    if (view.nextCursor) {
+      text += `Next cursor: ${view.nextCursor}\n`;
+    }
+  }
+  return text + '\n' + view.content;
+}
+
+/**
+ * Build the tool output for a page according to mode / section / chunking options
+ */
+export function renderPage(page: PageData, params: GetPageParams): string {
+  return renderView(page, readPage(page, params), page.revision?.body || '');
+}
+
+/**
+ * Render a page as markdown: the path as title, its metadata as a list and the content
+ */
+function renderViewMarkdown(page: GrowiPage, view: PageView): string {
+  let text = `# ${page.path}\n\n`;
+  text += `- Revision: \`${page.revision._id}\`\n`;
+  text += `- Updated: ${page.updatedAt}${page.revision.author.name ? ` by ${page.revision.author.name}` : ''}\n`;
+  text += `- Created: ${page.createdAt}${page.creator.name ? ` by ${page.creator.name}` : ''}\n`;
+  if (page.tags && page.tags.length > 0) {
+    text += `- Tags: ${page.tags.map((tag) => `\`${tag}\``).join(', ')}\n`;
+  }
+  if (view.section) {
+    text += `- Section: ${view.section.number} ${view.section.title}\n`;
+  }
+  if (view.bytes) {
+    text += `- Bytes: ${view.bytes.start}-${view.bytes.end} of ${view.bytes.total}\n`;
+    if (view.nextCursor) {
+      text += `- Next cursor: \`${view.nextCursor}\`\n`;
+    }
+  }
+
+  if (view.outline) {
+    return text + '\n## Outline\n\n' + (view.outline.length > 0
+      ? flatten(view.outline).map((heading) => `${'  '.repeat(heading.level - 1)}- ${heading.number} ${heading.title} (${formatBytes(heading.bytes)})`).join('\n')
+      : '(no headings)');
+  }
+  return text + '\n---\n\n' + view.content;
 }
 
 export async function getPage(
   client: GrowiClient,
   params: GetPageParams
-): Promise<{ content: { type: string; text: string }[] }> {
+): Promise<ToolResult> {
   try {
     const parsed = getPageSchema.parse(params);
     let path = parsed.path;
     if (!path.startsWith('/')) path = '/' + path;
 
-    try {
-      const apiUrl = (client as any).baseURL;
-      const apiToken = (client as any).apiToken;
+    logToStderr(`Fetching page at path: ${path}`);
+    const response = await client.getPage(path);
 
-      if (!apiUrl || !apiToken) {
-        throw new Error('Missing API URL or token');
-      }
+    if (!response.ok) {
+      logToStderr(`Client getPage failed: ${response.error}`);
+      return errorResult(`Error getting page: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+    let page: GrowiPage = response.page;
 
-      const url = new URL(`${apiUrl}/_api/v3/page`);
-      url.searchParams.append('path', path);
-
-      logToStderr(`Fetching page at path: ${path}`);
-      const data = await makeNativeHttpRequest(url.toString(), apiToken);
-
-      if (data && data.page) {
-        let text = `Page: ${data.page.path}\n\n`;
-        if (data.page.revision?.body) {
-          const fullBody = data.page.revision.body;
-          logToStderr(`Full page body length: ${fullBody.length} characters`);
-          text += fullBody;
-          logToStderr(`Response text length (after adding to text): ${text.length} characters`);
-        } else {
-          logToStderr(`Warning: No revision body found for page: ${path}`);
+    if (!Array.isArray(page.tags) && page._id) {
+      try {
+        const tagsResponse = await client.getPageTags(page._id);
+        if (tagsResponse.ok) {
+          page = { ...page, tags: tagsResponse.tags };
         }
-        const resultObj = { content: [{ type: 'text', text }] };
-        logToStderr(`Final result object: ${JSON.stringify(resultObj).substring(0, 150)}...`);
-        return resultObj;
-      } else {
-        logToStderr(`API returned data but without page content: ${JSON.stringify(data).substring(0, 200)}...`);
+      } catch (tagsError) {
+        // タグが取得できなくても本文は返す
+        logToStderr(`Failed to fetch tags for ${path}: ${tagsError instanceof Error ? tagsError.message : String(tagsError)}`);
       }
-    } catch (directError) {
-      logToStderr(`Direct request failed: ${directError instanceof Error ? directError.message : String(directError)}`);
     }
 
-    logToStderr(`Falling back to client.getPage method for path: ${path}`);
-    const response = await client.getPage(path);
-
-    if (!response.ok) {
-      logToStderr(`Client getPage failed: ${response.error}`);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error getting page: ${response.error || 'Unknown error'}`,
-          },
-        ],
-      };
+    const view = readPage(page, parsed);
+    let comments: GrowiComment[] | undefined;
+    let commentsError: string | undefined;
+    if (parsed.include_comments && page._id) {
+      const commentsResponse = await client.listComments(page._id);
+      if (commentsResponse.ok) {
+        comments = commentsResponse.comments;
+      } else {
+        commentsError = commentsResponse.error || 'Unknown error';
+      }
     }
 
-    let text = `Page: ${response.page.path}\n\n`;
-    if (response.page.revision?.body) {
-      const fullBody = response.page.revision.body;
-      logToStderr(`Client method: Full page body length: ${fullBody.length} characters`);
-      text += fullBody;
-    } else {
-      logToStderr(`Client method: Warning: No revision body found for page: ${path}`);
-    }
+    const renderComments = (headingPrefix: string) => {
+      if (commentsError) return `\n\n---\nComments could not be loaded: ${commentsError}`;
+      if (!comments) return '';
+      const threads = buildCommentThreads(comments);
+      return `\n\n---\n${headingPrefix}Comments (${comments.length})\n\n`
+        + (threads.length > 0 ? formatCommentThreads(threads).trimEnd() : '(no comments)');
+    };
+
+    // 構造化出力の本文は返却する範囲（セクションやチャンク）のみ
+    const output = pageOutput(page);
+    output.revision.body = view.content;
+    const data = {
+      ok: true,
+      page: output,
+      ...(view.outline
+        ? { outline: flatten(view.outline).map(({ number, level, title, bytes }) => ({ number, level, title, bytes })) }
+        : {}),
+      ...(view.section ? { section: view.section } : {}),
+      ...(view.bytes ? { bytes: view.bytes } : {}),
+      ...(view.nextCursor ? { nextCursor: view.nextCursor } : {}),
+      ...(comments ? { comments } : {}),
+    };
 
-    const resultObj = { content: [{ type: 'text', text }] };
-    logToStderr(`Client method: Final result object: ${JSON.stringify(resultObj).substring(0, 150)}...`);
-    return resultObj;
+    const result = toolResult(parsed.format, data, {
+      text: () => renderView(page, view, page.revision.body) + renderComments(''),
+      markdown: () => renderViewMarkdown(page, view) + renderComments('## '),
+    });
+    logToStderr(`Response text length: ${result.content[0].text.length} characters (mode: ${parsed.mode || 'full'})`);
+    return result;
   } catch (error) {
     console.error('Exception in getPage tool:', error);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error getting page: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-    };
+    return errorResult(`Error getting page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
   }
 }
 
+export const getPageTool = defineTool({
+  name: 'get_page',
+  description: 'Get the contents of a single GROWI page, its heading outline, a single section, or the body in chunks',
+  schema: getPageSchema,
+  outputSchema: getPageOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => getPage(client, params),
+});
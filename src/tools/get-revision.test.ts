@@ -0,0 +1,20 @@
+import { jest } from '@jest/globals';
+import { getRevision } from './get-revision.js';
+
+describe('getRevision', () => {
+  it('returns the revision body with its metadata', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/runbook', revision: { _id: 'rev2' } } })),
+      getRevision: jest.fn(async () => ({
+        ok: true,
+        revision: { _id: 'rev1', body: 'old body', author: { _id: 'u2', name: 'bob' }, createdAt: '2024-01-01T00:00:00.000Z' },
+      })),
+    } as any;
+
+    const result = await getRevision(mockClient, { path: '/runbook', revision_id: 'rev1' });
+
+    expect(mockClient.getRevision).toHaveBeenCalledWith('page1', 'rev1');
+    expect(result.content[0].text).toContain('Author: bob');
+    expect(result.content[0].text).toContain('old body');
+  });
+});
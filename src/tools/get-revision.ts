@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, revisionOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const getRevisionSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  revision_id: z.string().describe('Id of the revision to retrieve, as returned by list_revisions'),
+  format: formatSchema,
+});
+
+export const getRevisionOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  pageId: z.string(),
+  revision: revisionOutputSchema,
+});
+
+export type GetRevisionParams = z.infer<typeof getRevisionSchema>;
+
+export async function getRevision(
+  client: GrowiClient,
+  params: GetRevisionParams
+): Promise<ToolResult> {
+  try {
+    const parsed = getRevisionSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error getting revision (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    logToStderr(`Fetching revision ${parsed.revision_id} of ${path}`);
+    const response = await client.getRevision(pageResponse.page._id, parsed.revision_id);
+    if (!response.ok) {
+      return errorResult(`Error getting revision (path: ${path}, revision: ${parsed.revision_id}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const { revision } = response;
+    const author = revision.author.name || revision.author._id || 'unknown';
+    return toolResult(parsed.format, { ok: true, path, pageId: pageResponse.page._id, revision }, {
+      text: () => {
+        let text = `Page: ${path}\n`;
+        text += `Revision: ${revision._id}\n`;
+        text += `Author: ${author}\n`;
+        text += `Created: ${revision.createdAt}\n\n`;
+        return text + revision.body;
+      },
+      markdown: () => `# ${path}\n\n- Revision: \`${revision._id}\`\n- Author: ${author}\n- Created: ${revision.createdAt}\n\n---\n\n${revision.body}`,
+    });
+  } catch (error) {
+    console.error('Exception in getRevision tool:', error);
+    return errorResult(`Error getting revision: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const getRevisionTool = defineTool({
+  name: 'get_revision',
+  description: 'Get the body of a specific revision of a GROWI page',
+  schema: getRevisionSchema,
+  outputSchema: getRevisionOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => getRevision(client, params),
+});
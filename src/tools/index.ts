@@ -0,0 +1,74 @@
+/**
+ * Every tool of the server, in the order of tools/list
+ * A new tool only needs its module's ToolDefinition added here.
+ */
+import { ToolDefinition } from './registry.js';
+import { listPagesTool } from './list-pages.js';
+import { recentlyUpdatedPagesTool } from './recently-updated-pages.js';
+import { changesSinceTool } from './changes-since.js';
+import { getPageTool } from './get-page.js';
+import { searchPagesTool } from './search-pages.js';
+import { localSearchTool } from './local-search.js';
+import { syncLocalIndexTool } from './sync-local-index.js';
+import { createPageTool } from './create-page.js';
+import { updatePageTool } from './update-page.js';
+import { appendToPageTool } from './append-to-page.js';
+import { movePageTool } from './move-page.js';
+import { duplicatePageTool } from './duplicate-page.js';
+import { trashPageTool } from './trash-page.js';
+import { restorePageTool } from './restore-page.js';
+import { listTrashTool } from './list-trash.js';
+import { deletePageTool } from './delete-page.js';
+import { listRevisionsTool } from './list-revisions.js';
+import { getRevisionTool } from './get-revision.js';
+import { diffRevisionsTool } from './diff-revisions.js';
+import { pageTreeTool } from './page-tree.js';
+import { pageLinksTool } from './page-links.js';
+import { backlinksTool } from './backlinks.js';
+import { brokenLinksTool } from './broken-links.js';
+import { exportSubtreeTool } from './export-subtree.js';
+import { listTagsTool } from './list-tags.js';
+import { pagesByTagTool } from './pages-by-tag.js';
+import { updatePageTagsTool } from './update-page-tags.js';
+import { listCommentsTool } from './list-comments.js';
+import { postCommentTool } from './post-comment.js';
+import { listAttachmentsTool } from './list-attachments.js';
+import { fetchAttachmentTool } from './fetch-attachment.js';
+import { manageCacheTool } from './manage-cache.js';
+import { searchAllInstancesTool } from './search-all-instances.js';
+
+export const tools: ToolDefinition<any>[] = [
+  listPagesTool,
+  recentlyUpdatedPagesTool,
+  changesSinceTool,
+  getPageTool,
+  searchPagesTool,
+  localSearchTool,
+  syncLocalIndexTool,
+  createPageTool,
+  updatePageTool,
+  appendToPageTool,
+  movePageTool,
+  duplicatePageTool,
+  trashPageTool,
+  restorePageTool,
+  listTrashTool,
+  deletePageTool,
+  listRevisionsTool,
+  getRevisionTool,
+  diffRevisionsTool,
+  pageTreeTool,
+  pageLinksTool,
+  backlinksTool,
+  brokenLinksTool,
+  exportSubtreeTool,
+  listTagsTool,
+  pagesByTagTool,
+  updatePageTagsTool,
+  listCommentsTool,
+  postCommentTool,
+  listAttachmentsTool,
+  fetchAttachmentTool,
+  manageCacheTool,
+  searchAllInstancesTool,
+];
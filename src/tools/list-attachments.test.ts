@@ -0,0 +1,28 @@
+import { jest } from '@jest/globals';
+import { listAttachments } from './list-attachments.js';
+
+describe('listAttachments', () => {
+  it('lists name, type, size and uploader', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/reports' } })),
+      listAttachments: jest.fn(async () => ({
+        ok: true,
+        attachments: [{
+          _id: 'a1',
+          originalName: 'sales.csv',
+          mimeType: 'text/csv',
+          size: 2048,
+          creator: { _id: 'u1', name: 'alice' },
+          createdAt: '2024-01-01T00:00:00.000Z',
+        }],
+        meta: { total: 1, limit: 50, page: 1 },
+      })),
+    } as any;
+
+    const result = await listAttachments(mockClient, { path: '/reports' });
+
+    expect(mockClient.listAttachments).toHaveBeenCalledWith('page1', 50, 1);
+    expect(result.content[0].text).toContain('1. sales.csv\n   ID: a1\n   Type: text/csv, Size: 2.0 KB');
+    expect(result.content[0].text).toContain('Uploaded by alice at 2024-01-01');
+  });
+});
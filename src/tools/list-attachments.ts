@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatBytes } from '../markdown.js';
+import {
+  attachmentOutputSchema, formatSchema, markdownTable, pageNumberMetaOutputSchema, shortDate, toolResult, ToolResult,
+} from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const listAttachmentsSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of attachments to return (default: 50)'),
+  page: z.union([z.string(), z.number()]).optional().describe('Page number for pagination (default: 1)'),
+  format: formatSchema,
+});
+
+export const listAttachmentsOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  attachments: z.array(attachmentOutputSchema),
+  meta: pageNumberMetaOutputSchema.optional(),
+});
+
+export type ListAttachmentsParams = z.infer<typeof listAttachmentsSchema>;
+
+export async function listAttachments(
+  client: GrowiClient,
+  params: ListAttachmentsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = listAttachmentsSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 50;
+    if (isNaN(limit) || limit < 1) {
+      limit = 50;
+    } else if (limit > 100) {
+      limit = 100;
+    }
+    let pageNumber = parsed.page !== undefined ? Number(parsed.page) : 1;
+    if (isNaN(pageNumber) || pageNumber < 1) pageNumber = 1;
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error listing attachments (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    logToStderr(`Listing attachments of ${path}: limit=${limit}, page=${pageNumber}`);
+    const response = await client.listAttachments(pageResponse.page._id, limit, pageNumber);
+    if (!response.ok) {
+      return errorResult(`Error listing attachments (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const data = { ok: true, path, attachments: response.attachments, ...(response.meta ? { meta: response.meta } : {}) };
+    if (response.attachments.length === 0) {
+      return toolResult(parsed.format, data, { text: () => `No attachments on ${path}` });
+    }
+
+    const offset = (pageNumber - 1) * limit;
+    const uploader = (attachment: { creator: { _id: string; name: string } }) => attachment.creator.name || attachment.creator._id || 'unknown';
+    const footer = response.meta
+      ? `Showing ${offset + 1}-${offset + response.attachments.length} of ${response.meta.total} total attachments`
+      : '';
+
+    return toolResult(parsed.format, data, {
+      text: () => {
+        let text = `Found ${response.attachments.length} attachments on ${path}\n\n`;
+        response.attachments.forEach((attachment, index) => {
+          text += `${offset + index + 1}. ${attachment.originalName}\n`;
+          text += `   ID: ${attachment._id}\n`;
+          text += `   Type: ${attachment.mimeType}, Size: ${formatBytes(attachment.size)}\n`;
+          text += `   Uploaded by ${uploader(attachment)}`
+            + `${attachment.createdAt ? ` at ${attachment.createdAt}` : ''}\n\n`;
+        });
+        return (text + footer).trimEnd();
+      },
+      markdown: () => (`## Attachments of ${path}\n\n`
+        + markdownTable(
+          ['Name', 'ID', 'Type', 'Size', 'Uploaded by', 'Uploaded'],
+          response.attachments.map((attachment) => [
+            attachment.originalName, attachment._id, attachment.mimeType, formatBytes(attachment.size), uploader(attachment), shortDate(attachment.createdAt),
+          ]),
+        )
+        + `\n${footer}`).trimEnd(),
+    });
+  } catch (error) {
+    console.error('Exception in listAttachments tool:', error);
+    return errorResult(`Error listing attachments: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const listAttachmentsTool = defineTool({
+  name: 'list_attachments',
+  description: 'List the files attached to a page with name, size, MIME type and uploader',
+  schema: listAttachmentsSchema,
+  outputSchema: listAttachmentsOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listAttachments(client, params),
+});
@@ -0,0 +1,45 @@
+import { jest } from '@jest/globals';
+import { buildCommentThreads, listComments } from './list-comments.js';
+
+const comment = (id: string, createdAt: string, replyTo?: string) => ({
+  _id: id,
+  pageId: 'page1',
+  revisionId: 'rev1',
+  author: { _id: 'u1', name: 'alice' },
+  body: `comment ${id}`,
+  replyTo,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe('buildCommentThreads', () => {
+  it('nests replies under their parent and keeps orphans at the top level', () => {
+    const threads = buildCommentThreads([
+      comment('c3', '2024-01-03', 'c1'),
+      comment('c1', '2024-01-01'),
+      comment('c2', '2024-01-02'),
+      comment('c4', '2024-01-04', 'deleted'),
+    ]);
+
+    expect(threads.map((thread) => thread.comment._id)).toEqual(['c1', 'c2', 'c4']);
+    expect(threads[0].replies.map((reply) => reply.comment._id)).toEqual(['c3']);
+  });
+});
+
+describe('listComments', () => {
+  it('renders threads with comment ids and authors', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/runbook', revision: { _id: 'rev1' } } })),
+      listComments: jest.fn(async () => ({
+        ok: true,
+        comments: [comment('c1', '2024-01-01'), comment('c2', '2024-01-02', 'c1')],
+      })),
+    } as any;
+
+    const result = await listComments(mockClient, { path: 'runbook' });
+
+    expect(mockClient.listComments).toHaveBeenCalledWith('page1');
+    expect(result.content[0].text).toContain('2 comments in 1 threads on /runbook');
+    expect(result.content[0].text).toContain('- [c1] alice at 2024-01-01\n  > comment c1\n  - [c2] alice');
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { GrowiComment } from '../types/growi.js';
+import { commentOutputSchema, formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const listCommentsSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  format: formatSchema,
+});
+
+export const listCommentsOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  pageId: z.string(),
+  comments: z.array(commentOutputSchema).describe('All comments, oldest first; replies reference their parent with replyTo'),
+});
+
+export type ListCommentsParams = z.infer<typeof listCommentsSchema>;
+
+export interface CommentThread {
+  comment: GrowiComment;
+  replies: CommentThread[];
+}
+
+/**
+ * Group comments into reply threads, oldest first
+ * Replies to comments that no longer exist are shown as top-level threads.
+ */
+export function buildCommentThreads(comments: GrowiComment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const nodes = new Map<string, CommentThread>();
+  sorted.forEach((comment) => nodes.set(comment._id, { comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  for (const comment of sorted) {
+    const node = nodes.get(comment._id)!;
+    const parent = comment.replyTo && comment.replyTo !== comment._id ? nodes.get(comment.replyTo) : undefined;
+    (parent ? parent.replies : roots).push(node);
+  }
+  return roots;
+}
+
+function formatComment(comment: GrowiComment, indent: string): string {
+  const author = comment.author.name || comment.author._id || 'unknown';
+  let text = `${indent}- [${comment._id}] ${author} at ${comment.createdAt || 'unknown time'}\n`;
+  for (const line of comment.body.replace(/\r\n/g, '\n').split('\n')) {
+    text += `${indent}  > ${line}\n`;
+  }
+  return text;
+}
+
+/**
+ * Render comment threads as a nested list with the comment ids needed to reply
+ */
+export function formatCommentThreads(threads: CommentThread[], depth: number = 0): string {
+  return threads.map((thread) => {
+    const indent = '  '.repeat(depth);
+    return formatComment(thread.comment, indent) + formatCommentThreads(thread.replies, depth + 1);
+  }).join('');
+}
+
+export async function listComments(
+  client: GrowiClient,
+  params: ListCommentsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = listCommentsSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error listing comments (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    logToStderr(`Listing comments of ${path} (page id: ${pageResponse.page._id})`);
+    const response = await client.listComments(pageResponse.page._id);
+    if (!response.ok) {
+      return errorResult(`Error listing comments (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const data = { ok: true, path, pageId: pageResponse.page._id, comments: response.comments };
+    if (response.comments.length === 0) {
+      return toolResult(parsed.format, data, { text: () => `No comments on ${path}` });
+    }
+
+    const threads = buildCommentThreads(response.comments);
+    return toolResult(parsed.format, data, {
+      text: () => (`${response.comments.length} comments in ${threads.length} threads on ${path}\n\n`
+        + formatCommentThreads(threads)).trimEnd(),
+    });
+  } catch (error) {
+    console.error('Exception in listComments tool:', error);
+    return errorResult(`Error listing comments: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const listCommentsTool = defineTool({
+  name: 'list_comments',
+  description: 'List the comments on a page as reply threads with author, time and comment ids',
+  schema: listCommentsSchema,
+  outputSchema: listCommentsOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listComments(client, params),
+});
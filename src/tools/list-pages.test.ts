@@ -17,4 +17,53 @@ describe('listPages', () => {
 
     expect(result.content[0].text).toContain('/test');
   });
+
+  it('returns an error result with the error code', async () => {
+    const mockClient = {
+      listPages: jest.fn(async () => ({
+        ok: false,
+        error: 'Unauthorized (HTTP 401); check the GROWI API token',
+        errorInfo: { code: 'UNAUTHORIZED', status: 401 },
+        pages: [],
+      })),
+    } as any;
+
+    const result = await listPages(mockClient, { path: '/test' }) as any;
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.error).toEqual(expect.objectContaining({ code: 'UNAUTHORIZED', status: 401 }));
+  });
+
+  it('returns the pages as structured content and JSON', async () => {
+    const page = {
+      _id: 'p1',
+      path: '/test',
+      revision: { _id: 'r1', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+      creator: { _id: 'u1', name: 'alice' },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    };
+    const mockClient = {
+      listPages: jest.fn(async () => ({ ok: true, pages: [page], meta: { total: 1, limit: 100, offset: 0 } })),
+    } as any;
+
+    const result = await listPages(mockClient, { path: '/test', format: 'json' });
+
+    expect(result.structuredContent).toEqual({ ok: true, path: '/test', pages: [page], meta: { total: 1, limit: 100, offset: 0 } });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+  });
+
+  it('renders a markdown table with the last editor', async () => {
+    const mockClient = {
+      listPages: jest.fn(async () => ({
+        ok: true,
+        pages: [{ path: '/test', revision: { _id: 'r1', author: { name: 'alice' } }, updatedAt: '2024-02-01T00:00:00.000Z' } as any],
+        meta: { total: 1, limit: 100, offset: 0 },
+      })),
+    } as any;
+
+    const result = await listPages(mockClient, { path: '/test', format: 'markdown' });
+
+    expect(result.content[0].text).toContain('| /test | 2024-02-01 | alice | r1 |');
+  });
 });
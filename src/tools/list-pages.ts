@@ -1,9 +1,11 @@
 import { z } from 'zod';
-import https from 'https';
-import http from 'http';
-import { URL } from 'url';
 import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
 import { GrowiPage } from '../types/growi.js';
+import {
+  formatSchema, markdownTable, offsetMetaOutputSchema, pageOutput, pageOutputSchema, shortDate, toolResult, ToolResult,
+} from '../output.js';
+import { defineTool } from './registry.js';
 
 // Ensure logging goes to stderr
 const logToStderr = (...args: any[]) => {
@@ -14,6 +16,14 @@ export const listPagesSchema = z.object({
   path: z.union([z.string(), z.number()]).optional().describe('Path prefix to list pages from (default: /)'),
   limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to return (default: 100)'),
   page: z.union([z.string(), z.number()]).optional().describe('Page number (1-based, default: 1)'),
+  format: formatSchema,
+});
+
+export const listPagesOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  pages: z.array(pageOutputSchema),
+  meta: offsetMetaOutputSchema.optional(),
 });
 
 export type ListPagesParams = z.infer<typeof listPagesSchema>;
@@ -22,6 +32,7 @@ interface NormalizedParams {
   path: string;
   limit: number;
   page: number;
+  format?: ListPagesParams['format'];
 }
 
 function normalizeParams(params?: ListPagesParams): NormalizedParams {
@@ -56,7 +67,7 @@ function normalizeParams(params?: ListPagesParams): NormalizedParams {
     logToStderr(`Invalid page value, reset to default: ${page}`);
   }
 
-  return { path, limit, page };
+  return { path, limit, page, format: parsed.format };
 }
 
 function formatResultText(
@@ -92,115 +103,23 @@ function formatResultText(
 }
 
 /**
- * 直接HTTPリクエストを実行する関数
- * curlコマンドと同様の挙動を実現する
+ * Render pages as a markdown table with their last update
  */
-function makeNativeHttpRequest(url: string, apiToken: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const parsedUrl = new URL(url);
-    logToStderr(`Making native HTTP request to: ${url}`);
-    
-    // トークンデータをx-www-form-urlencodedデータとして準備
-    const postData = `access_token=${encodeURIComponent(apiToken)}`;
-    
-    const options = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-      path: `${parsedUrl.pathname}${parsedUrl.search}`,
-      method: 'GET',
-      headers: {
-        'User-Agent': 'curl/8.7.1', 
-        'Accept': '*/*',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Content-Length': Buffer.byteLength(postData)
-      }
-    };
-    
-    logToStderr(`Sending access_token in request body: ${apiToken.substring(0, 5)}...`);
-    
-    const protocol = parsedUrl.protocol === 'https:' ? https : http;
-    const req = protocol.request(options, (res) => {
-      logToStderr(`Response status: ${res.statusCode}`);
-      
-      let data = '';
-      res.on('data', (chunk) => {
-        data += chunk.toString();
-      });
-      
-      res.on('end', () => {
-        logToStderr(`Response completed. Data length: ${data.length}`);
-        
-        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-          try {
-            const jsonData = JSON.parse(data);
-            logToStderr(`Got ${jsonData.pages?.length || 0} pages out of ${jsonData.totalCount || 0} total`);
-            resolve(jsonData);
-          } catch (error) {
-            reject(new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : String(error)}`));
-          }
-        } else {
-          reject(new Error(`HTTP Error: ${res.statusCode} ${res.statusMessage || ''} - ${data}`));
-        }
-      });
-    });
-    
-    req.on('error', (error) => {
-      logToStderr(`Request failed: ${error.message}`);
-      reject(error);
-    });
-    
-    // Send the request with the access token in the body
-    req.write(postData);
-    req.end();
-  });
+export function formatPagesMarkdown(pages: GrowiPage[]): string {
+  return markdownTable(
+    ['Path', 'Updated', 'Last editor', 'Revision'],
+    pages.map((p) => [p.path, shortDate(p.updatedAt), p.revision.author.name, p.revision._id]),
+  );
 }
 
 export async function listPages(
   client: GrowiClient,
   params: ListPagesParams
-): Promise<{ content: { type: string; text: string }[] }> {
+): Promise<ToolResult> {
   try {
-    const { path, limit, page } = normalizeParams(params);
+    const { path, limit, page, format } = normalizeParams(params);
     logToStderr(`Calling GROWI API with: path="${path}", limit=${limit}, page=${page}`);
     
-    // ここで直接curlと同様のHTTPリクエストを実行
-    try {
-      const apiUrl = (client as any).baseURL;
-      const apiToken = (client as any).apiToken;
-      
-      if (!apiUrl || !apiToken) {
-        throw new Error('Missing API URL or token');
-      }
-
-      // curlで成功するのと同じURLを構築 - URL は自動的にエンコードを行うため注意
-      const url = new URL(`${apiUrl}/_api/v3/pages/list`);
-      url.searchParams.append('path', path);
-      url.searchParams.append('limit', String(limit));
-      url.searchParams.append('page', String(page));
-      
-      // トークンはリクエストボディで送信するため、URLには含めない
-      const urlString = url.toString();
-      
-      // 直接HTTPリクエストを行う
-      const data = await makeNativeHttpRequest(urlString, apiToken);
-
-      if (data && data.pages) {
-        const resultText = formatResultText(path, data.pages, data.totalCount, limit, page);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: resultText,
-            },
-          ],
-        };
-      }
-    } catch (directError) {
-      logToStderr(`Direct request failed: ${directError instanceof Error ? directError.message : String(directError)}`);
-      // エラーの場合はここでcatchして、次の処理に進む
-    }
-    
-    // GrowiClientを使用したフォールバック処理
     const response = await client.listPages(path, limit, page);
 
     // Log more detailed response info for debugging
@@ -214,43 +133,36 @@ export async function listPages(
 
     if (!response.ok) {
       console.error(`GROWI API returned error: ${response.error || 'Unknown error'}`);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error listing pages (path: ${path}, offset: ${(page-1) * limit}): ${response.error || 'Unknown error'}`,
-          },
-        ],
-      };
+      return errorResult(`Error listing pages (path: ${path}, offset: ${(page-1) * limit}): ${response.error || 'Unknown error'}`, response.errorInfo);
     }
 
     logToStderr(`GROWI API returned ${response.pages?.length || 0} pages`);
 
-    const resultText = formatResultText(
-      path,
-      response.pages,
-      response.meta?.total,
-      limit,
-      page,
-    );
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: resultText,
-        },
-      ],
-    };
+    const pages = response.pages.map(pageOutput);
+    return toolResult(format, { ok: true, path, pages, ...(response.meta ? { meta: response.meta } : {}) }, {
+      text: () => formatResultText(
+        path,
+        response.pages,
+        response.meta?.total,
+        limit,
+        page,
+      ),
+      markdown: () => pages.length === 0
+        ? `No pages found under path: ${path}`
+        : `## Pages under ${path}\n\n${formatPagesMarkdown(pages)}`
+          + (response.meta ? `\nShowing ${response.meta.offset + 1}-${response.meta.offset + pages.length} of ${response.meta.total} total pages` : ''),
+    });
   } catch (error) {
     console.error('Exception in listPages tool:', error);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error listing pages: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-    };
+    return errorResult(`Error listing pages: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
   }
-} 
\ No newline at end of file
+} 
+
+export const listPagesTool = defineTool({
+  name: 'list_pages',
+  description: 'List GROWI pages under a specific path',
+  schema: listPagesSchema,
+  outputSchema: listPagesOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listPages(client, params),
+});
@@ -0,0 +1,26 @@
+import { jest } from '@jest/globals';
+import { listRevisions } from './list-revisions.js';
+
+describe('listRevisions', () => {
+  it('lists revision ids, authors and timestamps', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/runbook', revision: { _id: 'rev2' } } })),
+      listRevisions: jest.fn(async () => ({
+        ok: true,
+        revisions: [
+          { _id: 'rev2', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '2024-01-02T00:00:00.000Z' },
+          { _id: 'rev1', body: '', author: { _id: 'u2', name: 'bob' }, createdAt: '2024-01-01T00:00:00.000Z' },
+        ],
+        meta: { total: 2, limit: 20, page: 1 },
+      })),
+    } as any;
+
+    const result = await listRevisions(mockClient, { path: '/runbook' });
+
+    expect(mockClient.listRevisions).toHaveBeenCalledWith('page1', 20, 1);
+    const text = result.content[0].text;
+    expect(text).toContain('- rev2  2024-01-02T00:00:00.000Z  by alice (current)');
+    expect(text).toContain('- rev1  2024-01-01T00:00:00.000Z  by bob');
+    expect(text).toContain('of 2 total revisions');
+  });
+});
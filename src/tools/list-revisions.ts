@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import {
+  formatSchema, markdownTable, pageNumberMetaOutputSchema, revisionOutputSchema, toolResult, ToolResult,
+} from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const listRevisionsSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of revisions to return (default: 20)'),
+  page: z.union([z.string(), z.number()]).optional().describe('Page number (1-based, default: 1)'),
+  format: formatSchema,
+});
+
+export const listRevisionsOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  pageId: z.string(),
+  currentRevisionId: z.string(),
+  revisions: z.array(revisionOutputSchema),
+  meta: pageNumberMetaOutputSchema.optional(),
+});
+
+export type ListRevisionsParams = z.infer<typeof listRevisionsSchema>;
+
+export async function listRevisions(
+  client: GrowiClient,
+  params: ListRevisionsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = listRevisionsSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 20;
+    if (isNaN(limit) || limit < 1) {
+      limit = 20;
+    } else if (limit > 100) {
+      limit = 100;
+    }
+    let page = parsed.page !== undefined ? Number(parsed.page) : 1;
+    if (isNaN(page) || page < 1) page = 1;
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error listing revisions (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    logToStderr(`Listing revisions of ${path} (pageId: ${pageResponse.page._id}), limit=${limit}, page=${page}`);
+    const response = await client.listRevisions(pageResponse.page._id, limit, page);
+    if (!response.ok) {
+      return errorResult(`Error listing revisions (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const currentId = pageResponse.page.revision._id;
+    const data = {
+      ok: true,
+      path,
+      pageId: pageResponse.page._id,
+      currentRevisionId: currentId,
+      // 一覧では本文を返さない
+      revisions: response.revisions.map((revision) => ({ ...revision, body: '' })),
+      ...(response.meta ? { meta: response.meta } : {}),
+    };
+    if (response.revisions.length === 0) {
+      return toolResult(parsed.format, data, { text: () => `No revisions found for page: ${path}` });
+    }
+
+    const authorOf = (revision: { author: { _id: string; name: string } }) => revision.author.name || revision.author._id || 'unknown';
+    const offset = (page - 1) * limit;
+    const total = response.meta?.total ?? response.revisions.length;
+    const footer = `Showing ${offset + 1}-${offset + response.revisions.length} of ${total} total revisions`;
+
+    return toolResult(parsed.format, data, {
+      text: () => {
+        let text = `Revisions of ${path} (newest first)\n\n`;
+        response.revisions.forEach((revision) => {
+          const current = revision._id === currentId ? ' (current)' : '';
+          text += `- ${revision._id}  ${revision.createdAt}  by ${authorOf(revision)}${current}\n`;
+        });
+        return text + `\n${footer}`;
+      },
+      markdown: () => `## Revisions of ${path}\n\n`
+        + markdownTable(
+          ['Revision', 'Created', 'Author', ''],
+          response.revisions.map((revision) => [revision._id, revision.createdAt, authorOf(revision), revision._id === currentId ? 'current' : '']),
+        )
+        + `\n${footer}`,
+    });
+  } catch (error) {
+    console.error('Exception in listRevisions tool:', error);
+    return errorResult(`Error listing revisions: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const listRevisionsTool = defineTool({
+  name: 'list_revisions',
+  description: 'List the revision history of a GROWI page (revision id, author, timestamp)',
+  schema: listRevisionsSchema,
+  outputSchema: listRevisionsOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listRevisions(client, params),
+});
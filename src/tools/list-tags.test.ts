@@ -0,0 +1,19 @@
+import { jest } from '@jest/globals';
+import { listTags } from './list-tags.js';
+
+describe('listTags', () => {
+  it('lists tags with usage counts', async () => {
+    const mockClient = {
+      listTags: jest.fn(async () => ({
+        ok: true,
+        tags: [{ name: 'adr', count: 12 }, { name: 'draft', count: 1 }],
+        meta: { total: 2, limit: 50, offset: 0 },
+      })),
+    } as any;
+
+    const result = await listTags(mockClient, {});
+
+    expect(result.content[0].text).toContain('- adr (12 pages)');
+    expect(result.content[0].text).toContain('- draft (1 page)');
+  });
+});
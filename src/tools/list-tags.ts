@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, markdownTable, offsetMetaOutputSchema, tagOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const listTagsSchema = z.object({
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of tags to return (default: 50)'),
+  offset: z.union([z.string(), z.number()]).optional().describe('Offset for pagination (default: 0)'),
+  format: formatSchema,
+});
+
+export const listTagsOutputSchema = z.object({
+  ok: z.boolean(),
+  tags: z.array(tagOutputSchema),
+  meta: offsetMetaOutputSchema.optional(),
+});
+
+export type ListTagsParams = z.infer<typeof listTagsSchema>;
+
+export async function listTags(
+  client: GrowiClient,
+  params: ListTagsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = listTagsSchema.parse(params || {});
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 50;
+    if (isNaN(limit) || limit < 1) {
+      limit = 50;
+    } else if (limit > 500) {
+      limit = 500;
+    }
+    let offset = parsed.offset !== undefined ? Number(parsed.offset) : 0;
+    if (isNaN(offset) || offset < 0) offset = 0;
+
+    logToStderr(`Listing tags with: limit=${limit}, offset=${offset}`);
+    const response = await client.listTags(limit, offset);
+
+    if (!response.ok) {
+      return errorResult(`Error listing tags: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const data = { ok: true, tags: response.tags, ...(response.meta ? { meta: response.meta } : {}) };
+    if (response.tags.length === 0) {
+      return toolResult(parsed.format, data, { text: () => 'No tags found' });
+    }
+
+    const footer = response.meta
+      ? `\nShowing ${offset + 1}-${offset + response.tags.length} of ${response.meta.total} total tags`
+      : '';
+    return toolResult(parsed.format, data, {
+      text: () => {
+        let text = `Found ${response.tags.length} tags\n\n`;
+        response.tags.forEach((tag) => {
+          text += `- ${tag.name} (${tag.count} ${tag.count === 1 ? 'page' : 'pages'})\n`;
+        });
+        return (text + footer).trimEnd();
+      },
+      markdown: () => (`## Tags\n\n${markdownTable(['Tag', 'Pages'], response.tags.map((tag) => [tag.name, tag.count]))}` + footer).trimEnd(),
+    });
+  } catch (error) {
+    console.error('Exception in listTags tool:', error);
+    return errorResult(`Error listing tags: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const listTagsTool = defineTool({
+  name: 'list_tags',
+  description: 'List all GROWI tags with the number of pages using each',
+  schema: listTagsSchema,
+  outputSchema: listTagsOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listTags(client, params),
+});
@@ -0,0 +1,40 @@
+import { jest } from '@jest/globals';
+import { listTrash } from './list-trash.js';
+
+const page = (path: string, updatedAt: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: 'r1', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt,
+});
+
+describe('listTrash', () => {
+  it('lists the trashed pages under a path with their original paths', async () => {
+    const client = {
+      listPages: jest.fn(async () => ({
+        ok: true,
+        pages: [page('/trash/projects', ''), page('/trash/projects/old', '2024-05-01T00:00:00.000Z')],
+        meta: { total: 2, limit: 50, offset: 0 },
+      })),
+    } as any;
+
+    const result = await listTrash(client, { path: 'projects' });
+
+    expect(client.listPages).toHaveBeenCalledWith('/trash/projects', 50, 1);
+    expect((result.structuredContent as any).pages.map((trashed: any) => trashed.originalPath)).toEqual(['/projects', '/projects/old']);
+    expect(result.content[0].text).toContain('- /projects/old (trashed 2024-05-01, /trash/projects/old)');
+  });
+
+  it('reports an empty trash', async () => {
+    const client = {
+      listPages: jest.fn(async () => ({ ok: true, pages: [page('/trash', '')], meta: { total: 1, limit: 50, offset: 0 } })),
+    } as any;
+
+    const result = await listTrash(client, {});
+
+    expect(client.listPages).toHaveBeenCalledWith('/trash', 50, 1);
+    expect(result.content[0].text).toBe('No pages in the trash');
+  });
+});
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import {
+  formatSchema, markdownTable, offsetMetaOutputSchema, pageOutput, pageOutputSchema, shortDate, toolResult, ToolResult,
+} from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+import { trashPathOf } from './restore-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const listTrashSchema = z.object({
+  path: z.string().optional().describe('Only list trashed pages whose original path is under this path (default: /)'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to return (default: 50)'),
+  page: z.union([z.string(), z.number()]).optional().describe('Page number (1-based, default: 1)'),
+  format: formatSchema,
+});
+
+export const listTrashOutputSchema = z.object({
+  path: z.string(),
+  pages: z.array(pageOutputSchema.extend({
+    originalPath: z.string().describe('Path the page is restored to'),
+  })).describe('Trashed pages; updatedAt is when the page was moved to the trash'),
+  meta: offsetMetaOutputSchema,
+});
+
+export type ListTrashParams = z.infer<typeof listTrashSchema>;
+
+export async function listTrash(
+  client: GrowiClient,
+  params: ListTrashParams
+): Promise<ToolResult> {
+  try {
+    const parsed = listTrashSchema.parse(params || {});
+    const path = normalizePagePath(parsed.path || '/');
+    const trashPath = path === '/' ? '/trash' : trashPathOf(path);
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 50;
+    if (isNaN(limit) || limit < 1) {
+      limit = 50;
+    } else if (limit > 1000) {
+      limit = 1000;
+    }
+    let page = parsed.page !== undefined ? Number(parsed.page) : 1;
+    if (isNaN(page) || page < 1) page = 1;
+
+    logToStderr(`Listing trash under ${trashPath} (limit: ${limit}, page: ${page})`);
+    const response = await client.listPages(trashPath, limit, page);
+    if (!response.ok) {
+      return errorResult(`Error listing the trash (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    // /trash 自体は一覧に含めない
+    const pages = response.pages
+      .filter((trashed) => trashed.path.startsWith('/trash/'))
+      .map((trashed) => ({ ...pageOutput(trashed), originalPath: trashed.path.substring('/trash'.length) }));
+    const meta = response.meta ?? { total: pages.length, limit, offset: (page - 1) * limit };
+    const data = { path, pages, meta };
+
+    const scope = path === '/' ? 'the trash' : `the trash under ${path}`;
+    return toolResult(parsed.format, data, {
+      text: () => {
+        if (pages.length === 0) return `No pages in ${scope}`;
+        let text = `${pages.length} pages in ${scope}\n\n`;
+        text += pages.map((trashed) => `- ${trashed.originalPath} (trashed ${shortDate(trashed.updatedAt)}, ${trashed.path})`).join('\n');
+        if (meta.total > meta.offset + pages.length) {
+          text += `\n\nShowing ${meta.offset + 1}-${meta.offset + pages.length} of ${meta.total}`;
+        }
+        return text;
+      },
+      markdown: () => pages.length === 0
+        ? `No pages in ${scope}`
+        : `## Pages in ${scope}\n\n` + markdownTable(
+          ['Original path', 'Trashed', 'Trash path'],
+          pages.map((trashed) => [trashed.originalPath, shortDate(trashed.updatedAt), trashed.path]),
+        ),
+    });
+  } catch (error) {
+    console.error('Exception in listTrash tool:', error);
+    return errorResult(`Error listing the trash: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const listTrashTool = defineTool({
+  name: 'list_trash',
+  description: 'List the pages in the trash with their original paths, optionally only those from under a path',
+  schema: listTrashSchema,
+  outputSchema: listTrashOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => listTrash(client, params),
+});
@@ -0,0 +1,47 @@
+import { jest } from '@jest/globals';
+import { LocalIndex } from '../search-index.js';
+import { localSearch } from './local-search.js';
+
+const offlineClient = () => ({
+  getRecentlyUpdatedPages: jest.fn(async () => ({ ok: false, error: 'connect ECONNREFUSED', errorInfo: { code: 'NETWORK' } })),
+  getPage: jest.fn(),
+}) as any;
+
+describe('localSearch', () => {
+  let index: LocalIndex;
+
+  beforeEach(() => {
+    index = new LocalIndex();
+    index.upsert({ pageId: 'a', path: '/ops/deploy', revisionId: 'r1', updatedAt: '2024-06-01T00:00:00.000Z', body: 'Deploy the API server' });
+    index.upsert({ pageId: 'b', path: '/team/notes', revisionId: 'r2', updatedAt: '2024-06-02T00:00:00.000Z', body: 'API design notes' });
+    index.syncedUntil = '2024-06-02T00:00:00.000Z';
+    index.crawlComplete = true;
+  });
+
+  it('searches the index without contacting GROWI', async () => {
+    const client = offlineClient();
+
+    const result = await localSearch(client, index, { query: 'api', path: '/ops' });
+
+    const data = result.structuredContent as any;
+    expect(data).toMatchObject({ total: 1, indexedPages: 2, syncedUntil: '2024-06-02T00:00:00.000Z' });
+    expect(data.hits[0]).toMatchObject({ path: '/ops/deploy', pageId: 'a', snippet: 'Deploy the API server' });
+    expect(result.content[0].text).toContain('1 page in the local index matches: api');
+    expect(client.getRecentlyUpdatedPages).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the existing index when the refresh fails', async () => {
+    const result = await localSearch(offlineClient(), index, { query: 'notes', refresh: true });
+
+    expect(result.isError).toBeUndefined();
+    expect((result.structuredContent as any).refreshError).toContain('ECONNREFUSED');
+    expect(result.content[0].text).toContain('Refresh failed');
+    expect(result.content[0].text).toContain('/team/notes');
+  });
+
+  it('points to sync_local_index while the index is empty', async () => {
+    const result = await localSearch(offlineClient(), new LocalIndex(), { query: 'api' });
+
+    expect(result.content[0].text).toContain('The local index is empty; call sync_local_index');
+  });
+});
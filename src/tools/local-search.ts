@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { localIndexFor, LocalIndex, parseQuery, syncLocalIndex } from '../search-index.js';
+import { formatSchema, markdownTable, shortDate, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const localSearchSchema = z.object({
+  query: z.string().describe('Words to find (all must match); "quoted words" for a phrase, word* for a prefix'),
+  path: z.string().optional().describe('Only search pages at or below this path'),
+  exclude_paths: z.array(z.string()).optional().describe('Skip pages at or below these paths'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of hits to return (default: 10, max: 100)'),
+  refresh: z.boolean().optional().describe(
+    'Fetch the pages changed since the last sync before searching (default: false; the search itself never contacts GROWI)'
+  ),
+  format: formatSchema,
+});
+
+export const localSearchOutputSchema = z.object({
+  query: z.string(),
+  total: z.number().describe('Number of matching pages'),
+  hits: z.array(z.object({
+    pageId: z.string(),
+    path: z.string(),
+    score: z.number().describe('BM25 relevance score'),
+    updatedAt: z.string(),
+    revisionId: z.string(),
+    snippet: z.string(),
+  })),
+  indexedPages: z.number().describe('Number of pages in the local index'),
+  syncedUntil: z.string().optional().describe('Latest page update the index includes'),
+  refreshError: z.string().optional().describe('Why the refresh failed; the results come from the index as it was'),
+});
+
+export type LocalSearchParams = z.infer<typeof localSearchSchema>;
+
+/**
+ * Search the local index
+ * @param index Local index of the client's instance (localIndexFor)
+ */
+export async function localSearch(
+  client: GrowiClient,
+  index: LocalIndex,
+  params: LocalSearchParams
+): Promise<ToolResult> {
+  try {
+    const parsed = localSearchSchema.parse(params);
+    const clauses = parseQuery(parsed.query);
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 10;
+    if (isNaN(limit) || limit < 1) {
+      limit = 10;
+    } else if (limit > 100) {
+      limit = 100;
+    }
+
+    // 更新に失敗しても（オフラインなど）手元のインデックスで検索する
+    let refreshError: string | undefined;
+    if (parsed.refresh) {
+      try {
+        await syncLocalIndex(client, index);
+      } catch (error) {
+        refreshError = error instanceof Error ? error.message : String(error);
+        logToStderr(`Local index refresh failed, searching the existing index: ${refreshError}`);
+      }
+    }
+
+    const { hits, total } = index.search(clauses, {
+      path: parsed.path ? normalizePagePath(parsed.path) : undefined,
+      excludePaths: parsed.exclude_paths?.map(normalizePagePath),
+      limit,
+    });
+    const data = {
+      query: parsed.query,
+      total,
+      hits,
+      indexedPages: index.size,
+      ...(index.syncedUntil ? { syncedUntil: index.syncedUntil } : {}),
+      ...(refreshError ? { refreshError } : {}),
+    };
+
+    const notes = [
+      ...(index.size === 0 ? ['The local index is empty; call sync_local_index (or local_search with refresh: true) first.'] : []),
+      ...(refreshError ? [`Refresh failed (${refreshError}); results are from the index as of ${index.syncedUntil ?? 'its last sync'}.`] : []),
+    ];
+    const footer = notes.length > 0 ? `\n\n${notes.join('\n')}` : '';
+    return toolResult(parsed.format, data, {
+      text: () => {
+        if (hits.length === 0) return `No pages in the local index match: ${parsed.query}${footer}`;
+        let text = `${total} ${total === 1 ? 'page in the local index matches' : 'pages in the local index match'}: ${parsed.query}\n\n`;
+        text += hits.map((hit) => `- ${hit.path} (score ${hit.score}, updated ${shortDate(hit.updatedAt)})\n  ${hit.snippet}`).join('\n');
+        if (total > hits.length) text += `\n\nShowing ${hits.length} of ${total}`;
+        return text + footer;
+      },
+      markdown: () => hits.length === 0
+        ? `No pages in the local index match \`${parsed.query}\`${footer}`
+        : `## Local search: ${parsed.query}\n\n` + markdownTable(
+          ['Path', 'Score', 'Updated', 'Snippet'],
+          hits.map((hit) => [hit.path, hit.score, shortDate(hit.updatedAt), hit.snippet]),
+        ) + footer,
+    });
+  } catch (error) {
+    console.error('Exception in localSearch tool:', error);
+    return errorResult(`Error searching the local index: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const localSearchTool = defineTool({
+  name: 'local_search',
+  description: 'Full-text search of the local offline index of the wiki (BM25 ranking, phrase and prefix queries, path filters); '
+    + 'works when GROWI search is unavailable',
+  schema: localSearchSchema,
+  outputSchema: localSearchOutputSchema,
+  // refresh は GROWI を巡回してインデックスファイルを書き換える
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  available: (_clients, settings) => Boolean(settings.indexDir),
+  handler: (params, { client, settings }) => localSearch(client, localIndexFor(client, settings.indexDir!), params),
+});
@@ -0,0 +1,45 @@
+import { jest } from '@jest/globals';
+import { manageCache } from './manage-cache.js';
+
+describe('manageCache', () => {
+  it('shows hit counts and usage per endpoint', async () => {
+    const client = {
+      cacheStats: jest.fn(() => ({
+        entries: 2,
+        bytes: 2048,
+        maxBytes: 1024 * 1024,
+        hits: 3,
+        misses: 1,
+        revalidated: 0,
+        evictions: 0,
+        groups: { page: { entries: 2, bytes: 2048, ttlMs: 30000 } },
+      })),
+    } as any;
+
+    const result = await manageCache(client, {});
+
+    expect(result.content[0].text).toContain('2 entries, 2.0 KB of 1.0 MB');
+    expect(result.content[0].text).toContain('(75% served from cache)');
+    expect(result.content[0].text).toContain('- page: 2 entries, 2.0 KB, TTL 30 s');
+  });
+
+  it('flushes a normalized subtree', async () => {
+    const client = {
+      cacheStats: jest.fn(() => ({ entries: 0 })),
+      flushCache: jest.fn(async () => 4),
+    } as any;
+
+    const result = await manageCache(client, { action: 'flush', path: 'docs/' });
+
+    expect(client.flushCache).toHaveBeenCalledWith('/docs');
+    expect(result.content[0].text).toBe('Dropped 4 cached responses for /docs and below');
+  });
+
+  it('reports when caching is disabled', async () => {
+    const client = { cacheStats: jest.fn(() => undefined) } as any;
+
+    const result = await manageCache(client, { action: 'flush' });
+
+    expect(result.content[0].text).toContain('disabled');
+  });
+});
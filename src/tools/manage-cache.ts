@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatBytes } from '../markdown.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const manageCacheSchema = z.object({
+  action: z.enum(['stats', 'flush']).optional().describe('stats (default) shows what is cached; flush drops cached responses'),
+  path: z.string().optional().describe('With flush: only drop the entries of this page and the pages below it'),
+  format: formatSchema,
+});
+
+const groupUsageOutputSchema = z.object({
+  entries: z.number(),
+  bytes: z.number(),
+  ttlMs: z.number(),
+});
+
+export const manageCacheOutputSchema = z.object({
+  enabled: z.boolean(),
+  removed: z.number().optional().describe('Number of dropped entries (flush)'),
+  stats: z.object({
+    entries: z.number(),
+    bytes: z.number(),
+    maxBytes: z.number(),
+    hits: z.number(),
+    misses: z.number(),
+    revalidated: z.number(),
+    evictions: z.number(),
+    groups: z.object({
+      page: groupUsageOutputSchema.optional(),
+      pages: groupUsageOutputSchema.optional(),
+      recent: groupUsageOutputSchema.optional(),
+      search: groupUsageOutputSchema.optional(),
+      revisions: groupUsageOutputSchema.optional(),
+      revision: groupUsageOutputSchema.optional(),
+      tags: groupUsageOutputSchema.optional(),
+      comments: groupUsageOutputSchema.optional(),
+      attachments: groupUsageOutputSchema.optional(),
+      exist: groupUsageOutputSchema.optional(),
+    }).describe('Usage per endpoint group'),
+    persistPath: z.string().optional(),
+  }).optional(),
+});
+
+export type ManageCacheParams = z.infer<typeof manageCacheSchema>;
+
+export async function manageCache(
+  client: GrowiClient,
+  params: ManageCacheParams
+): Promise<ToolResult> {
+  try {
+    const parsed = manageCacheSchema.parse(params || {});
+    const action = parsed.action || 'stats';
+
+    if (!client.cacheStats()) {
+      return toolResult(parsed.format, { enabled: false }, { text: () => 'Response caching is disabled (GROWI_CACHE_MAX_BYTES=0)' });
+    }
+
+    if (action === 'flush') {
+      let path = parsed.path;
+      if (path && !path.startsWith('/')) path = '/' + path;
+      if (path && path.length > 1) path = path.replace(/\/+$/, '');
+
+      logToStderr(`Flushing cache${path ? ` under ${path}` : ''}`);
+      const removed = await client.flushCache(path);
+      return toolResult(parsed.format, { enabled: true, removed }, {
+        text: () => `Dropped ${removed} cached ${removed === 1 ? 'response' : 'responses'}${path ? ` for ${path} and below` : ''}`,
+      });
+    }
+
+    const stats = client.cacheStats()!;
+    const lookups = stats.hits + stats.misses + stats.revalidated;
+    let text = `Response cache: ${stats.entries} entries, ${formatBytes(stats.bytes)} of ${formatBytes(stats.maxBytes)}\n`;
+    text += `Hits: ${stats.hits}, revalidated: ${stats.revalidated}, misses: ${stats.misses}`;
+    if (lookups > 0) {
+      text += ` (${Math.round(((stats.hits + stats.revalidated) / lookups) * 100)}% served from cache)`;
+    }
+    text += `\nEvictions: ${stats.evictions}\n`;
+    text += `Persistence: ${stats.persistPath ?? 'off (in-memory only)'}\n`;
+
+    const groups = Object.entries(stats.groups);
+    if (groups.length > 0) {
+      text += '\nBy endpoint:\n';
+      for (const [group, usage] of groups.sort(([a], [b]) => a.localeCompare(b))) {
+        text += `- ${group}: ${usage!.entries} entries, ${formatBytes(usage!.bytes)}, TTL ${Math.round(usage!.ttlMs / 1000)} s\n`;
+      }
+    }
+
+    return toolResult(parsed.format, { enabled: true, stats }, { text: () => text.trimEnd() });
+  } catch (error) {
+    console.error('Exception in manageCache tool:', error);
+    return errorResult(`Error managing cache: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const manageCacheTool = defineTool({
+  name: 'manage_cache',
+  description: 'Inspect the response cache (entries, size, hit rate per endpoint) or flush it, optionally only for a page subtree. Use flush when you need to be sure to read the latest data.',
+  schema: manageCacheSchema,
+  outputSchema: manageCacheOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  handler: (params, { client }) => manageCache(client, params),
+});
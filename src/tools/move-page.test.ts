@@ -0,0 +1,94 @@
+import { jest } from '@jest/globals';
+import { movePage } from './move-page.js';
+
+const page = (path: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: `rev-${path}`, body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (paths: string[]) => ({
+  getPage: jest.fn(async (path: string) => (paths.includes(path)
+    ? { ok: true, page: page(path) }
+    : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND', status: 404 } })),
+  listPages: jest.fn(async (path: string) => {
+    const listed = paths.filter((candidate) => candidate === path || candidate.startsWith(path + '/')).map(page);
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, page: 1 } };
+  }),
+  pageExists: jest.fn(async (path: string) => ({ ok: true, exists: paths.includes(path) })),
+  renamePage: jest.fn(async (_current: unknown, newPath: string) => ({ ok: true, page: page(newPath) })),
+}) as any;
+
+describe('movePage', () => {
+  const paths = ['/projects/foo', '/projects/foo/design', '/projects/foo/design/api', '/archive', '/archive/foo/design'];
+
+  it('previews every affected path and flags existing targets without changing anything', async () => {
+    const client = mockClient(paths);
+
+    const result = await movePage(client, { path: 'projects/foo/', new_path: '/archive/foo', recursive: true });
+
+    const data = result.structuredContent as any;
+    expect(data).toMatchObject({ operation: 'move', dryRun: true, executed: false, conflicts: ['/archive/foo/design'] });
+    expect(data.moves).toEqual([
+      { from: '/projects/foo', to: '/archive/foo', exists: false },
+      { from: '/projects/foo/design', to: '/archive/foo/design', exists: true },
+      { from: '/projects/foo/design/api', to: '/archive/foo/design/api', exists: false },
+    ]);
+    expect(result.content[0].text).toContain('Preview: move /projects/foo to /archive/foo (recursive) affects 3 pages');
+    expect(result.content[0].text).toContain('- /projects/foo/design -> /archive/foo/design (exists)');
+    expect(client.pageExists).toHaveBeenCalledTimes(3);
+    expect(client.renamePage).not.toHaveBeenCalled();
+  });
+
+  it('refuses to apply a move onto existing pages', async () => {
+    const client = mockClient(paths);
+
+    const result = await movePage(client, { path: '/projects/foo', new_path: '/archive/foo', recursive: true, dry_run: false });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'CONFLICT' } });
+    expect(result.content[0].text).toContain('- /archive/foo/design');
+    expect(client.renamePage).not.toHaveBeenCalled();
+  });
+
+  it('moves the page with its descendants and redirects once no target exists', async () => {
+    const client = mockClient(paths);
+
+    const result = await movePage(client, {
+      path: '/projects/foo', new_path: '/old/foo', recursive: true, redirect: true, dry_run: false,
+    });
+
+    expect(client.renamePage).toHaveBeenCalledWith(expect.objectContaining({ path: '/projects/foo' }), '/old/foo', { recursive: true, redirect: true });
+    expect(result.structuredContent).toMatchObject({ executed: true, page: { path: '/old/foo' } });
+    expect(result.content[0].text).toContain('Moved 3 pages from /projects/foo to /old/foo');
+  });
+
+  it('only checks the page itself when not recursive', async () => {
+    const client = mockClient(paths);
+
+    const result = await movePage(client, { path: '/projects/foo', new_path: '/projects/bar' });
+
+    expect((result.structuredContent as any).moves).toHaveLength(1);
+    expect(client.listPages).not.toHaveBeenCalled();
+  });
+
+  it('rejects moving a page below itself or onto itself', async () => {
+    const client = mockClient(paths);
+
+    const inside = await movePage(client, { path: '/projects/foo', new_path: '/projects/foo/sub' });
+    const same = await movePage(client, { path: '/projects/foo', new_path: 'projects/foo/' });
+
+    expect(inside.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect(same.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect(client.getPage).not.toHaveBeenCalled();
+  });
+
+  it('returns NOT_FOUND for a missing source page', async () => {
+    const result = await movePage(mockClient(paths), { path: '/missing', new_path: '/elsewhere' });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'NOT_FOUND' } });
+  });
+});
@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, errorFromInfo, InvalidArgumentError } from '../errors.js';
+import { GrowiPage } from '../types/growi.js';
+import { formatSchema, markdownTable, pageOutput, pageOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const movePageSchema = z.object({
+  path: z.string().describe('Current path of the page to rename or move'),
+  new_path: z.string().describe('New path of the page (e.g. /archive/projects/foo)'),
+  recursive: z.boolean().optional().describe('Also move every page below it, keeping their relative paths (default: false)'),
+  redirect: z.boolean().optional().describe('Leave a redirect at every old path (default: false)'),
+  dry_run: z.boolean().optional().describe('Only preview the affected paths without changing anything (default: true); set to false to apply'),
+  format: formatSchema,
+});
+
+// move_page と duplicate_page で共通
+export const pageTransferOutputSchema = z.object({
+  operation: z.enum(['move', 'duplicate']),
+  from: z.string(),
+  to: z.string(),
+  recursive: z.boolean(),
+  redirect: z.boolean().optional().describe('Whether redirects are left at the old paths (moves only)'),
+  dryRun: z.boolean(),
+  executed: z.boolean().describe('True once GROWI has applied the change'),
+  moves: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+    exists: z.boolean().describe('True if a page already exists at the target path'),
+  })).describe('Every affected page, the root first'),
+  conflicts: z.array(z.string()).describe('Target paths that already exist; nothing is changed while there are any'),
+  page: pageOutputSchema.optional().describe('The page at its new path, once applied'),
+});
+
+export type MovePageParams = z.infer<typeof movePageSchema>;
+export type PageTransferOutput = z.infer<typeof pageTransferOutputSchema>;
+
+export interface TransferPlan {
+  // The page at the source path
+  page: GrowiPage;
+  moves: { from: string; to: string; exists: boolean }[];
+  conflicts: string[];
+}
+
+// Largest subtree a single move or duplication will preview and apply
+export const MAX_TRANSFER_PAGES = 500;
+// Pages requested per /_api/v3/pages/list call while collecting the subtree
+const LIST_PAGE_SIZE = 100;
+// Parallel pageExists requests while checking the targets
+const EXIST_CHECK_BATCH = 5;
+
+/**
+ * Normalize a page path argument: leading slash, no trailing slash
+ */
+export function normalizePagePath(path: string): string {
+  if (!path.startsWith('/')) path = '/' + path;
+  if (path.length > 1) path = path.replace(/\/+$/, '');
+  return path;
+}
+
+/**
+ * Collect every page below a path (not the page itself)
+ * Throws InvalidArgumentError past MAX_TRANSFER_PAGES pages.
+ */
+export async function listDescendants(client: GrowiClient, path: string): Promise<GrowiPage[]> {
+  const prefix = path === '/' ? '/' : path + '/';
+  const descendants: GrowiPage[] = [];
+  for (let pageNumber = 1; ; pageNumber++) {
+    const response = await client.listPages(path, LIST_PAGE_SIZE, pageNumber);
+    if (!response.ok) {
+      throw errorFromInfo(`Error listing pages under ${path}: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+    descendants.push(...response.pages.filter((page) => page.path.startsWith(prefix)));
+    if (descendants.length > MAX_TRANSFER_PAGES) {
+      throw new InvalidArgumentError(
+        `${path} has more than ${MAX_TRANSFER_PAGES} pages below it; work on its subtrees one at a time`
+      );
+    }
+    const total = response.meta?.total ?? 0;
+    if (response.pages.length < LIST_PAGE_SIZE || pageNumber * LIST_PAGE_SIZE >= total) break;
+  }
+  return descendants;
+}
+
+/**
+ * Work out which pages a move or duplication affects and which of their targets already exist
+ * Nothing is changed; the target of every page is checked with pageExists.
+ * @param from Normalized source path
+ * @param to Normalized target path
+ * @param recursive Include the pages below the source
+ */
+export async function planTransfer(
+  client: GrowiClient,
+  from: string,
+  to: string,
+  recursive: boolean
+): Promise<TransferPlan> {
+  if (from === '/') {
+    throw new InvalidArgumentError('The root page cannot be moved or duplicated');
+  }
+  if (from === to) {
+    throw new InvalidArgumentError(`The new path is the same as the current path: ${from}`);
+  }
+  if (to.startsWith(from + '/')) {
+    throw new InvalidArgumentError(`${to} is inside ${from}; a page cannot be moved or duplicated below itself`);
+  }
+
+  const pageResponse = await client.getPage(from);
+  if (!pageResponse.ok) {
+    throw errorFromInfo(`Error getting page (path: ${from}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+  }
+
+  const sources = [from];
+  if (recursive) {
+    const descendants = await listDescendants(client, from);
+    sources.push(...descendants.map((page) => page.path).sort());
+  }
+
+  const moves: TransferPlan['moves'] = [];
+  for (let index = 0; index < sources.length; index += EXIST_CHECK_BATCH) {
+    const batch = sources.slice(index, index + EXIST_CHECK_BATCH);
+    const checked = await Promise.all(batch.map(async (source) => {
+      const target = to + source.substring(from.length);
+      const exists = await client.pageExists(target);
+      if (!exists.ok) {
+        throw errorFromInfo(`Error checking whether ${target} exists: ${exists.error || 'Unknown error'}`, exists.errorInfo);
+      }
+      return { from: source, to: target, exists: exists.exists };
+    }));
+    moves.push(...checked);
+  }
+  logToStderr(`Planned ${moves.length} page(s) from ${from} to ${to}`);
+
+  return {
+    page: pageResponse.page,
+    moves,
+    conflicts: moves.filter((move) => move.exists).map((move) => move.to),
+  };
+}
+
+const VERBS = {
+  move: { preview: 'move', done: 'Moved' },
+  duplicate: { preview: 'duplicate', done: 'Duplicated' },
+};
+
+/**
+ * Render a move or duplication, previewed or applied
+ */
+export function transferResult(format: MovePageParams['format'], data: PageTransferOutput): ToolResult {
+  const verb = VERBS[data.operation];
+  const count = `${data.moves.length} ${data.moves.length === 1 ? 'page' : 'pages'}`;
+  const options = [
+    ...(data.recursive ? ['recursive'] : []),
+    ...(data.redirect ? ['leaving redirects'] : []),
+  ];
+  const heading = data.executed
+    ? `${verb.done} ${count} from ${data.from} to ${data.to}`
+    : `Preview: ${verb.preview} ${data.from} to ${data.to}${options.length > 0 ? ` (${options.join(', ')})` : ''} affects ${count}`;
+  const footer = data.executed
+    ? ''
+    : data.conflicts.length > 0
+      ? `${data.conflicts.length} target ${data.conflicts.length === 1 ? 'path already exists' : 'paths already exist'}; `
+        + 'move or delete them first, nothing will be changed until then.'
+      : 'No target path exists yet. Call again with dry_run: false to apply.';
+
+  return toolResult(format, data, {
+    text: () => {
+      const lines = data.moves.map((move) => `- ${move.from} -> ${move.to}${move.exists ? ' (exists)' : ''}`);
+      return [heading, '', ...lines, ...(footer ? ['', footer] : [])].join('\n');
+    },
+    markdown: () => {
+      const table = markdownTable(['From', 'To', 'Target exists'], data.moves.map((move) => [
+        `\`${move.from}\``, `\`${move.to}\``, move.exists ? '**yes**' : 'no',
+      ]));
+      return `**${heading}**\n\n${table}${footer ? `\n${footer}` : ''}`.trimEnd();
+    },
+  });
+}
+
+/**
+ * The result of a transfer refused because some targets exist
+ */
+export function conflictResult(data: PageTransferOutput): ToolResult {
+  return errorResult(
+    `Cannot ${data.operation} ${data.from} to ${data.to}: these target paths already exist:\n`
+      + data.conflicts.map((path) => `- ${path}`).join('\n'),
+    { code: 'CONFLICT', status: 409 }
+  );
+}
+
+export async function movePage(
+  client: GrowiClient,
+  params: MovePageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = movePageSchema.parse(params);
+    const from = normalizePagePath(parsed.path);
+    const to = normalizePagePath(parsed.new_path);
+    const recursive = parsed.recursive ?? false;
+    const redirect = parsed.redirect ?? false;
+    const dryRun = parsed.dry_run ?? true;
+
+    const plan = await planTransfer(client, from, to, recursive);
+    const data: PageTransferOutput = {
+      operation: 'move', from, to, recursive, redirect, dryRun, executed: false,
+      moves: plan.moves, conflicts: plan.conflicts,
+    };
+
+    if (dryRun) {
+      return transferResult(parsed.format, data);
+    }
+    if (plan.conflicts.length > 0) {
+      return conflictResult(data);
+    }
+
+    logToStderr(`Moving ${from} to ${to} (recursive: ${recursive}, redirect: ${redirect})`);
+    const response = await client.renamePage(plan.page, to, { recursive, redirect });
+    if (!response.ok) {
+      return errorResult(`Error moving page (path: ${from}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    return transferResult(parsed.format, { ...data, executed: true, page: pageOutput(response.page) });
+  } catch (error) {
+    console.error('Exception in movePage tool:', error);
+    return errorResult(`Error moving page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const movePageTool = defineTool({
+  name: 'move_page',
+  description: 'Rename or move a page, optionally with all pages below it and leaving redirects. '
+    + 'Previews the affected paths by default; existing target paths block the move',
+  schema: movePageSchema,
+  outputSchema: pageTransferOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  handler: (params, { client }) => movePage(client, params),
+});
@@ -0,0 +1,95 @@
+import { jest } from '@jest/globals';
+import { GrowiClient } from '../growi-client.js';
+import { pageLinks, scanSubtree } from './page-links.js';
+
+const PERMALINK_ID = '5e0734e472560e001761fa68';
+
+const page = (path: string, body: string = '') => ({
+  _id: path === '/docs/faq' ? PERMALINK_ID : `id-${path}`,
+  path,
+  revision: { _id: 'r1', body, author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (pages: ReturnType<typeof page>[]) => ({
+  baseURL: 'https://wiki.example.com',
+  getPage: jest.fn(async (path: string) => {
+    const found = pages.find((candidate) => candidate.path === path);
+    return found ? { ok: true, page: found } : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } };
+  }),
+  getPageById: jest.fn(async (id: string) => {
+    const found = pages.find((candidate) => candidate._id === id);
+    return found ? { ok: true, page: found } : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND' } };
+  }),
+  pageExists: jest.fn(async (path: string) => ({ ok: true, exists: pages.some((candidate) => candidate.path === path) })),
+  listPages: jest.fn(async (path: string, limit: number, pageNumber: number) => {
+    const listed = pages.filter((candidate) => candidate.path === path || candidate.path.startsWith(path === '/' ? '/' : path + '/'));
+    return { ok: true, pages: listed.slice((pageNumber - 1) * limit, pageNumber * limit), meta: { total: listed.length, limit, offset: 0 } };
+  }),
+}) as any;
+
+describe('pageLinks', () => {
+  it('resolves the outgoing links and flags missing targets', async () => {
+    const client = mockClient([
+      page('/projects/foo', `[FAQ](/docs/faq)\n[[../bar]]\n[old](/docs/old)\n[perma](/${PERMALINK_ID})\n[same](https://wiki.example.com/docs/faq)`),
+      page('/docs/faq'),
+      page('/projects/bar'),
+    ]);
+
+    const result = await pageLinks(client, { path: '/projects/foo' });
+
+    const data = result.structuredContent as any;
+    expect(data).toMatchObject({ path: '/projects/foo', total: 5, broken: 1 });
+    expect(data.links.map((link: any) => [link.kind, link.path, link.exists])).toEqual([
+      ['markdown', '/docs/faq', true],
+      ['relative', '/projects/bar', true],
+      ['markdown', '/docs/old', false],
+      ['permalink', '/docs/faq', true],
+      ['markdown', '/docs/faq', true],
+    ]);
+    // 同じリンク先は一度だけ確認する
+    expect(client.pageExists).toHaveBeenCalledTimes(3);
+    expect(client.getPageById).toHaveBeenCalledTimes(1);
+    expect(result.content[0].text).toContain('- line 3: /docs/old [markdown] (missing)');
+  });
+
+  it('checks link targets through the client against the GROWI response shape', async () => {
+    const existing = ['/projects/foo', '/docs/faq'];
+    const client = new GrowiClient('http://growi.test', 'token');
+    (client as any).transport = {
+      send: jest.fn(async (request: any) => {
+        const url = new URL(request.url);
+        const path = url.searchParams.get('path')!;
+        const data = url.pathname === '/_api/v3/page/exist'
+          ? { isExist: existing.includes(path) }
+          : { page: page(path, '[FAQ](/docs/faq)\n[old](/docs/old)') };
+        return { status: 200, headers: {}, body: Buffer.from(JSON.stringify(data)) };
+      }),
+    };
+
+    const result = await pageLinks(client, { path: '/projects/foo' });
+
+    const data = result.structuredContent as any;
+    expect(data.links.map((link: any) => [link.path, link.exists])).toEqual([['/docs/faq', true], ['/docs/old', false]]);
+    expect(data.broken).toBe(1);
+  });
+
+  it('returns NOT_FOUND for a missing page', async () => {
+    const result = await pageLinks(mockClient([]), { path: '/nope' });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'NOT_FOUND' } });
+  });
+});
+
+describe('scanSubtree', () => {
+  it('stops after max_pages pages and reports the scan as incomplete', async () => {
+    const client = mockClient(Array.from({ length: 5 }, (_, index) => page(`/docs/${index}`)));
+
+    const scan = await scanSubtree(client, '/docs', 3);
+
+    expect(scan.pages).toHaveLength(3);
+    expect(scan).toMatchObject({ total: 5, complete: false });
+  });
+});
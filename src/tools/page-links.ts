@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, errorFromInfo } from '../errors.js';
+import { GrowiPage } from '../types/growi.js';
+import { extractLinks, linkTargetKey, PageLink } from '../links.js';
+import { formatSchema, markdownTable, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const pageLinksSchema = z.object({
+  path: z.string().describe('Path of the page whose outgoing links to list'),
+  format: formatSchema,
+});
+
+export const linkOutputSchema = z.object({
+  kind: z.enum(['markdown', 'wiki', 'relative', 'permalink']),
+  raw: z.string().describe('Link target as written'),
+  text: z.string(),
+  line: z.number().describe('1-based line of the link in the body'),
+  path: z.string().optional().describe('Path of the target page (resolved for relative links and permalinks)'),
+  pageId: z.string().optional().describe('Page id of a permalink'),
+});
+
+export const pageLinksOutputSchema = z.object({
+  path: z.string(),
+  total: z.number(),
+  broken: z.number().describe('Number of links whose target page does not exist'),
+  links: z.array(linkOutputSchema.extend({
+    exists: z.boolean(),
+  })),
+});
+
+export type PageLinksParams = z.infer<typeof pageLinksSchema>;
+
+export interface ResolvedTarget {
+  exists: boolean;
+  // Path of the target page (for permalinks, only when it exists)
+  path?: string;
+}
+
+// Parallel requests while resolving link targets or reading pages
+const BATCH_SIZE = 5;
+// Pages requested per /_api/v3/pages/list call while scanning a subtree
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Run fn over items, BATCH_SIZE at a time
+ */
+async function inBatches<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let index = 0; index < items.length; index += BATCH_SIZE) {
+    results.push(...await Promise.all(items.slice(index, index + BATCH_SIZE).map(fn)));
+  }
+  return results;
+}
+
+/**
+ * Check whether the target of every link exists, each distinct target once
+ * Paths are checked with pageExists, permalinks by fetching the page by id.
+ * @returns Resolved targets by linkTargetKey
+ */
+export async function resolveLinkTargets(
+  client: GrowiClient,
+  links: Pick<PageLink, 'path' | 'pageId'>[]
+): Promise<Map<string, ResolvedTarget>> {
+  const targets = new Map<string, Pick<PageLink, 'path' | 'pageId'>>();
+  links.forEach((link) => targets.set(linkTargetKey(link), link));
+
+  const resolved = new Map<string, ResolvedTarget>();
+  await inBatches([...targets.entries()], async ([key, link]) => {
+    if (link.pageId) {
+      const response = await client.getPageById(link.pageId);
+      if (!response.ok && response.errorInfo?.code !== 'NOT_FOUND') {
+        throw errorFromInfo(`Error resolving permalink ${link.pageId}: ${response.error || 'Unknown error'}`, response.errorInfo);
+      }
+      resolved.set(key, response.ok ? { exists: true, path: response.page.path } : { exists: false });
+      return;
+    }
+    const response = await client.pageExists(link.path!);
+    if (!response.ok) {
+      throw errorFromInfo(`Error checking whether ${link.path} exists: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+    resolved.set(key, { exists: response.exists, path: link.path });
+  });
+  return resolved;
+}
+
+/**
+ * Read the pages at and below a path with their bodies
+ * Listings carry no bodies, so every page is fetched; the scan stops after maxPages pages.
+ */
+export async function scanSubtree(
+  client: GrowiClient,
+  path: string,
+  maxPages: number
+): Promise<{ pages: GrowiPage[]; total: number; complete: boolean }> {
+  const prefix = path === '/' ? '/' : path + '/';
+  const listed: GrowiPage[] = [];
+  let total = 0;
+  for (let pageNumber = 1; listed.length < maxPages; pageNumber++) {
+    const response = await client.listPages(path, LIST_PAGE_SIZE, pageNumber);
+    if (!response.ok) {
+      throw errorFromInfo(`Error listing pages under ${path}: ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+    total = response.meta?.total ?? total;
+    listed.push(...response.pages.filter((page) => page.path === path || page.path.startsWith(prefix)));
+    if (response.pages.length < LIST_PAGE_SIZE || pageNumber * LIST_PAGE_SIZE >= total) break;
+  }
+
+  const selected = listed.slice(0, maxPages);
+  const fetched = await inBatches(selected, async (listedPage) => {
+    const response = await client.getPage(listedPage.path);
+    if (response.ok) return response.page;
+    // 一覧の取得後に削除・移動されたページだけを読み飛ばし、それ以外の失敗はエラーにする
+    if (response.errorInfo?.code === 'NOT_FOUND') return undefined;
+    throw errorFromInfo(`Error getting page ${listedPage.path}: ${response.error || 'Unknown error'}`, response.errorInfo);
+  });
+  const pages = fetched.filter((page): page is GrowiPage => page !== undefined);
+  logToStderr(`Scanned ${pages.length} of ${Math.max(total, listed.length)} pages under ${path}`);
+
+  return { pages, total: Math.max(total, listed.length), complete: listed.length <= maxPages && total <= listed.length };
+}
+
+/**
+ * Parse a max_pages argument
+ */
+export function maxPagesOf(value: string | number | undefined): number {
+  const maxPages = value !== undefined ? Number(value) : 200;
+  if (isNaN(maxPages) || maxPages < 1) return 200;
+  return Math.min(maxPages, 1000);
+}
+
+export async function pageLinks(
+  client: GrowiClient,
+  params: PageLinksParams
+): Promise<ToolResult> {
+  try {
+    const parsed = pageLinksSchema.parse(params);
+    const path = normalizePagePath(parsed.path);
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error getting page (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    const links = extractLinks(pageResponse.page.revision.body, pageResponse.page.path, { baseUrl: client.baseURL });
+    const targets = await resolveLinkTargets(client, links);
+    const resolved = links.map((link) => {
+      const target = targets.get(linkTargetKey(link));
+      return { ...link, ...(target?.path ? { path: target.path } : {}), exists: Boolean(target?.exists) };
+    });
+    const data = { path, total: resolved.length, broken: resolved.filter((link) => !link.exists).length, links: resolved };
+
+    const describe = (link: typeof resolved[number]) => link.path ?? `page id ${link.pageId}`;
+    return toolResult(parsed.format, data, {
+      text: () => {
+        if (resolved.length === 0) return `No links to other pages in ${path}`;
+        let text = `${resolved.length} links in ${path}${data.broken > 0 ? ` (${data.broken} broken)` : ''}\n\n`;
+        text += resolved.map((link) => `- line ${link.line}: ${describe(link)} [${link.kind}]${link.exists ? '' : ' (missing)'}`
+          + (link.raw !== link.path ? ` <- ${link.raw}` : '')).join('\n');
+        return text;
+      },
+      markdown: () => resolved.length === 0
+        ? `No links to other pages in \`${path}\``
+        : `## Links in ${path}\n\n` + markdownTable(
+          ['Line', 'Text', 'Target', 'Kind', 'Exists'],
+          resolved.map((link) => [link.line, link.text, describe(link), link.kind, link.exists ? 'yes' : '**no**']),
+        ),
+    });
+  } catch (error) {
+    console.error('Exception in pageLinks tool:', error);
+    return errorResult(`Error listing page links: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const pageLinksTool = defineTool({
+  name: 'page_links',
+  description: 'List the links from a page to other pages (markdown, [[wiki]], relative and permalink links), resolved to paths and checked for existence',
+  schema: pageLinksSchema,
+  outputSchema: pageLinksOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => pageLinks(client, params),
+});
@@ -0,0 +1,47 @@
+import { jest } from '@jest/globals';
+import { pageTree } from './page-tree.js';
+
+const page = (path: string, updatedAt = '2024-01-02T03:04:05.000Z') => ({ path, updatedAt } as any);
+
+describe('pageTree', () => {
+  it('renders an indented tree with child counts down to the requested depth', async () => {
+    const mockClient = {
+      listPages: jest.fn(async () => ({
+        ok: true,
+        pages: [
+          page('/projects'),
+          page('/projects/alpha'),
+          page('/projects/alpha/specs'),
+          page('/projects/alpha/specs/api'),
+          page('/projects/beta/notes'),
+        ],
+        meta: { total: 5, limit: 100, offset: 0 },
+      })),
+    } as any;
+
+    const result = await pageTree(mockClient, { path: '/projects', depth: 2 });
+
+    const text = result.content[0].text;
+    expect(text).toContain('/projects (2 children, 4 descendants, updated 2024-01-02)');
+    expect(text).toContain('  - alpha (1 child, 2 descendants, updated 2024-01-02)');
+    expect(text).toContain('    - specs (1 child, updated 2024-01-02)');
+    expect(text).not.toContain('- api');
+    expect(text).toContain('  - beta (1 child, no page)');
+  });
+
+  it('follows pagination and reports when the node budget cuts the walk off', async () => {
+    const batch = (start: number) => Array.from({ length: 100 }, (_, i) => page(`/wiki/p${start + i}`));
+    const mockClient = {
+      listPages: jest.fn(async (_path: string, _limit: number, pageNumber: number) => ({
+        ok: true,
+        pages: batch((pageNumber - 1) * 100),
+        meta: { total: 1000, limit: 100, offset: (pageNumber - 1) * 100 },
+      })),
+    } as any;
+
+    const result = await pageTree(mockClient, { path: '/wiki', depth: 1, max_nodes: 250 });
+
+    expect(mockClient.listPages).toHaveBeenCalledTimes(3);
+    expect(result.content[0].text).toContain('Tree cut off after 250 of 1000 pages');
+  });
+});
@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { GrowiPage } from '../types/growi.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const pageTreeSchema = z.object({
+  path: z.string().optional().describe('Root path of the tree (default: /)'),
+  depth: z.union([z.string(), z.number()]).optional().describe('How many levels below the root to show (default: 2)'),
+  max_nodes: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to fetch before the walk is cut off (default: 500)'),
+  format: formatSchema,
+});
+
+export const pageTreeOutputSchema = z.object({
+  path: z.string(),
+  depth: z.number(),
+  total: z.number().describe('Number of pages under the path reported by GROWI'),
+  fetched: z.number().describe('Number of pages fetched before the walk stopped'),
+  nodes: z.array(z.object({
+    path: z.string(),
+    depth: z.number().describe('Levels below the root (0 for the root)'),
+    hasPage: z.boolean().describe('False for intermediate paths without a page of their own'),
+    children: z.number(),
+    descendants: z.number(),
+    updatedAt: z.string().optional(),
+  })).describe('Nodes down to the requested depth, in tree order'),
+});
+
+export type PageTreeParams = z.infer<typeof pageTreeSchema>;
+
+// Pages requested per /_api/v3/pages/list call while walking
+const WALK_PAGE_SIZE = 100;
+
+export interface TreeNode {
+  path: string;
+  name: string;
+  // Undefined for intermediate paths that have no page of their own
+  page?: GrowiPage;
+  children: Map<string, TreeNode>;
+  // Number of pages (not intermediate paths) below this node
+  descendantCount: number;
+}
+
+function createNode(path: string): TreeNode {
+  const name = path === '/' ? '/' : path.substring(path.lastIndexOf('/') + 1);
+  return { path, name, children: new Map(), descendantCount: 0 };
+}
+
+/**
+ * Build a path tree from a flat list of pages under rootPath
+ * Missing intermediate paths become nodes without a page.
+ */
+export function buildTree(rootPath: string, pages: GrowiPage[]): TreeNode {
+  const root = createNode(rootPath);
+  const prefix = rootPath === '/' ? '/' : rootPath + '/';
+
+  for (const page of pages) {
+    if (page.path === rootPath) {
+      root.page = page;
+      continue;
+    }
+    if (!page.path.startsWith(prefix)) continue;
+
+    const segments = page.path.substring(prefix.length).split('/').filter((segment) => segment !== '');
+    let node = root;
+    let currentPath = rootPath === '/' ? '' : rootPath;
+    for (const segment of segments) {
+      currentPath += '/' + segment;
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode(currentPath);
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.page = page;
+  }
+
+  const countDescendants = (node: TreeNode): number => {
+    node.descendantCount = [...node.children.values()]
+      .reduce((sum, child) => sum + (child.page ? 1 : 0) + countDescendants(child), 0);
+    return node.descendantCount;
+  };
+  countDescendants(root);
+
+  return root;
+}
+
+function describeNode(node: TreeNode): string {
+  const details: string[] = [];
+  if (node.children.size > 0) {
+    details.push(`${node.children.size} ${node.children.size === 1 ? 'child' : 'children'}`);
+    if (node.descendantCount > node.children.size) {
+      details.push(`${node.descendantCount} descendants`);
+    }
+  }
+  if (node.page?.updatedAt) {
+    details.push(`updated ${node.page.updatedAt.substring(0, 10)}`);
+  }
+  if (!node.page) {
+    details.push('no page');
+  }
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+/**
+ * Render the tree as an indented list down to maxDepth levels below the root
+ */
+export function renderTree(root: TreeNode, maxDepth: number): string {
+  let text = `${root.path}${describeNode(root)}\n`;
+
+  const walk = (node: TreeNode, depth: number) => {
+    const children = [...node.children.values()].sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      text += `${'  '.repeat(depth)}- ${child.name}${describeNode(child)}\n`;
+      if (depth < maxDepth) {
+        walk(child, depth + 1);
+      }
+    }
+  };
+  if (maxDepth > 0) walk(root, 1);
+
+  return text;
+}
+
+/**
+ * List the nodes down to maxDepth levels below the root, in the order renderTree shows them
+ */
+export function flattenTree(root: TreeNode, maxDepth: number) {
+  const nodes: z.infer<typeof pageTreeOutputSchema>['nodes'] = [];
+  const walk = (node: TreeNode, depth: number) => {
+    nodes.push({
+      path: node.path,
+      depth,
+      hasPage: Boolean(node.page),
+      children: node.children.size,
+      descendants: node.descendantCount,
+      ...(node.page?.updatedAt ? { updatedAt: node.page.updatedAt } : {}),
+    });
+    if (depth >= maxDepth) return;
+    [...node.children.values()]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((child) => walk(child, depth + 1));
+  };
+  walk(root, 0);
+  return nodes;
+}
+
+export async function pageTree(
+  client: GrowiClient,
+  params: PageTreeParams
+): Promise<ToolResult> {
+  try {
+    const parsed = pageTreeSchema.parse(params || {});
+    let path = parsed.path || '/';
+    if (!path.startsWith('/')) path = '/' + path;
+    if (path.length > 1) path = path.replace(/\/+$/, '');
+
+    let depth = parsed.depth !== undefined ? Number(parsed.depth) : 2;
+    if (isNaN(depth) || depth < 0) depth = 2;
+
+    let maxNodes = parsed.max_nodes !== undefined ? Number(parsed.max_nodes) : 500;
+    if (isNaN(maxNodes) || maxNodes < 1) {
+      maxNodes = 500;
+    } else if (maxNodes > 5000) {
+      maxNodes = 5000;
+    }
+
+    // ページネーションを辿って配下のページを集める
+    const pages: GrowiPage[] = [];
+    let total = 0;
+    for (let pageNumber = 1; pages.length < maxNodes; pageNumber++) {
+      const limit = Math.min(WALK_PAGE_SIZE, maxNodes - pages.length);
+      // limit が途中で変わるとオフセットがずれるため、常に WALK_PAGE_SIZE 単位で取得する
+      const response = await client.listPages(path, WALK_PAGE_SIZE, pageNumber);
+      if (!response.ok) {
+        return errorResult(`Error walking page tree (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+      }
+
+      total = response.meta?.total ?? total;
+      pages.push(...response.pages.slice(0, limit));
+      logToStderr(`Page tree walk: fetched ${pages.length} of ${total} pages under ${path}`);
+
+      if (response.pages.length < WALK_PAGE_SIZE || pageNumber * WALK_PAGE_SIZE >= total) break;
+    }
+
+    if (pages.length === 0) {
+      return toolResult(parsed.format, { path, depth, total, fetched: 0, nodes: [] }, {
+        text: () => `No pages found under path: ${path}`,
+      });
+    }
+
+    const root = buildTree(path, pages);
+    const data = { path, depth, total, fetched: pages.length, nodes: flattenTree(root, depth) };
+    return toolResult(parsed.format, data, {
+      text: () => {
+        let text = `Page tree of ${path} (depth ${depth})\n\n${renderTree(root, depth)}`;
+        if (total > pages.length) {
+          text += `\nTree cut off after ${pages.length} of ${total} pages (max_nodes: ${maxNodes}); child counts may be incomplete. `
+            + 'Narrow the path or raise max_nodes to see more.';
+        }
+        return text.trimEnd();
+      },
+    });
+  } catch (error) {
+    console.error('Exception in pageTree tool:', error);
+    return errorResult(`Error walking page tree: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const pageTreeTool = defineTool({
+  name: 'page_tree',
+  description: 'Show the page hierarchy under a path as an indented tree with child counts and last-updated dates',
+  schema: pageTreeSchema,
+  outputSchema: pageTreeOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => pageTree(client, params),
+});
@@ -0,0 +1,20 @@
+import { jest } from '@jest/globals';
+import { pagesByTag } from './pages-by-tag.js';
+
+describe('pagesByTag', () => {
+  it('lists pages with the tag and paginates', async () => {
+    const mockClient = {
+      findPagesByTag: jest.fn(async () => ({
+        ok: true,
+        data: [{ path: '/adr/001', tags: ['adr'], updatedAt: '2024-01-01' } as any],
+        meta: { total: 21, took: 3, hitsCount: 1 },
+      })),
+    } as any;
+
+    const result = await pagesByTag(mockClient, { tag: '#adr', offset: 20 });
+
+    expect(mockClient.findPagesByTag).toHaveBeenCalledWith('adr', 20, 20);
+    expect(result.content[0].text).toContain('21. /adr/001');
+    expect(result.content[0].text).toContain('Showing 21-21 of 21 total pages');
+  });
+});
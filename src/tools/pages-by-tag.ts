@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError } from '../errors.js';
+import { formatSchema, searchHitOutput, searchHitOutputSchema, searchMetaOutputSchema, toolResult, ToolResult } from '../output.js';
+import { formatHit } from './search-pages.js';
+import { formatPagesMarkdown } from './list-pages.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const pagesByTagSchema = z.object({
+  tag: z.string().describe('Tag name'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to return (default: 20)'),
+  offset: z.union([z.string(), z.number()]).optional().describe('Offset for pagination (default: 0)'),
+  format: formatSchema,
+});
+
+export const pagesByTagOutputSchema = z.object({
+  ok: z.boolean(),
+  tag: z.string(),
+  data: z.array(searchHitOutputSchema),
+  meta: searchMetaOutputSchema.optional(),
+});
+
+export type PagesByTagParams = z.infer<typeof pagesByTagSchema>;
+
+export async function pagesByTag(
+  client: GrowiClient,
+  params: PagesByTagParams
+): Promise<ToolResult> {
+  try {
+    const parsed = pagesByTagSchema.parse(params);
+    const tag = parsed.tag.trim().replace(/^#/, '');
+    if (!tag) {
+      throw new InvalidArgumentError('Tag must not be empty');
+    }
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 20;
+    if (isNaN(limit) || limit < 1) {
+      limit = 20;
+    } else if (limit > 100) {
+      limit = 100;
+    }
+    let offset = parsed.offset !== undefined ? Number(parsed.offset) : 0;
+    if (isNaN(offset) || offset < 0) offset = 0;
+
+    logToStderr(`Finding pages tagged "${tag}" with: limit=${limit}, offset=${offset}`);
+    const response = await client.findPagesByTag(tag, limit, offset);
+
+    if (!response.ok) {
+      return errorResult(`Error finding pages by tag (tag: ${tag}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    // スニペットは検索語 "tag:..." に対するものなので返さない
+    const hits = (response.data || []).map((hit) => searchHitOutput({ ...hit, snippet: undefined }));
+    const data = { ok: true, tag, data: hits, ...(response.meta ? { meta: response.meta } : {}) };
+    if (hits.length === 0) {
+      return toolResult(parsed.format, data, { text: () => `No pages found with tag: ${tag}` });
+    }
+
+    const total = response.meta?.total ?? hits.length;
+    const footer = `Showing ${offset + 1}-${offset + hits.length} of ${total} total pages`;
+    return toolResult(parsed.format, data, {
+      text: () => {
+        let text = `Found ${hits.length} pages with tag: ${tag}\n\n`;
+        hits.forEach((hit, index) => {
+          text += formatHit(hit, offset + index + 1);
+        });
+        return text + `\n${footer}`;
+      },
+      markdown: () => `## Pages tagged \`${tag}\`\n\n${formatPagesMarkdown(hits)}\n${footer}`,
+    });
+  } catch (error) {
+    console.error('Exception in pagesByTag tool:', error);
+    return errorResult(`Error finding pages by tag: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const pagesByTagTool = defineTool({
+  name: 'pages_by_tag',
+  description: 'Find GROWI pages that have a given tag',
+  schema: pagesByTagSchema,
+  outputSchema: pagesByTagOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => pagesByTag(client, params),
+});
@@ -0,0 +1,32 @@
+import { jest } from '@jest/globals';
+import { postComment } from './post-comment.js';
+
+describe('postComment', () => {
+  const page = { _id: 'page1', path: '/runbook', revision: { _id: 'rev1' } };
+
+  it('posts a reply against the current revision', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page })),
+      listComments: jest.fn(async () => ({ ok: true, comments: [{ _id: 'c1' }] })),
+      postComment: jest.fn(async () => ({ ok: true, comment: { _id: 'c2' } })),
+    } as any;
+
+    const result = await postComment(mockClient, { path: '/runbook', body: 'Done', reply_to: 'c1' });
+
+    expect(mockClient.postComment).toHaveBeenCalledWith('page1', 'rev1', 'Done', 'c1');
+    expect(result.content[0].text).toContain('Reply to c1 posted on /runbook');
+  });
+
+  it('refuses to reply to an unknown comment', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page })),
+      listComments: jest.fn(async () => ({ ok: true, comments: [] })),
+      postComment: jest.fn(),
+    } as any;
+
+    const result = await postComment(mockClient, { path: '/runbook', body: 'Done', reply_to: 'c9' });
+
+    expect(result.isError).toBe(true);
+    expect(mockClient.postComment).not.toHaveBeenCalled();
+  });
+});
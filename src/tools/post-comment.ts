@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError, NotFoundError } from '../errors.js';
+import { commentOutputSchema, formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const postCommentSchema = z.object({
+  path: z.string().describe('Path of the page to comment on'),
+  body: z.string().describe('Markdown body of the comment'),
+  reply_to: z.string().optional().describe('Id of the comment to reply to (shown by list_comments)'),
+  format: formatSchema,
+});
+
+export const postCommentOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  comment: commentOutputSchema,
+});
+
+export type PostCommentParams = z.infer<typeof postCommentSchema>;
+
+export async function postComment(
+  client: GrowiClient,
+  params: PostCommentParams
+): Promise<ToolResult> {
+  try {
+    const parsed = postCommentSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    if (!parsed.body.trim()) {
+      throw new InvalidArgumentError('Comment body must not be empty');
+    }
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error posting comment (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+    const page = pageResponse.page;
+
+    // 返信先が存在しないコメントIDだとスレッドから外れてしまうため事前に確認する
+    if (parsed.reply_to) {
+      const comments = await client.listComments(page._id);
+      if (!comments.ok) {
+        return errorResult(`Error posting comment (path: ${path}): ${comments.error || 'Unknown error'}`, comments.errorInfo);
+      }
+      if (!comments.comments.some((comment) => comment._id === parsed.reply_to)) {
+        throw new NotFoundError(`Comment not found on ${path}: ${parsed.reply_to}`);
+      }
+    }
+
+    logToStderr(`Posting ${parsed.reply_to ? `reply to ${parsed.reply_to}` : 'comment'} on ${path}`);
+    const response = await client.postComment(page._id, page.revision._id, parsed.body, parsed.reply_to);
+    if (!response.ok) {
+      return errorResult(`Error posting comment (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const kind = parsed.reply_to ? `Reply to ${parsed.reply_to}` : 'Comment';
+    return toolResult(parsed.format, { ok: true, path, comment: response.comment }, {
+      text: () => `${kind} posted on ${path}\nComment: ${response.comment._id}`,
+      markdown: () => `${kind} posted on \`${path}\` (comment \`${response.comment._id}\`)`,
+    });
+  } catch (error) {
+    console.error('Exception in postComment tool:', error);
+    return errorResult(`Error posting comment: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const postCommentTool = defineTool({
+  name: 'post_comment',
+  description: 'Post a comment on a page, or a reply to an existing comment with reply_to',
+  schema: postCommentSchema,
+  outputSchema: postCommentOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (params, { client }) => postComment(client, params),
+});
@@ -1,9 +1,10 @@
 import { z } from 'zod';
 import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
 import { GrowiPage } from '../types/growi.js';
-import https from 'https';
-import http from 'http';
-import { URL } from 'url';
+import { formatSchema, offsetMetaOutputSchema, pageOutput, pageOutputSchema, toolResult, ToolResult } from '../output.js';
+import { formatPagesMarkdown } from './list-pages.js';
+import { defineTool } from './registry.js';
 
 const logToStderr = (...args: any[]) => {
   console.error(...args);
@@ -12,75 +13,25 @@ const logToStderr = (...args: any[]) => {
 export const recentlyUpdatedPagesSchema = z.object({
   limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of pages to return (default: 20)'),
   offset: z.union([z.string(), z.number()]).optional().describe('Offset for pagination (default: 0)'),
+  format: formatSchema,
 });
 
-export type RecentlyUpdatedPagesParams = z.infer<typeof recentlyUpdatedPagesSchema>;
-
-function makeNativeHttpRequest(url: string, apiToken: string): Promise<any> {
-  return new Promise((resolve, reject) => {
-    const parsedUrl = new URL(url);
-    logToStderr(`Making native HTTP request to: ${url}`);
-
-    const postData = `access_token=${encodeURIComponent(apiToken)}`;
-
-    const options = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-      path: `${parsedUrl.pathname}${parsedUrl.search}`,
-      method: 'GET',
-      headers: {
-        'User-Agent': 'curl/8.7.1',
-        'Accept': '*/*',
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Content-Length': Buffer.byteLength(postData)
-      }
-    };
-
-    logToStderr(`Sending access_token in request body: ${apiToken.substring(0, 5)}...`);
-
-    const protocol = parsedUrl.protocol === 'https:' ? https : http;
-    const req = protocol.request(options, (res) => {
-      logToStderr(`Response status: ${res.statusCode}`);
-
-      let data = '';
-      res.on('data', (chunk) => {
-        data += chunk.toString();
-      });
-
-      res.on('end', () => {
-        logToStderr(`Response completed. Data length: ${data.length}`);
-
-        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-          try {
-            const jsonData = JSON.parse(data);
-            logToStderr(`Got ${jsonData.pages?.length || 0} pages out of ${jsonData.totalCount || 0} total`);
-            resolve(jsonData);
-          } catch (error) {
-            reject(new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : String(error)}`));
-          }
-        } else {
-          reject(new Error(`HTTP Error: ${res.statusCode} ${res.statusMessage || ''} - ${data}`));
-        }
-      });
-    });
-
-    req.on('error', (error) => {
-      logToStderr(`Request failed: ${error.message}`);
-      reject(error);
-    });
+export const recentlyUpdatedPagesOutputSchema = z.object({
+  ok: z.boolean(),
+  pages: z.array(pageOutputSchema),
+  meta: offsetMetaOutputSchema.optional(),
+});
 
-    req.write(postData);
-    req.end();
-  });
-}
+export type RecentlyUpdatedPagesParams = z.infer<typeof recentlyUpdatedPagesSchema>;
 
 export async function recentlyUpdatedPages(
   client: GrowiClient,
   params: RecentlyUpdatedPagesParams
-): Promise<{ content: { type: string; text: string }[] }> {
+): Promise<ToolResult> {
   try {
     let limit = 20;
     let offset = 0;
+    const format = params ? recentlyUpdatedPagesSchema.parse(params).format : undefined;
 
     if (params) {
       if (params.limit !== undefined) {
@@ -114,69 +65,13 @@ export async function recentlyUpdatedPages(
 
     logToStderr(`Calling GROWI API with: limit=${limit}, offset=${offset}`);
 
-    try {
-      const apiUrl = (client as any).baseURL;
-      const apiToken = (client as any).apiToken;
-
-      if (!apiUrl || !apiToken) {
-        throw new Error('Missing API URL or token');
-      }
-
-      const url = new URL(`${apiUrl}/_api/v3/pages/recent`);
-      url.searchParams.append('limit', String(limit));
-      url.searchParams.append('offset', String(offset));
-
-      const urlString = url.toString();
-
-      const data = await makeNativeHttpRequest(urlString, apiToken);
-
-      if (data && data.pages) {
-        const pagesCount = data.pages.length || 0;
-        let resultText = '';
-        if (pagesCount === 0) {
-          resultText = 'No recently updated pages found';
-        } else {
-          resultText = `Found ${pagesCount} recently updated pages\n\n`;
-          data.pages.forEach((page: any, index: number) => {
-            if (index < 10) logToStderr(`  - Page ${index+1}: ${page.path}`);
-            resultText += `- ${page.path}\n`;
-          });
-          if (pagesCount > 10) {
-            logToStderr(`  - ... and ${pagesCount - 10} more pages`);
-          }
-          resultText += `\nShowing ${offset + 1}-${offset + pagesCount}`;
-          if (typeof data.totalCount === 'number') {
-            resultText += ` of ${data.totalCount} total pages`;
-          }
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: resultText,
-            },
-          ],
-        };
-      }
-    } catch (directError) {
-      logToStderr(`Direct request failed: ${directError instanceof Error ? directError.message : String(directError)}`);
-    }
-
     const response = await client.getRecentlyUpdatedPages(limit, offset);
 
     logToStderr(`GROWI API returned ${response.pages?.length || 0} pages`);
     let resultText = '';
 
     if (!response.ok) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error listing recently updated pages: ${response.error || 'Unknown error'}`,
-          },
-        ],
-      };
+      return errorResult(`Error listing recently updated pages: ${response.error || 'Unknown error'}`, response.errorInfo);
     }
 
     if (!response.pages || response.pages.length === 0) {
@@ -196,24 +91,25 @@ export async function recentlyUpdatedPages(
       }
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: resultText,
-        },
-      ],
-    };
+    const pages = (response.pages || []).map(pageOutput);
+    return toolResult(format, { ok: true, pages, ...(response.meta ? { meta: response.meta } : {}) }, {
+      text: () => resultText,
+      markdown: () => pages.length === 0
+        ? resultText
+        : `## Recently updated pages\n\n${formatPagesMarkdown(pages)}`
+          + (response.meta ? `\nShowing ${response.meta.offset + 1}-${response.meta.offset + pages.length} of ${response.meta.total} total pages` : ''),
+    });
   } catch (error) {
     console.error('Exception in recentlyUpdatedPages tool:', error);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error listing recently updated pages: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-    };
+    return errorResult(`Error listing recently updated pages: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
   }
 }
 
+export const recentlyUpdatedPagesTool = defineTool({
+  name: 'recently_updated_pages',
+  description: 'Get recently updated GROWI pages',
+  schema: recentlyUpdatedPagesSchema,
+  outputSchema: recentlyUpdatedPagesOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => recentlyUpdatedPages(client, params),
+});
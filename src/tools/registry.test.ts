@@ -0,0 +1,124 @@
+import { jest } from '@jest/globals';
+import { z } from 'zod';
+import { GrowiInstanceClients } from '../instances.js';
+import { defineTool, ToolRegistry, TOOL_NAME_PREFIX } from './registry.js';
+import { tools } from './index.js';
+
+const echoTool = defineTool({
+  name: 'echo',
+  description: 'Echo the arguments',
+  schema: z.object({
+    path: z.string().describe('Page path'),
+    limit: z.union([z.string(), z.number()]).optional().describe('Limit'),
+  }),
+  outputSchema: z.object({ path: z.string() }),
+  annotations: { readOnlyHint: true },
+  handler: jest.fn(async (params: { path: string }) => ({
+    content: [{ type: 'text', text: params.path }],
+    structuredContent: { path: params.path },
+  })),
+});
+
+const clientsOf = (...names: string[]) =>
+  new GrowiInstanceClients(new Map(names.map((name) => [name, { name } as any])), names[0]);
+
+describe('ToolRegistry', () => {
+  beforeEach(() => {
+    (echoTool.handler as jest.Mock).mockClear();
+  });
+
+  it('lists tools with prefixed names, JSON schemas and annotations', () => {
+    const [tool] = new ToolRegistry([echoTool]).list(clientsOf('default'));
+
+    expect(tool).toEqual({
+      name: `${TOOL_NAME_PREFIX}echo`,
+      description: 'Echo the arguments',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Page path' },
+          limit: { type: ['string', 'number'], description: 'Limit' },
+        },
+        required: ['path'],
+      },
+      outputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+      annotations: { readOnlyHint: true },
+    });
+  });
+
+  it('adds the instance argument and hides unavailable tools with several instances', () => {
+    const multiOnly = defineTool({ ...echoTool, name: 'multi', available: (clients) => clients.names.length > 1 });
+    const registry = new ToolRegistry([echoTool, multiOnly]);
+
+    expect(registry.list(clientsOf('default')).map((tool) => tool.name)).toEqual([`${TOOL_NAME_PREFIX}echo`]);
+
+    const listed = registry.list(clientsOf('eng', 'sales'));
+    expect(listed.map((tool) => tool.name)).toEqual([`${TOOL_NAME_PREFIX}echo`, `${TOOL_NAME_PREFIX}multi`]);
+    expect(listed[0].inputSchema.properties.instance.description).toContain('eng, sales');
+  });
+
+  it('offers tools that depend on server settings only when configured', async () => {
+    const configured = defineTool({ ...echoTool, name: 'configured', available: (_clients, settings) => Boolean(settings.indexDir) });
+    const registry = new ToolRegistry([configured]);
+
+    expect(registry.list(clientsOf('default'))).toEqual([]);
+    expect(registry.list(clientsOf('default'), { indexDir: '/tmp' })).toHaveLength(1);
+    const result = await registry.call(`${TOOL_NAME_PREFIX}configured`, { path: '/a' }, clientsOf('default'));
+    expect(result.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+  });
+
+  it('calls the handler with the validated arguments and the client of the instance', async () => {
+    const clients = clientsOf('eng', 'sales');
+    const result = await new ToolRegistry([echoTool]).call(`${TOOL_NAME_PREFIX}echo`, { path: '/a', instance: 'sales' }, clients);
+
+    expect(result.content[0].text).toBe('/a');
+    expect(echoTool.handler).toHaveBeenCalledWith({ path: '/a' }, expect.objectContaining({ client: { name: 'sales' }, clients }));
+  });
+
+  it('rejects unknown tools, unknown arguments and invalid values with INVALID_ARGUMENT', async () => {
+    const registry = new ToolRegistry([echoTool]);
+    const clients = clientsOf('default');
+
+    const unknownTool = await registry.call('mcp_growi_growi_nope', {}, clients);
+    expect(unknownTool).toMatchObject({ isError: true, structuredContent: { error: { code: 'INVALID_ARGUMENT' } } });
+
+    const invalid = await registry.call(`${TOOL_NAME_PREFIX}echo`, { limit: true, extra: 1 }, clients);
+    expect(invalid.isError).toBe(true);
+    expect(invalid.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect(invalid.content[0].text).toContain(`Invalid arguments for ${TOOL_NAME_PREFIX}echo:`);
+    expect(invalid.content[0].text).toContain('- path: Required');
+    expect(invalid.content[0].text).toContain('- limit: ');
+    expect(invalid.content[0].text).toContain("Unrecognized key(s) in object: 'extra'");
+    expect(echoTool.handler).not.toHaveBeenCalled();
+  });
+
+  it('returns an error result for an unknown instance or a failing handler', async () => {
+    const failing = defineTool({ ...echoTool, name: 'failing', handler: async () => { throw new Error('boom'); } });
+    const registry = new ToolRegistry([echoTool, failing]);
+    const clients = clientsOf('default');
+
+    const unknownInstance = await registry.call(`${TOOL_NAME_PREFIX}echo`, { path: '/a', instance: 'other' }, clients);
+    expect(unknownInstance.content[0].text).toContain('Unknown GROWI instance: other');
+    expect(unknownInstance.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+
+    const failed = await registry.call(`${TOOL_NAME_PREFIX}failing`, { path: '/a' }, clients);
+    expect(failed).toMatchObject({ isError: true, structuredContent: { error: { code: 'INTERNAL_ERROR', message: 'Error executing tool: boom' } } });
+  });
+
+  it('refuses to register a tool twice', () => {
+    expect(() => new ToolRegistry([echoTool, echoTool])).toThrow('already registered');
+  });
+});
+
+describe('tools', () => {
+  it('registers every tool once with annotations', () => {
+    const registry = new ToolRegistry(tools);
+    const listed = registry.list(clientsOf('eng', 'sales'), { indexDir: '/tmp/growi-index', exportDir: '/tmp/growi-export', allowHardDelete: true });
+
+    expect(listed).toHaveLength(tools.length);
+    for (const tool of listed) {
+      expect(tool.name).toMatch(/^mcp_growi_growi_[a-z_]+$/);
+      expect(typeof tool.annotations.readOnlyHint).toBe('boolean');
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Declarative tool registry
+ * Each tool module exports a ToolDefinition (name, description, schemas, annotations and handler);
+ * tools/list and tools/call are both generated from the registered definitions.
+ */
+import { z } from 'zod';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { GrowiClient } from '../growi-client.js';
+import { GrowiInstanceClients } from '../instances.js';
+import { errorInfoOf, errorResult, validationErrorResult } from '../errors.js';
+import { zodToJsonSchema } from '../json-schema.js';
+import { ToolResult } from '../output.js';
+
+// MCP クライアントに公開するツール名の接頭辞
+export const TOOL_NAME_PREFIX = 'mcp_growi_growi_';
+
+// Server settings that tools may need
+export interface ToolSettings {
+  // Size cap of attachment downloads
+  attachmentMaxBytes?: number;
+  // Whether delete_page, which deletes pages completely, is offered (GROWI_ALLOW_HARD_DELETE)
+  allowHardDelete?: boolean;
+  // Directory of the local search indexes (GROWI_INDEX_DIR); local_search is offered only when set
+  indexDir?: string;
+  // Directory export_subtree writes into (GROWI_EXPORT_DIR); export_subtree is offered only when set
+  exportDir?: string;
+}
+
+export interface ToolContext {
+  // Client of the instance selected with the `instance` argument
+  client: GrowiClient;
+  // Clients of every instance available to the session
+  clients: GrowiInstanceClients;
+  settings: ToolSettings;
+}
+
+// Result of a handler; besides text, the content may hold images (fetch_attachment)
+export type ToolCallResult = Omit<ToolResult, 'content'> & { content: ({ type: string } & Record<string, unknown>)[] };
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  // Name without TOOL_NAME_PREFIX, e.g. list_pages
+  name: string;
+  description: string | ((clients: GrowiInstanceClients) => string);
+  schema: S;
+  outputSchema: z.AnyZodObject;
+  annotations: ToolAnnotations;
+  // Whether the tool is offered to a session (default: always)
+  available?: (clients: GrowiInstanceClients, settings: ToolSettings) => boolean;
+  // Called with the validated arguments
+  handler(params: z.infer<S>, context: ToolContext): Promise<ToolCallResult>;
+}
+
+/**
+ * Define a tool; only infers the handler's parameter type from the schema
+ */
+export function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+/**
+ * 複数インスタンス構成の場合、ツールの入力スキーマに instance 引数を追加する
+ */
+function withInstanceArgument(inputSchema: Record<string, any>, clients: GrowiInstanceClients) {
+  if (clients.names.length < 2) return inputSchema;
+  return {
+    ...inputSchema,
+    properties: {
+      ...inputSchema.properties,
+      instance: {
+        type: 'string',
+        description: `GROWI instance to use (${clients.names.join(', ')}; default: ${clients.defaultInstance})`,
+      },
+    },
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition<any>[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  register(tool: ToolDefinition<any>): void {
+    const name = TOOL_NAME_PREFIX + tool.name;
+    if (this.tools.has(name)) {
+      throw new Error(`Tool ${name} is already registered`);
+    }
+    this.tools.set(name, tool);
+  }
+
+  /**
+   * Tools offered to a session, for tools/list
+   */
+  list(clients: GrowiInstanceClients, settings: ToolSettings = {}) {
+    return [...this.tools.entries()]
+      .filter(([, tool]) => !tool.available || tool.available(clients, settings))
+      .map(([name, tool]) => ({
+        name,
+        description: typeof tool.description === 'function' ? tool.description(clients) : tool.description,
+        inputSchema: withInstanceArgument(zodToJsonSchema(tool.schema), clients),
+        outputSchema: zodToJsonSchema(tool.outputSchema),
+        annotations: tool.annotations,
+      }));
+  }
+
+  /**
+   * Validate the arguments and run a tool, for tools/call
+   * Unknown tools, unknown arguments and invalid values all return an INVALID_ARGUMENT error result.
+   * @param name Full tool name (with TOOL_NAME_PREFIX)
+   * @param args Arguments of the call, including the optional `instance`
+   * @param clients Clients of the session
+   * @param settings Server settings passed to the handler
+   */
+  async call(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    clients: GrowiInstanceClients,
+    settings: ToolSettings = {},
+  ): Promise<ToolCallResult> {
+    const tool = this.tools.get(name);
+    if (!tool || (tool.available && !tool.available(clients, settings))) {
+      return errorResult(`Unknown tool: ${name}`, { code: 'INVALID_ARGUMENT' });
+    }
+
+    // instance はどのツールでも受け付ける。それ以外の未知の引数は検証エラーとする
+    const parsed = tool.schema.extend({ instance: z.string().optional() }).strict().safeParse(args ?? {});
+    if (!parsed.success) {
+      return validationErrorResult(name, parsed.error);
+    }
+    const { instance, ...params } = parsed.data;
+
+    try {
+      // 未知のインスタンス名はここで例外となり、エラー結果として返される
+      const client = clients.resolve(instance);
+      return await tool.handler(params, { client, clients, settings });
+    } catch (error) {
+      return errorResult(`Error executing tool: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { jest } from '@jest/globals';
+import { restorePage, trashPathOf } from './restore-page.js';
+
+const page = (path: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: 'r1', body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+describe('trashPathOf', () => {
+  it('accepts trash paths and original paths', () => {
+    expect(trashPathOf('/trash/old/a')).toBe('/trash/old/a');
+    expect(trashPathOf('old/a/')).toBe('/trash/old/a');
+  });
+});
+
+describe('restorePage', () => {
+  it('restores the trashed page to its original path', async () => {
+    const client = {
+      getPage: jest.fn(async (path: string) => ({ ok: true, page: page(path) })),
+      restorePage: jest.fn(async () => ({ ok: true, page: page('/old') })),
+    } as any;
+
+    const result = await restorePage(client, { path: '/old', recursive: true });
+
+    expect(client.getPage).toHaveBeenCalledWith('/trash/old');
+    expect(client.restorePage).toHaveBeenCalledWith(expect.objectContaining({ path: '/trash/old' }), true);
+    expect(result.structuredContent).toMatchObject({ from: '/trash/old', path: '/old', recursive: true });
+    expect(result.content[0].text).toBe('Restored /trash/old and the pages below it to /old');
+  });
+
+  it('reports a page missing from the trash', async () => {
+    const client = {
+      getPage: jest.fn(async () => ({ ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND', status: 404 } })),
+      restorePage: jest.fn(),
+    } as any;
+
+    const result = await restorePage(client, { path: '/trash/nope' });
+
+    expect(result.structuredContent).toMatchObject({ error: { code: 'NOT_FOUND' } });
+    expect(client.restorePage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, pageOutput, pageOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { normalizePagePath } from './move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const restorePageSchema = z.object({
+  path: z.string().describe('Path of the page in the trash (/trash/...) or its original path'),
+  recursive: z.boolean().optional().describe('Also restore every page below it in the trash (default: false)'),
+  format: formatSchema,
+});
+
+export const restorePageOutputSchema = z.object({
+  from: z.string().describe('Path of the page in the trash'),
+  path: z.string().describe('Path the page was restored to'),
+  recursive: z.boolean(),
+  page: pageOutputSchema,
+});
+
+export type RestorePageParams = z.infer<typeof restorePageSchema>;
+
+/**
+ * Path of a page in the trash, given either its trash path or its original path
+ */
+export function trashPathOf(path: string): string {
+  path = normalizePagePath(path);
+  return path.startsWith('/trash/') ? path : '/trash' + path;
+}
+
+export async function restorePage(
+  client: GrowiClient,
+  params: RestorePageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = restorePageSchema.parse(params);
+    const from = trashPathOf(parsed.path);
+    const recursive = parsed.recursive ?? false;
+
+    const pageResponse = await client.getPage(from);
+    if (!pageResponse.ok) {
+      return errorResult(`Error getting page from the trash (path: ${from}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+
+    logToStderr(`Restoring ${from} (recursive: ${recursive})`);
+    const response = await client.restorePage(pageResponse.page, recursive);
+    if (!response.ok) {
+      return errorResult(`Error restoring page (path: ${from}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const data = { from, path: response.page.path, recursive, page: pageOutput(response.page) };
+    return toolResult(parsed.format, data, {
+      text: () => `Restored ${from}${recursive ? ' and the pages below it' : ''} to ${data.path}`,
+      markdown: () => `Restored \`${from}\`${recursive ? ' and the pages below it' : ''} to \`${data.path}\``,
+    });
+  } catch (error) {
+    console.error('Exception in restorePage tool:', error);
+    return errorResult(`Error restoring page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const restorePageTool = defineTool({
+  name: 'restore_page',
+  description: 'Restore a page, optionally with the pages below it, from the trash to its original path',
+  schema: restorePageSchema,
+  outputSchema: restorePageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (params, { client }) => restorePage(client, params),
+});
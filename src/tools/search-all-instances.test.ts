@@ -0,0 +1,37 @@
+import { jest } from '@jest/globals';
+import { searchAllInstances } from './search-all-instances.js';
+
+const clientWith = (paths: string[]) => ({
+  searchPages: jest.fn(async () => ({
+    ok: true,
+    data: paths.map((path) => ({ path } as any)),
+    meta: { total: paths.length, took: 1, hitsCount: paths.length },
+  })),
+}) as any;
+
+describe('searchAllInstances', () => {
+  it('interleaves hits and labels each with its instance', async () => {
+    const result = await searchAllInstances([
+      { name: 'engineering', client: clientWith(['/eng/a', '/eng/b']) },
+      { name: 'sales', client: clientWith(['/sales/a']) },
+    ], { query: 'policy' });
+
+    const text = result.content[0].text;
+    expect(text).toContain('1. [engineering] /eng/a');
+    expect(text).toContain('2. [sales] /sales/a');
+    expect(text).toContain('3. [engineering] /eng/b');
+  });
+
+  it('keeps results from healthy instances when one fails', async () => {
+    const broken = { searchPages: jest.fn(async () => ({ ok: false, error: 'search disabled', data: [] })) } as any;
+
+    const result = await searchAllInstances([
+      { name: 'engineering', client: clientWith(['/eng/a']) },
+      { name: 'hr', client: broken },
+    ], { query: 'policy' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('[engineering] /eng/a');
+    expect(result.content[0].text).toContain('hr: error - search disabled');
+  });
+});
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError } from '../errors.js';
+import { GrowiSearchHit } from '../types/growi.js';
+import { formatSchema, searchHitOutput, searchHitOutputSchema, toolResult, ToolResult } from '../output.js';
+import { formatHit, formatHitMarkdown } from './search-pages.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const searchAllInstancesSchema = z.object({
+  query: z.string().describe('Full-text search query (GROWI search syntax is supported)'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of hits per instance (default: 5)'),
+  path: z.string().optional().describe('Only search pages under this path prefix'),
+  sort: z.enum(['relationScore', 'createdAt', 'updatedAt']).optional().describe('Sort key: relationScore, createdAt or updatedAt (default: relationScore)'),
+  order: z.enum(['asc', 'desc']).optional().describe('Sort order: asc or desc (default: desc)'),
+  format: formatSchema,
+});
+
+export const searchAllInstancesOutputSchema = z.object({
+  query: z.string(),
+  hits: z.array(searchHitOutputSchema.extend({
+    instance: z.string().describe('GROWI instance the page belongs to'),
+  })).describe('Merged hits of all instances'),
+  instances: z.array(z.object({
+    instance: z.string(),
+    ok: z.boolean(),
+    hits: z.number().optional(),
+    total: z.number().optional(),
+    error: z.string().optional(),
+  })),
+});
+
+export type SearchAllInstancesParams = z.infer<typeof searchAllInstancesSchema>;
+
+export interface LabeledSearchHit {
+  instance: string;
+  rank: number;
+  hit: GrowiSearchHit;
+}
+
+/**
+ * Merge per-instance result lists
+ * Relevance scores are not comparable between instances, so relevance-sorted results are
+ * interleaved by rank; date-sorted results are merged by the date itself.
+ */
+export function mergeHits(
+  results: { instance: string; hits: GrowiSearchHit[] }[],
+  sort?: 'relationScore' | 'createdAt' | 'updatedAt',
+  order: 'asc' | 'desc' = 'desc',
+): LabeledSearchHit[] {
+  const labeled = results.flatMap(({ instance, hits }) => hits.map((hit, rank) => ({ instance, rank, hit })));
+
+  if (sort === 'createdAt' || sort === 'updatedAt') {
+    const direction = order === 'asc' ? 1 : -1;
+    return labeled.sort((a, b) => direction * (Date.parse(a.hit[sort]) - Date.parse(b.hit[sort])) || a.rank - b.rank);
+  }
+  return labeled.sort((a, b) => a.rank - b.rank);
+}
+
+export async function searchAllInstances(
+  instances: { name: string; client: GrowiClient }[],
+  params: SearchAllInstancesParams
+): Promise<ToolResult> {
+  try {
+    const parsed = searchAllInstancesSchema.parse(params);
+    const query = parsed.query.trim();
+    if (!query) {
+      throw new InvalidArgumentError('Search query must not be empty');
+    }
+
+    let limit = parsed.limit !== undefined ? Number(parsed.limit) : 5;
+    if (isNaN(limit) || limit < 1) {
+      limit = 5;
+    } else if (limit > 50) {
+      limit = 50;
+    }
+
+    let path = parsed.path;
+    if (path !== undefined && !path.startsWith('/')) path = '/' + path;
+
+    logToStderr(`Searching ${instances.length} GROWI instances with: query="${query}", limit=${limit}`);
+
+    const responses = await Promise.all(instances.map(async ({ name, client }) => ({
+      instance: name,
+      response: await client.searchPages(query, limit, 0, { path, sort: parsed.sort, order: parsed.order }),
+    })));
+
+    const failures = responses.filter(({ response }) => !response.ok);
+    if (failures.length === instances.length) {
+      return errorResult(
+        `Error searching all instances (query: ${query}): `
+          + failures.map(({ instance, response }) => `${instance}: ${response.error || 'Unknown error'}`).join('; '),
+        failures[0].response.errorInfo,
+      );
+    }
+
+    const succeeded = responses.filter(({ response }) => response.ok);
+    const merged = mergeHits(
+      succeeded.map(({ instance, response }) => ({ instance, hits: response.data || [] })),
+      parsed.sort,
+      parsed.order,
+    );
+
+    const scope = path ? ` under path: ${path}` : '';
+    const data = {
+      query,
+      hits: merged.map(({ instance, hit }) => ({ instance, ...searchHitOutput(hit) })),
+      instances: responses.map(({ instance, response }) => response.ok
+        ? { instance, ok: true, hits: response.data.length, total: response.meta?.total ?? response.data.length }
+        : { instance, ok: false, error: response.error || 'Unknown error' }),
+    };
+
+    const render = (formatEntry: (hit: GrowiSearchHit, index: number, label?: string) => string, heading: string) => {
+      let text = merged.length === 0
+        ? `${heading}No pages found matching "${query}"${scope} in any instance\n`
+        : `${heading}Found ${merged.length} pages matching "${query}"${scope} across ${succeeded.length} instances\n\n`;
+      merged.forEach(({ instance, hit }, index) => {
+        text += formatEntry(hit, index + 1, instance) + '\n';
+      });
+
+      text += '\nPer instance:\n';
+      responses.forEach(({ instance, response }) => {
+        text += response.ok
+          ? `- ${instance}: ${response.data.length} of ${response.meta?.total ?? response.data.length} total hits\n`
+          : `- ${instance}: error - ${response.error || 'Unknown error'}\n`;
+      });
+      return text.trimEnd();
+    };
+
+    return toolResult(parsed.format, data, {
+      text: () => render(formatHit, ''),
+      markdown: () => render(formatHitMarkdown, '## '),
+    });
+  } catch (error) {
+    console.error('Exception in searchAllInstances tool:', error);
+    return errorResult(`Error searching all instances: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const searchAllInstancesTool = defineTool({
+  name: 'search_all_instances',
+  description: (clients) => `Search every configured GROWI instance (${clients.names.join(', ')}) and merge the hits, labeled by instance`,
+  schema: searchAllInstancesSchema,
+  outputSchema: searchAllInstancesOutputSchema,
+  annotations: { readOnlyHint: true },
+  // 複数インスタンス構成の場合のみ提供する
+  available: (clients) => clients.names.length > 1,
+  handler: (params, { clients }) => searchAllInstances(clients.entries(), params),
+});
@@ -0,0 +1,46 @@
+import { jest } from '@jest/globals';
+import { searchPages, formatSnippet } from './search-pages.js';
+
+describe('searchPages', () => {
+  it('formats hits with path, snippet, tags and meta', async () => {
+    const mockClient = {
+      searchPages: jest.fn(async () => ({
+        ok: true,
+        data: [
+          {
+            path: '/projects/runbook',
+            updatedAt: '2024-01-02T00:00:00.000Z',
+            snippet: 'how to <em class="highlighted-keyword">deploy</em> safely',
+            tags: ['ops', 'deploy'],
+          } as any,
+        ],
+        meta: { total: 42, took: 7, hitsCount: 1 },
+      })),
+    } as any;
+
+    const result = await searchPages(mockClient, { query: 'deploy', path: 'projects', sort: 'updatedAt' });
+
+    expect(mockClient.searchPages).toHaveBeenCalledWith('deploy', 10, 0, { path: '/projects', sort: 'updatedAt', order: undefined });
+    const text = result.content[0].text;
+    expect(text).toContain('/projects/runbook');
+    expect(text).toContain('how to **deploy** safely');
+    expect(text).toContain('Tags: ops, deploy');
+    expect(text).toContain('Updated: 2024-01-02T00:00:00.000Z');
+    expect(text).toContain('of 42 total hits (took 7 ms)');
+  });
+
+  it('returns an error result when the API fails', async () => {
+    const mockClient = {
+      searchPages: jest.fn(async () => ({ ok: false, error: 'boom', data: [] })),
+    } as any;
+
+    const result = await searchPages(mockClient, { query: 'x' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('boom');
+  });
+
+  it('strips markup from snippets', () => {
+    expect(formatSnippet('a &amp; <b>b</b>\n<em>c</em>')).toBe('a & b **c**');
+  });
+});
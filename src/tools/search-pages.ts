@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError } from '../errors.js';
+import { GrowiSearchHit, GrowiSearchSort } from '../types/growi.js';
+import {
+  formatSchema, searchHitOutput, searchHitOutputSchema, searchMetaOutputSchema, shortDate, toolResult, ToolResult,
+} from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const searchPagesSchema = z.object({
+  query: z.string().describe('Full-text search query (GROWI search syntax is supported)'),
+  limit: z.union([z.string(), z.number()]).optional().describe('Maximum number of hits to return (default: 10)'),
+  offset: z.union([z.string(), z.number()]).optional().describe('Offset for pagination (default: 0)'),
+  path: z.string().optional().describe('Only search pages under this path prefix'),
+  sort: z.enum(['relationScore', 'createdAt', 'updatedAt']).optional().describe('Sort key: relationScore, createdAt or updatedAt (default: relationScore)'),
+  order: z.enum(['asc', 'desc']).optional().describe('Sort order: asc or desc (default: desc)'),
+  format: formatSchema,
+});
+
+export const searchPagesOutputSchema = z.object({
+  ok: z.boolean(),
+  query: z.string(),
+  data: z.array(searchHitOutputSchema),
+  meta: searchMetaOutputSchema.optional(),
+});
+
+export type SearchPagesParams = z.infer<typeof searchPagesSchema>;
+
+interface NormalizedParams {
+  query: string;
+  limit: number;
+  offset: number;
+  path?: string;
+  sort?: GrowiSearchSort;
+  order?: 'asc' | 'desc';
+  format?: SearchPagesParams['format'];
+}
+
+function normalizeParams(params: SearchPagesParams): NormalizedParams {
+  const parsed = searchPagesSchema.parse(params);
+
+  const query = parsed.query.trim();
+  if (!query) {
+    throw new InvalidArgumentError('Search query must not be empty');
+  }
+
+  let limit = parsed.limit !== undefined ? Number(parsed.limit) : 10;
+  if (isNaN(limit) || limit < 1) {
+    limit = 10;
+    logToStderr(`Invalid limit value, reset to default: ${limit}`);
+  } else if (limit > 100) {
+    limit = 100;
+    logToStderr(`Limit too large, capped at: ${limit}`);
+  }
+
+  let offset = parsed.offset !== undefined ? Number(parsed.offset) : 0;
+  if (isNaN(offset) || offset < 0) {
+    offset = 0;
+    logToStderr(`Invalid offset value, reset to default: ${offset}`);
+  }
+
+  let path = parsed.path;
+  if (path !== undefined && !path.startsWith('/')) path = '/' + path;
+
+  return { query, limit, offset, path, sort: parsed.sort, order: parsed.order, format: parsed.format };
+}
+
+/**
+ * Convert the HTML highlight markup returned by Elasticsearch into plain markdown
+ */
+export function formatSnippet(snippet: string): string {
+  return snippet
+    .replace(/<em[^>]*>(.*?)<\/em>/gi, '**$1**')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Format one search hit as a numbered entry
+ * @param label Optional source label (e.g. the GROWI instance name) shown before the path
+ */
+export function formatHit(hit: GrowiSearchHit, index: number, label?: string): string {
+  let text = `${index}. ${label ? `[${label}] ` : ''}${hit.path}\n`;
+  if (hit.updatedAt) {
+    text += `   Updated: ${hit.updatedAt}\n`;
+  }
+  if (hit.tags && hit.tags.length > 0) {
+    text += `   Tags: ${hit.tags.join(', ')}\n`;
+  }
+  if (hit.snippet) {
+    text += `   > ${formatSnippet(hit.snippet)}\n`;
+  }
+  return text;
+}
+
+/**
+ * Format one search hit as a markdown section
+ */
+export function formatHitMarkdown(hit: GrowiSearchHit, index: number, label?: string): string {
+  let text = `### ${index}. ${label ? `[${label}] ` : ''}${hit.path}\n\n`;
+  const details = [
+    hit.updatedAt ? `updated ${shortDate(hit.updatedAt)}` : '',
+    hit.revision.author.name ? `by ${hit.revision.author.name}` : '',
+    hit.tags && hit.tags.length > 0 ? `tags: ${hit.tags.map((tag) => `\`${tag}\``).join(', ')}` : '',
+  ].filter(Boolean);
+  if (details.length > 0) {
+    text += `*${details.join(', ')}*\n\n`;
+  }
+  if (hit.snippet) {
+    text += `> ${formatSnippet(hit.snippet)}\n`;
+  }
+  return text;
+}
+
+export async function searchPages(
+  client: GrowiClient,
+  params: SearchPagesParams
+): Promise<ToolResult> {
+  try {
+    const { query, limit, offset, path, sort, order, format } = normalizeParams(params);
+    logToStderr(`Searching GROWI with: query="${query}", limit=${limit}, offset=${offset}, path=${path ?? '(all)'}`);
+
+    const response = await client.searchPages(query, limit, offset, { path, sort, order });
+
+    if (!response.ok) {
+      return errorResult(`Error searching pages (query: ${query}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const hits = (response.data || []).map(searchHitOutput);
+    const scope = path ? ` under path: ${path}` : '';
+    const data = { ok: true, query, data: hits, ...(response.meta ? { meta: response.meta } : {}) };
+    if (hits.length === 0) {
+      return toolResult(format, data, { text: () => `No pages found matching "${query}"${scope}` });
+    }
+
+    const total = response.meta?.total ?? hits.length;
+    let footer = `Showing ${offset + 1}-${offset + hits.length} of ${total} total hits`;
+    if (response.meta?.took !== undefined) {
+      footer += ` (took ${response.meta.took} ms)`;
+    }
+
+    return toolResult(format, data, {
+      text: () => {
+        let text = `Found ${hits.length} pages matching "${query}"${scope}\n\n`;
+        hits.forEach((hit, index) => {
+          text += formatHit(hit, offset + index + 1) + '\n';
+        });
+        return text + footer;
+      },
+      markdown: () => {
+        let text = `## Search results for "${query}"${scope}\n\n`;
+        hits.forEach((hit, index) => {
+          text += formatHitMarkdown(hit, offset + index + 1) + '\n';
+        });
+        return text + footer;
+      },
+    });
+  } catch (error) {
+    console.error('Exception in searchPages tool:', error);
+    return errorResult(`Error searching pages: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const searchPagesTool = defineTool({
+  name: 'search_pages',
+  description: 'Full-text search across GROWI pages, optionally scoped to a path prefix',
+  schema: searchPagesSchema,
+  outputSchema: searchPagesOutputSchema,
+  annotations: { readOnlyHint: true },
+  handler: (params, { client }) => searchPages(client, params),
+});
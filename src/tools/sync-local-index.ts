@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { localIndexFor, LocalIndex, syncLocalIndex as runSync } from '../search-index.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+export const syncLocalIndexSchema = z.object({
+  full: z.boolean().optional().describe('Check every page instead of only those updated since the last sync (default: false)'),
+  max_pages: z.union([z.string(), z.number()]).optional().describe(
+    'Maximum number of pages to fetch in this call (default: 1000); an unfinished crawl continues on the next call'
+  ),
+  format: formatSchema,
+});
+
+export const syncLocalIndexOutputSchema = z.object({
+  mode: z.enum(['full', 'incremental']),
+  indexed: z.number().describe('Pages fetched and (re)indexed'),
+  removed: z.number().describe('Pages removed because they were deleted or moved to the trash'),
+  unchanged: z.number(),
+  complete: z.boolean().describe('False if max_pages was reached; call again to continue'),
+  pages: z.number().describe('Number of pages in the index'),
+  syncedUntil: z.string().optional().describe('Latest page update the index includes'),
+});
+
+export type SyncLocalIndexParams = z.infer<typeof syncLocalIndexSchema>;
+
+export async function syncLocalIndex(
+  client: GrowiClient,
+  index: LocalIndex,
+  params: SyncLocalIndexParams
+): Promise<ToolResult> {
+  try {
+    const parsed = syncLocalIndexSchema.parse(params || {});
+    let maxPages = parsed.max_pages !== undefined ? Number(parsed.max_pages) : 1000;
+    if (isNaN(maxPages) || maxPages < 1) maxPages = 1000;
+
+    const summary = await runSync(client, index, { full: parsed.full, maxPages });
+
+    return toolResult(parsed.format, { ...summary }, {
+      text: () => {
+        let text = `${summary.mode === 'full' ? 'Full' : 'Incremental'} sync of the local index: `
+          + `${summary.indexed} pages indexed, ${summary.removed} removed, ${summary.unchanged} unchanged.\n`
+          + `The index holds ${summary.pages} pages${summary.syncedUntil ? `, up to date as of ${summary.syncedUntil}` : ''}.`;
+        if (!summary.complete) {
+          text += `\nStopped after ${summary.indexed} pages (max_pages); call sync_local_index again to continue.`;
+        }
+        return text;
+      },
+    });
+  } catch (error) {
+    console.error('Exception in syncLocalIndex tool:', error);
+    return errorResult(`Error syncing the local index: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const syncLocalIndexTool = defineTool({
+  name: 'sync_local_index',
+  description: 'Build or refresh the local offline search index used by local_search, fetching only pages changed since the last sync',
+  schema: syncLocalIndexSchema,
+  outputSchema: syncLocalIndexOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  available: (_clients, settings) => Boolean(settings.indexDir),
+  handler: (params, { client, settings }) => syncLocalIndex(client, localIndexFor(client, settings.indexDir!), params),
+});
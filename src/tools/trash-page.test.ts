@@ -0,0 +1,82 @@
+import { jest } from '@jest/globals';
+import { confirmationText, trashPage } from './trash-page.js';
+
+const page = (path: string) => ({
+  _id: `id-${path}`,
+  path,
+  revision: { _id: `rev-${path}`, body: '', author: { _id: 'u1', name: 'alice' }, createdAt: '' },
+  creator: { _id: 'u1', name: 'alice' },
+  createdAt: '',
+  updatedAt: '',
+});
+
+const mockClient = (paths: string[]) => ({
+  getPage: jest.fn(async (path: string) => (paths.includes(path)
+    ? { ok: true, page: page(path) }
+    : { ok: false, error: 'Page not found', errorInfo: { code: 'NOT_FOUND', status: 404 } })),
+  listPages: jest.fn(async (path: string) => {
+    const listed = paths.filter((candidate) => candidate === path || candidate.startsWith(path + '/')).map(page);
+    return { ok: true, pages: listed, meta: { total: listed.length, limit: 100, offset: 0 } };
+  }),
+  deletePage: jest.fn(async () => ({ ok: true, paths: ['/old'] })),
+}) as any;
+
+describe('confirmationText', () => {
+  it('echoes the path and the descendant count', () => {
+    expect(confirmationText('/old', 0)).toBe('/old (0 descendants)');
+    expect(confirmationText('/old', 1)).toBe('/old (1 descendant)');
+  });
+});
+
+describe('trashPage', () => {
+  const paths = ['/old', '/old/a', '/old/a/b', '/older'];
+
+  it('previews the affected pages and the confirmation without a confirm argument', async () => {
+    const client = mockClient(paths);
+
+    const result = await trashPage(client, { path: 'old/', recursive: true });
+
+    expect(result.structuredContent).toMatchObject({
+      operation: 'trash', path: '/old', descendants: 2, pages: ['/old', '/old/a', '/old/a/b'],
+      confirmation: '/old (2 descendants)', executed: false,
+    });
+    expect(result.content[0].text).toContain('call again with confirm: "/old (2 descendants)"');
+    expect(client.deletePage).not.toHaveBeenCalled();
+  });
+
+  it('refuses a confirmation with the wrong descendant count', async () => {
+    const client = mockClient(paths);
+
+    const result = await trashPage(client, { path: '/old', recursive: true, confirm: '/old (1 descendant)' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect(client.deletePage).not.toHaveBeenCalled();
+  });
+
+  it('moves the subtree to the trash once confirmed', async () => {
+    const client = mockClient(paths);
+
+    const result = await trashPage(client, { path: '/old', recursive: true, confirm: '/old (2 descendants)' });
+
+    expect(client.deletePage).toHaveBeenCalledWith(expect.objectContaining({ path: '/old' }), { recursive: true, completely: false });
+    expect(result.structuredContent).toMatchObject({ executed: true });
+    expect(result.content[0].text).toContain('Moved to the trash: 3 pages (/old and below)');
+  });
+
+  it('counts no descendants when not recursive', async () => {
+    const client = mockClient(paths);
+
+    await trashPage(client, { path: '/old', confirm: '/old (0 descendants)' });
+
+    expect(client.listPages).not.toHaveBeenCalled();
+    expect(client.deletePage).toHaveBeenCalledWith(expect.anything(), { recursive: false, completely: false });
+  });
+
+  it('rejects the root page and pages already in the trash', async () => {
+    const client = mockClient(paths);
+
+    expect((await trashPage(client, { path: '/' })).structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+    expect((await trashPage(client, { path: '/trash/old' })).structuredContent).toMatchObject({ error: { code: 'INVALID_ARGUMENT' } });
+  });
+});
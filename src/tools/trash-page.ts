@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, errorFromInfo, InvalidArgumentError } from '../errors.js';
+import { GrowiPage } from '../types/growi.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+import { listDescendants, normalizePagePath } from './move-page.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const trashPageSchema = z.object({
+  path: z.string().describe('Path of the page to move to the trash'),
+  recursive: z.boolean().optional().describe('Also move every page below it to the trash (default: false)'),
+  confirm: z.string().optional().describe(
+    'Confirmation exactly as shown by the preview: "<path> (<N> descendants)". Without it only a preview is returned'
+  ),
+  format: formatSchema,
+});
+
+// trash_page と delete_page で共通
+export const deletionOutputSchema = z.object({
+  operation: z.enum(['trash', 'delete']),
+  path: z.string(),
+  recursive: z.boolean(),
+  descendants: z.number().describe('Number of pages below the path that are affected (0 unless recursive)'),
+  pages: z.array(z.string()).describe('Every affected path, the page itself first'),
+  confirmation: z.string().describe('The confirm argument this deletion needs'),
+  executed: z.boolean().describe('True once GROWI has applied the change'),
+});
+
+export type TrashPageParams = z.infer<typeof trashPageSchema>;
+export type DeletionOutput = z.infer<typeof deletionOutputSchema>;
+
+/**
+ * The confirm argument a deletion needs: the exact path and the number of affected descendants
+ */
+export function confirmationText(path: string, descendants: number): string {
+  return `${path} (${descendants} ${descendants === 1 ? 'descendant' : 'descendants'})`;
+}
+
+/**
+ * Look up the page to delete and every page the deletion affects
+ */
+export async function planDeletion(
+  client: GrowiClient,
+  path: string,
+  recursive: boolean
+): Promise<{ page: GrowiPage; pages: string[] }> {
+  if (path === '/' || path === '/trash') {
+    throw new InvalidArgumentError(`${path} cannot be deleted`);
+  }
+
+  const pageResponse = await client.getPage(path);
+  if (!pageResponse.ok) {
+    throw errorFromInfo(`Error getting page (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+  }
+
+  const pages = [path];
+  if (recursive) {
+    const descendants = await listDescendants(client, path);
+    pages.push(...descendants.map((page) => page.path).sort());
+  }
+  return { page: pageResponse.page, pages };
+}
+
+const VERBS = {
+  trash: { preview: 'move to the trash', done: 'Moved to the trash' },
+  delete: { preview: 'delete completely', done: 'Deleted completely' },
+};
+
+/**
+ * Render a deletion, previewed or applied
+ */
+export function deletionResult(format: TrashPageParams['format'], data: DeletionOutput): ToolResult {
+  const verb = VERBS[data.operation];
+  const count = `${data.pages.length} ${data.pages.length === 1 ? 'page' : 'pages'}`;
+  const heading = data.executed
+    ? `${verb.done}: ${count} (${data.path}${data.recursive ? ' and below' : ''})`
+    : `Preview: ${verb.preview} ${data.path}${data.recursive ? ' and every page below it' : ''}, ${count}`;
+  const footer = data.executed
+    ? ''
+    : `Nothing has been changed. To ${verb.preview} these pages, call again with confirm: "${data.confirmation}"`;
+
+  return toolResult(format, data, {
+    text: () => [heading, '', ...data.pages.map((path) => `- ${path}`), ...(footer ? ['', footer] : [])].join('\n'),
+    markdown: () => [
+      `**${heading}**`, '', ...data.pages.map((path) => `- \`${path}\``), ...(footer ? ['', footer] : []),
+    ].join('\n'),
+  });
+}
+
+/**
+ * Preview a deletion, or apply it when the confirmation matches
+ * @param completely Delete the pages instead of moving them to the trash
+ */
+export async function runDeletion(
+  client: GrowiClient,
+  params: { path: string; recursive?: boolean; confirm?: string; format?: TrashPageParams['format'] },
+  completely: boolean
+): Promise<ToolResult> {
+  const operation = completely ? 'delete' : 'trash';
+  const path = normalizePagePath(params.path);
+  const recursive = params.recursive ?? false;
+
+  const plan = await planDeletion(client, path, recursive);
+  const data: DeletionOutput = {
+    operation,
+    path,
+    recursive,
+    descendants: plan.pages.length - 1,
+    pages: plan.pages,
+    confirmation: confirmationText(path, plan.pages.length - 1),
+    executed: false,
+  };
+
+  if (params.confirm === undefined) {
+    return deletionResult(params.format, data);
+  }
+  if (params.confirm.trim() !== data.confirmation) {
+    return errorResult(
+      `Confirmation does not match: expected "${data.confirmation}", got "${params.confirm}". `
+        + 'The pages may have changed since the preview; nothing has been deleted.',
+      { code: 'INVALID_ARGUMENT' }
+    );
+  }
+
+  logToStderr(`Deleting ${path} (recursive: ${recursive}, completely: ${completely}, ${plan.pages.length} pages)`);
+  const response = await client.deletePage(plan.page, { recursive, completely });
+  if (!response.ok) {
+    return errorResult(`Error deleting page (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+  }
+
+  return deletionResult(params.format, { ...data, executed: true });
+}
+
+export async function trashPage(
+  client: GrowiClient,
+  params: TrashPageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = trashPageSchema.parse(params);
+    if (normalizePagePath(parsed.path).startsWith('/trash/')) {
+      throw new InvalidArgumentError(`${parsed.path} is already in the trash; use delete_page to delete it completely`);
+    }
+    return await runDeletion(client, parsed, false);
+  } catch (error) {
+    console.error('Exception in trashPage tool:', error);
+    return errorResult(`Error moving page to the trash: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const trashPageTool = defineTool({
+  name: 'trash_page',
+  description: 'Move a page, optionally with every page below it, to the trash. '
+    + 'Returns a preview unless confirm echoes the exact path and descendant count',
+  schema: trashPageSchema,
+  outputSchema: deletionOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+  handler: (params, { client }) => trashPage(client, params),
+});
@@ -0,0 +1,17 @@
+import { jest } from '@jest/globals';
+import { updatePageTags } from './update-page-tags.js';
+
+describe('updatePageTags', () => {
+  it('adds and removes tags against the current set', async () => {
+    const mockClient = {
+      getPage: jest.fn(async () => ({ ok: true, page: { _id: 'page1', path: '/adr/001', revision: { _id: 'rev1' } } })),
+      getPageTags: jest.fn(async () => ({ ok: true, tags: ['adr', 'draft'] })),
+      updatePageTags: jest.fn(async (_pageId: string, _revisionId: string, tags: string[]) => ({ ok: true, tags })),
+    } as any;
+
+    const result = await updatePageTags(mockClient, { path: '/adr/001', add: 'accepted, adr', remove: ['draft'] });
+
+    expect(mockClient.updatePageTags).toHaveBeenCalledWith('page1', 'rev1', ['adr', 'accepted']);
+    expect(result.content[0].text).toContain('Tags: adr, accepted');
+  });
+});
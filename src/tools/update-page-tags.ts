@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf, InvalidArgumentError } from '../errors.js';
+import { formatSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+const tagListSchema = z.union([z.array(z.string()), z.string()]);
+
+export const updatePageTagsSchema = z.object({
+  path: z.string().describe('Path of the page'),
+  add: tagListSchema.optional().describe('Tags to add (array or comma-separated string)'),
+  remove: tagListSchema.optional().describe('Tags to remove (array or comma-separated string)'),
+  format: formatSchema,
+});
+
+export const updatePageTagsOutputSchema = z.object({
+  ok: z.boolean(),
+  path: z.string(),
+  tags: z.array(z.string()).describe('Tags of the page after the update'),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+});
+
+export type UpdatePageTagsParams = z.infer<typeof updatePageTagsSchema>;
+
+function toTagList(value: string[] | string | undefined): string[] {
+  const list = Array.isArray(value) ? value : (value ?? '').split(',');
+  return list.map((tag) => tag.trim().replace(/^#/, '')).filter(Boolean);
+}
+
+export async function updatePageTags(
+  client: GrowiClient,
+  params: UpdatePageTagsParams
+): Promise<ToolResult> {
+  try {
+    const parsed = updatePageTagsSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    const add = toTagList(parsed.add);
+    const remove = toTagList(parsed.remove);
+    if (add.length === 0 && remove.length === 0) {
+      throw new InvalidArgumentError('Specify at least one tag to add or remove');
+    }
+
+    const pageResponse = await client.getPage(path);
+    if (!pageResponse.ok) {
+      return errorResult(`Error updating tags (path: ${path}): ${pageResponse.error || 'Unknown error'}`, pageResponse.errorInfo);
+    }
+    const page = pageResponse.page;
+
+    const current = await client.getPageTags(page._id);
+    if (!current.ok) {
+      return errorResult(`Error updating tags (path: ${path}): ${current.error || 'Unknown error'}`, current.errorInfo);
+    }
+
+    const removeSet = new Set(remove);
+    const tags = [...new Set([...current.tags, ...add])].filter((tag) => !removeSet.has(tag));
+
+    logToStderr(`Updating tags of ${path}: [${current.tags.join(', ')}] -> [${tags.join(', ')}]`);
+    const response = await client.updatePageTags(page._id, page.revision._id, tags);
+    if (!response.ok) {
+      return errorResult(`Error updating tags (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    const before = new Set(current.tags);
+    const after = new Set(response.tags);
+    const data = {
+      ok: true,
+      path,
+      tags: response.tags,
+      added: response.tags.filter((tag) => !before.has(tag)),
+      removed: current.tags.filter((tag) => !after.has(tag)),
+    };
+    return toolResult(parsed.format, data, {
+      text: () => `Updated tags of ${path}\nTags: ${response.tags.length > 0 ? response.tags.join(', ') : '(none)'}`,
+      markdown: () => `Updated tags of \`${path}\`: ${response.tags.length > 0 ? response.tags.map((tag) => `\`${tag}\``).join(', ') : '(none)'}`,
+    });
+  } catch (error) {
+    console.error('Exception in updatePageTags tool:', error);
+    return errorResult(`Error updating tags: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const updatePageTagsTool = defineTool({
+  name: 'update_page_tags',
+  description: 'Add or remove tags on a GROWI page',
+  schema: updatePageTagsSchema,
+  outputSchema: updatePageTagsOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  handler: (params, { client }) => updatePageTags(client, params),
+});
@@ -0,0 +1,35 @@
+import { jest } from '@jest/globals';
+import { updatePage } from './update-page.js';
+
+describe('updatePage', () => {
+  it('passes the base revision id to the client', async () => {
+    const mockClient = {
+      updatePage: jest.fn(async () => ({
+        ok: true,
+        page: { path: '/runbook' } as any,
+        revision: { _id: 'rev2', body: 'new' },
+      })),
+    } as any;
+
+    const result = await updatePage(mockClient, { path: '/runbook', body: 'new', revision_id: 'rev1' });
+
+    expect(mockClient.updatePage).toHaveBeenCalledWith('/runbook', 'new', 'rev1');
+    expect(result.content[0].text).toContain('rev2');
+  });
+
+  it('surfaces conflicts as errors', async () => {
+    const mockClient = {
+      updatePage: jest.fn(async () => ({
+        ok: false,
+        error: 'Conflict: /runbook was edited by alice',
+        page: undefined,
+        revision: { _id: '', body: '' },
+      })),
+    } as any;
+
+    const result = await updatePage(mockClient, { path: '/runbook', body: 'new', revision_id: 'rev1' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Conflict');
+  });
+});
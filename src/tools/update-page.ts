@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { GrowiClient } from '../growi-client.js';
+import { errorResult, errorInfoOf } from '../errors.js';
+import { formatSchema, pageUpdateOutput, pageUpdateOutputSchema, toolResult, ToolResult } from '../output.js';
+import { defineTool } from './registry.js';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export const updatePageSchema = z.object({
+  path: z.string().describe('Path of the page to update'),
+  body: z.string().describe('New markdown body, replacing the whole page'),
+  revision_id: z.string().describe('Revision id the new body is based on, as returned by get_page'),
+  format: formatSchema,
+});
+
+export const updatePageOutputSchema = pageUpdateOutputSchema;
+
+export type UpdatePageParams = z.infer<typeof updatePageSchema>;
+
+export async function updatePage(
+  client: GrowiClient,
+  params: UpdatePageParams
+): Promise<ToolResult> {
+  try {
+    const parsed = updatePageSchema.parse(params);
+    let path = parsed.path;
+    if (!path.startsWith('/')) path = '/' + path;
+
+    logToStderr(`Updating page at path: ${path} (base revision: ${parsed.revision_id})`);
+    const response = await client.updatePage(path, parsed.body, parsed.revision_id);
+
+    if (!response.ok) {
+      return errorResult(`Error updating page (path: ${path}): ${response.error || 'Unknown error'}`, response.errorInfo);
+    }
+
+    return toolResult(parsed.format, pageUpdateOutput(response), {
+      text: () => `Updated page: ${response.page.path}\nRevision: ${response.revision._id}`,
+      markdown: () => `Updated page \`${response.page.path}\` (revision \`${response.revision._id}\`)`,
+    });
+  } catch (error) {
+    console.error('Exception in updatePage tool:', error);
+    return errorResult(`Error updating page: ${error instanceof Error ? error.message : String(error)}`, errorInfoOf(error));
+  }
+}
+
+export const updatePageTool = defineTool({
+  name: 'update_page',
+  description: 'Replace the body of a GROWI page; refuses if the page changed since the given revision',
+  schema: updatePageSchema,
+  outputSchema: updatePageOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  handler: (params, { client }) => updatePage(client, params),
+});
@@ -0,0 +1,147 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpTransport, isRetryable, parseRetryAfter } from './transport.js';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+describe('HttpTransport', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handlers: Handler[];
+  let requests: { method?: string; url?: string; body: string }[];
+
+  beforeEach(async () => {
+    handlers = [];
+    requests = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, body });
+        const handler = handlers.shift();
+        if (handler) {
+          handler(req, res, body);
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends the payload with GET like curl does', async () => {
+    const transport = new HttpTransport();
+
+    const response = await transport.send({ method: 'get', url: `${baseUrl}/_api/v3/page?path=%2F`, payload: 'access_token=abc' });
+
+    expect(response.status).toBe(200);
+    expect(requests[0]).toEqual({ method: 'GET', url: '/_api/v3/page?path=%2F', body: 'access_token=abc' });
+  });
+
+  it('retries 5xx responses and then succeeds', async () => {
+    handlers.push((req, res) => res.writeHead(502).end('bad gateway'));
+    handlers.push((req, res) => res.writeHead(503).end('unavailable'));
+    const transport = new HttpTransport({ baseDelayMs: 1 });
+
+    const response = await transport.send({ method: 'GET', url: `${baseUrl}/list` });
+
+    expect(response.body.toString()).toBe('{"ok":true}');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('gives up after maxRetries with the last status', async () => {
+    for (let i = 0; i < 3; i++) handlers.push((req, res) => res.writeHead(500).end('boom'));
+    const transport = new HttpTransport({ baseDelayMs: 1, maxRetries: 2 });
+
+    await expect(transport.send({ method: 'GET', url: `${baseUrl}/list` })).rejects.toMatchObject({ status: 500 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry a POST that failed with 500', async () => {
+    handlers.push((req, res) => res.writeHead(500).end('boom'));
+    const transport = new HttpTransport({ baseDelayMs: 1 });
+
+    await expect(transport.send({ method: 'POST', url: `${baseUrl}/_api/v3/page`, payload: '{}' })).rejects.toMatchObject({ status: 500 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('waits for Retry-After on 429', async () => {
+    handlers.push((req, res) => res.writeHead(429, { 'Retry-After': '1' }).end('slow down'));
+    const transport = new HttpTransport({ baseDelayMs: 1 }, () => 0);
+
+    const started = Date.now();
+    await transport.send({ method: 'POST', url: `${baseUrl}/_api/comments.add`, payload: '{}' });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not wait for a Retry-After longer than maxDelayMs', async () => {
+    handlers.push((req, res) => res.writeHead(429, { 'Retry-After': '120' }).end('slow down'));
+    const transport = new HttpTransport({ maxDelayMs: 1000 });
+
+    await expect(transport.send({ method: 'GET', url: `${baseUrl}/list` })).rejects.toMatchObject({ status: 429 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('times out a request that never answers', async () => {
+    handlers.push(() => { /* never respond */ });
+    handlers.push(() => { /* never respond */ });
+    const transport = new HttpTransport({ timeoutMs: 100, baseDelayMs: 1, maxRetries: 1 });
+
+    await expect(transport.send({ method: 'GET', url: `${baseUrl}/slow` })).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('cancels through the abort signal', async () => {
+    handlers.push(() => { /* never respond */ });
+    const transport = new HttpTransport({ timeoutMs: 10000 });
+    const controller = new AbortController();
+
+    const pending = transport.send({ method: 'GET', url: `${baseUrl}/slow`, signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORT_ERR' });
+  });
+
+  it('follows redirects without sending the payload to another origin', async () => {
+    handlers.push((req, res) => res.writeHead(302, { Location: '/files/a1' }).end());
+    const transport = new HttpTransport();
+
+    const response = await transport.send({ method: 'GET', url: `${baseUrl}/attachment/a1`, payload: 'access_token=abc', maxRedirects: 3 });
+
+    expect(response.status).toBe(200);
+    expect(requests[1]).toEqual({ method: 'GET', url: '/files/a1', body: 'access_token=abc' });
+  });
+
+  it('stops reading once the response exceeds maxBytes', async () => {
+    handlers.push((req, res) => res.writeHead(200).end(Buffer.alloc(4096)));
+    const transport = new HttpTransport();
+
+    await expect(transport.send({ method: 'GET', url: `${baseUrl}/big`, maxBytes: 1024 })).rejects.toMatchObject({ code: 'TOO_LARGE' });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'))).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries POST only when the server cannot have processed it', () => {
+    expect(isRetryable({ status: 429 }, 'POST')).toBe(true);
+    expect(isRetryable({ code: 'ECONNREFUSED' }, 'POST')).toBe(true);
+    expect(isRetryable({ code: 'ECONNRESET' }, 'POST')).toBe(false);
+    expect(isRetryable({ code: 'ECONNRESET' }, 'GET')).toBe(true);
+    expect(isRetryable({ status: 404 }, 'GET')).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import https from 'https';
+import http from 'http';
+import { URL } from 'url';
+
+const logToStderr = (...args: any[]) => {
+  console.error(...args);
+};
+
+export interface TransportOptions {
+  // Time allowed for a single attempt, from sending the request until the response body is complete
+  timeoutMs?: number;
+  // Number of retries after the first attempt
+  maxRetries?: number;
+  // Base delay of the exponential backoff
+  baseDelayMs?: number;
+  // Upper bound of a single backoff delay, and of a Retry-After the transport is willing to wait for
+  maxDelayMs?: number;
+}
+
+export interface TransportRequest {
+  method: string;
+  url: string;
+  // Request body, already serialized
+  payload?: string;
+  contentType?: string;
+  signal?: AbortSignal;
+  // Abort the download once the response body exceeds this many bytes
+  maxBytes?: number;
+  // Number of redirects to follow (default: 0, redirects are returned as errors)
+  maxRedirects?: number;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export const DEFAULT_TRANSPORT_OPTIONS: Required<TransportOptions> = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// 接続前に失敗したことが確実なエラー（非冪等なリクエストでも再送してよい）
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH']);
+// 送信後に失敗した可能性があるエラー
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'EPIPE', 'ETIMEDOUT', 'ECONNABORTED']);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+function abortError(): Error {
+  return Object.assign(new Error('Request was cancelled'), { name: 'AbortError', code: 'ABORT_ERR' });
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | string[] | undefined, now: number = Date.now()): number | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+  if (/^\s*\d+(\.\d+)?\s*$/.test(header)) {
+    return Math.round(Number(header) * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed attempt may be sent again
+ * POST is only retried when the server cannot have processed it (429 or a failed connection).
+ */
+export function isRetryable(error: any, method: string): boolean {
+  if (error?.code === 'ABORT_ERR') return false;
+  const status = error?.status;
+  if (status === 429) return true;
+  if (error?.code && CONNECT_ERROR_CODES.has(error.code)) return true;
+
+  const idempotent = IDEMPOTENT_METHODS.has(method.toUpperCase());
+  if (typeof status === 'number') return idempotent && status >= 500;
+  return idempotent && Boolean(error?.code && NETWORK_ERROR_CODES.has(error.code));
+}
+
+/**
+ * HTTP transport shared by every GrowiClient request
+ * Sends curl-compatible requests (the GROWI access token travels in the body, also for GET) with a
+ * per-attempt timeout, retries with jittered exponential backoff on 5xx / 429 / network errors,
+ * Retry-After support and cancellation through an AbortSignal.
+ */
+export class HttpTransport {
+  readonly options: Required<TransportOptions>;
+
+  constructor(options: TransportOptions = {}, private readonly random: () => number = Math.random) {
+    // undefined の項目はデフォルト値を使う
+    const given = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+    this.options = { ...DEFAULT_TRANSPORT_OPTIONS, ...given };
+  }
+
+  /**
+   * Send a request, retrying transient failures
+   * Non-2xx responses are rejected with an error carrying `status`, the response `body` and `retryAfterMs`
+   * when a Retry-After header was sent.
+   */
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const method = request.method.toUpperCase();
+
+    for (let attempt = 0; ; attempt++) {
+      if (request.signal?.aborted) throw abortError();
+      try {
+        return await this.sendFollowingRedirects({ ...request, method }, request.maxRedirects ?? 0);
+      } catch (error: any) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error, method)) {
+          throw error;
+        }
+
+        const backoff = this.backoffDelay(attempt);
+        const retryAfter = error.retryAfterMs as number | undefined;
+        if (retryAfter !== undefined && retryAfter > this.options.maxDelayMs) {
+          // 長すぎる待機を要求された場合はリトライせずに返す
+          throw error;
+        }
+        const delay = Math.max(backoff, retryAfter ?? 0);
+        logToStderr(`Request to ${new URL(request.url).pathname} failed (${error.message}); `
+          + `retry ${attempt + 1}/${this.options.maxRetries} in ${delay} ms`);
+        await this.sleep(delay, request.signal);
+      }
+    }
+  }
+
+  /**
+   * Full-jitter exponential backoff: a random delay between 0 and base * 2^attempt (capped)
+   */
+  backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(this.random() * ceiling);
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private async sendFollowingRedirects(request: TransportRequest, redirectsLeft: number): Promise<TransportResponse> {
+    const response = await this.sendOnce(request);
+    const location = response.headers.location;
+    if (response.status < 300 || response.status >= 400) {
+      return response;
+    }
+    if (!location || redirectsLeft <= 0) {
+      throw Object.assign(new Error(`HTTP Error: ${response.status} - redirect to ${location || '(no location)'}`), {
+        status: response.status,
+      });
+    }
+
+    const next = new URL(location, request.url);
+    // 別オリジン（ストレージの署名付きURLなど）にはアクセストークンを含むボディを送らない
+    const sameOrigin = next.origin === new URL(request.url).origin;
+    return this.sendFollowingRedirects({
+      ...request,
+      method: 'GET',
+      url: next.toString(),
+      payload: sameOrigin ? request.payload : undefined,
+      contentType: sameOrigin ? request.contentType : undefined,
+    }, redirectsLeft - 1);
+  }
+
+  private sendOnce(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const parsedUrl = new URL(request.url);
+      const { timeoutMs } = this.options;
+
+      const options = {
+        hostname: parsedUrl.hostname,
+        port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
+        path: `${parsedUrl.pathname}${parsedUrl.search}`,
+        method: request.method,
+        headers: {
+          'User-Agent': 'curl/8.7.1',
+          'Accept': '*/*',
+          ...(request.payload !== undefined
+            ? {
+                'Content-Type': request.contentType || 'application/x-www-form-urlencoded',
+                'Content-Length': Buffer.byteLength(request.payload),
+              }
+            : {}),
+        },
+      };
+
+      logToStderr(`${request.method} ${parsedUrl.protocol}//${parsedUrl.hostname}${parsedUrl.pathname}`);
+
+      let settled = false;
+      const finish = (error: Error | null, response?: TransportResponse) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(response!);
+        }
+      };
+
+      const requestModule = parsedUrl.protocol === 'https:' ? https : http;
+      const req = requestModule.request(options, (res) => {
+        const status = res.statusCode || 0;
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (request.maxBytes !== undefined && received > request.maxBytes) {
+            finish(Object.assign(new Error(`Response is larger than the ${request.maxBytes} byte limit`), { code: 'TOO_LARGE' }));
+            req.destroy();
+            return;
+          }
+          chunks.push(chunk);
+        });
+
+        res.on('end', () => {
+          const body = Buffer.concat(chunks);
+          logToStderr(`Response status: ${status}, ${body.length} bytes`);
+          if ((status >= 200 && status < 300) || (status >= 300 && status < 400)) {
+            finish(null, { status, headers: res.headers, body });
+          } else {
+            // ステータスコードを呼び出し元で判別できるように保持する
+            finish(Object.assign(new Error(`HTTP Error: ${status} - ${body.toString('utf8', 0, 1000)}`), {
+              status,
+              body: body.toString('utf8'),
+              retryAfterMs: parseRetryAfter(res.headers['retry-after']),
+            }));
+          }
+        });
+
+        res.on('error', (error) => finish(error));
+      });
+
+      const timer = setTimeout(() => {
+        finish(Object.assign(new Error(`Request timed out after ${timeoutMs} ms`), { code: 'ETIMEDOUT' }));
+        req.destroy();
+      }, timeoutMs);
+
+      const onAbort = () => {
+        finish(abortError());
+        req.destroy();
+      };
+      if (request.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+
+      req.on('error', (error) => {
+        logToStderr(`Request failed: ${error.message}`);
+        finish(error);
+      });
+
+      if (request.payload !== undefined) req.write(request.payload);
+      req.end();
+    });
+  }
+}
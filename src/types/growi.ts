@@ -1,28 +1,62 @@
+// Revision of a page body
+export interface GrowiRevision {
+  _id: string;
+  body: string;
+  author: {
+    _id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
 // Page structure returned from GROWI API
 export interface GrowiPage {
   _id: string;
   path: string;
-  revision: {
-    _id: string;
-    body: string;
-    author: {
-      _id: string;
-      name: string;
-    };
-    createdAt: string;
-  };
+  revision: GrowiRevision;
   creator: {
     _id: string;
     name: string;
   };
   createdAt: string;
   updatedAt: string;
+  // Only present when the endpoint returns tags
+  tags?: string[];
+}
+
+// Machine-readable category of a failed request (see src/errors.ts)
+export type GrowiErrorCode =
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INVALID_RESPONSE'
+  | 'NETWORK'
+  | 'TOO_LARGE'
+  | 'API_ERROR'
+  | 'INVALID_ARGUMENT'
+  | 'INTERNAL_ERROR';
+
+// Details of a failed request
+export interface GrowiErrorInfo {
+  code: GrowiErrorCode;
+  // HTTP status returned by GROWI
+  status?: number;
+  // Error code reported by GROWI in the response body (e.g. "page-not-found")
+  growiCode?: string;
+  // Delay requested by a Retry-After header
+  retryAfterMs?: number;
 }
 
 // Base response with common properties
 interface BaseResponse {
   ok: boolean;
   error?: string;
+  // Set together with error
+  errorInfo?: GrowiErrorInfo;
 }
 
 // Response for page listing
@@ -47,8 +81,25 @@ export interface GrowiPageUpdateResponse extends BaseResponse {
     _id: string;
     body: string;
   };
+  // Set when the page was edited after the base revision was fetched
+  conflict?: {
+    baseRevisionId: string;
+    currentRevisionId: string;
+    updatedAt: string;
+    author: string;
+  };
+}
+
+// Single hit returned from full-text search
+export interface GrowiSearchHit extends GrowiPage {
+  snippet?: string;
+  highlightedPath?: string;
+  tags?: string[];
 }
 
+// Sort keys accepted by the search API
+export type GrowiSearchSort = 'relationScore' | 'createdAt' | 'updatedAt';
+
 // Response for search
 export interface GrowiSearchResponse extends BaseResponse {
   meta?: {
@@ -56,7 +107,116 @@ export interface GrowiSearchResponse extends BaseResponse {
     took: number;
     hitsCount: number;
   };
-  data: GrowiPage[];
+  data: GrowiSearchHit[];
+}
+
+// Response for revision listing
+export interface GrowiRevisionsResponse extends BaseResponse {
+  revisions: GrowiRevision[];
+  meta?: {
+    total: number;
+    limit: number;
+    page: number;
+  };
+}
+
+// Response for single revision retrieval
+export interface GrowiRevisionResponse extends BaseResponse {
+  revision: GrowiRevision;
+}
+
+// Tag with the number of pages using it
+export interface GrowiTag {
+  name: string;
+  count: number;
+}
+
+// Response for tag listing
+export interface GrowiTagsResponse extends BaseResponse {
+  tags: GrowiTag[];
+  meta?: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
+
+// Response for the tags of a single page
+export interface GrowiPageTagsResponse extends BaseResponse {
+  tags: string[];
+}
+
+// Comment on a page
+export interface GrowiComment {
+  _id: string;
+  pageId: string;
+  // Revision that was current when the comment was posted
+  revisionId: string;
+  author: {
+    _id: string;
+    name: string;
+  };
+  body: string;
+  // Id of the comment this one replies to
+  replyTo?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response for the comments of a page
+export interface GrowiCommentsResponse extends BaseResponse {
+  comments: GrowiComment[];
+}
+
+// Response for posting a comment
+export interface GrowiCommentResponse extends BaseResponse {
+  comment: GrowiComment;
+}
+
+// File attached to a page
+export interface GrowiAttachment {
+  _id: string;
+  pageId: string;
+  originalName: string;
+  mimeType: string;
+  // Size in bytes
+  size: number;
+  creator: {
+    _id: string;
+    name: string;
+  };
+  createdAt: string;
+  // Path of the file relative to the GROWI URL
+  downloadPath: string;
+}
+
+// Response for the attachments of a page
+export interface GrowiAttachmentsResponse extends BaseResponse {
+  attachments: GrowiAttachment[];
+  meta?: {
+    total: number;
+    limit: number;
+    page: number;
+  };
+}
+
+// Response for downloading an attachment
+export interface GrowiAttachmentDownloadResponse extends BaseResponse {
+  data: Buffer;
+  // Content type reported by the server
+  contentType: string;
+}
+
+// Response of a page rename (move) or duplication
+export interface GrowiPageMoveResponse extends BaseResponse {
+  // The page at its new path (the copy, for a duplication)
+  page: GrowiPage;
+}
+
+// Response of moving pages to the trash or deleting them completely
+export interface GrowiPageDeleteResponse extends BaseResponse {
+  // Paths of the deleted pages reported by GROWI
+  paths: string[];
 }
 
 // Response for checking page existence
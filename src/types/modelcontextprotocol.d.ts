@@ -21,5 +21,5 @@ declare module '@modelcontextprotocol/sdk/types' {
   export const ListResourcesRequestSchema: any;
   export const ReadResourceRequestSchema: any;
   export const ListPromptsRequestSchema: any;
-  export const ReadPromptRequestSchema: any;
+  export const GetPromptRequestSchema: any;
 } 
\ No newline at end of file